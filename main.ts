@@ -1,9 +1,12 @@
-import { Plugin, Notice, MarkdownView, Menu, Editor } from 'obsidian';
+import { Plugin, Notice, MarkdownView, Menu, Editor, TAbstractFile, TFolder, Vault, getAllTags } from 'obsidian';
 import { DashReaderModal } from './src/rsvp-view';
 import { DashReaderSettingTab } from './src/settings';
-import { DashReaderSettings } from './src/types';
+import { DashReaderSettings, TextSource } from './src/types';
 import { validateSettings } from './src/services/settings-validator';
 import { PdfViewIntegration } from './src/pdf-view-integration';
+import { ReadingStatsModal } from './src/stats-modal';
+import { QueueFolderSuggestModal, ReadingQueueModal } from './src/queue-modal';
+import { QUEUEABLE_EXTENSIONS, ReadingQueue } from './src/services/reading-queue';
 import { hitTestBlock, resolveSelectionToTokenIndex } from './src/pdf';
 import { TFile } from 'obsidian';
 
@@ -13,11 +16,13 @@ const DEBUG_PDF_SELECTION = true;
 export default class DashReaderPlugin extends Plugin {
   private currentModal: DashReaderModal | null = null;
   private pdf!: PdfViewIntegration;
+  private readingQueue!: ReadingQueue;
 
   settings!: DashReaderSettings;
 
   async onload() {
     await this.loadSettings();
+    this.readingQueue = new ReadingQueue(this.settings);
 
     // PDF selection + active-view tracking (selection caching for command palette).
     this.pdf = new PdfViewIntegration(this.app, this);
@@ -51,6 +56,101 @@ export default class DashReaderPlugin extends Plugin {
       callback: () => void this.readActiveFileOrPdf(),
     });
 
+    this.addCommand({
+      id: 'choose-sections',
+      name: 'Choose sections to read',
+      checkCallback: (checking) => {
+        const modal = this.currentModal;
+        if (!modal || !modal.isOpen) return false;
+        if (!checking) modal.showSectionFilter();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'search-text',
+      name: 'Search in the text',
+      checkCallback: (checking) => {
+        const modal = this.currentModal;
+        if (!modal || !modal.isOpen) return false;
+        if (!checking) modal.showSearch();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'show-summary',
+      name: 'Show summary of the text',
+      checkCallback: (checking) => {
+        const modal = this.currentModal;
+        if (!modal || !modal.isOpen) return false;
+        if (!checking) modal.showSummary();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'next-watch-term',
+      name: 'Jump to next watch term',
+      checkCallback: (checking) => {
+        const modal = this.currentModal;
+        if (!modal || !modal.isOpen) return false;
+        if (!checking) modal.jumpToWatchHit('next');
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'previous-watch-term',
+      name: 'Jump to previous watch term',
+      checkCallback: (checking) => {
+        const modal = this.currentModal;
+        if (!modal || !modal.isOpen) return false;
+        if (!checking) modal.jumpToWatchHit('prev');
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'queue-add-active-file',
+      name: 'Add active file to reading queue',
+      callback: () => {
+        const file = this.pdf.getActiveFilePreferPdf(this.app.workspace.getActiveFile());
+        if (file instanceof TFile) this.addToQueue([file]);
+        else new Notice('No active file found');
+      },
+    });
+
+    this.addCommand({
+      id: 'queue-add-folder',
+      name: 'Add folder to reading queue',
+      callback: () => new QueueFolderSuggestModal(this.app, (folder) => this.addToQueue([folder])).open(),
+    });
+
+    this.addCommand({
+      id: 'queue-add-tagged',
+      name: 'Add tagged notes to reading queue',
+      callback: () => this.addTaggedNotesToQueue(),
+    });
+
+    this.addCommand({
+      id: 'queue-show',
+      name: 'Show reading queue',
+      callback: () => this.showQueue(),
+    });
+
+    this.addCommand({
+      id: 'queue-start',
+      name: 'Start reading queue',
+      callback: () => void this.startQueue(),
+    });
+
+    this.addCommand({
+      id: 'show-reading-stats',
+      name: 'Show reading statistics',
+      callback: () => new ReadingStatsModal(this.app, this.settings).open(),
+    });
+
     // Context menu (Markdown editor only)
     this.registerEvent(
       this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor) => {
@@ -68,6 +168,31 @@ export default class DashReaderPlugin extends Plugin {
       })
     );
 
+    // File explorer / search results: queue files and folders
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+        if (this.collectQueueableFiles([file]).length === 0) return;
+        menu.addItem((item) => {
+          item
+            .setTitle(file instanceof TFolder ? 'Add folder to reading queue' : 'Add to reading queue')
+            .setIcon('list-ordered')
+            .onClick(() => this.addToQueue([file]));
+        });
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on('files-menu', (menu: Menu, files: TAbstractFile[]) => {
+        if (this.collectQueueableFiles(files).length === 0) return;
+        menu.addItem((item) => {
+          item
+            .setTitle('Add to reading queue')
+            .setIcon('list-ordered')
+            .onClick(() => this.addToQueue(files));
+        });
+      })
+    );
+
     this.addSettingTab(new DashReaderSettingTab(this.app, this));
 
     this.registerEvent(
@@ -108,6 +233,15 @@ export default class DashReaderPlugin extends Plugin {
     return ws.getActiveFile() ?? ((ws.activeLeaf?.view as any)?.file ?? null);
   }
 
+  /** Identity of a whole-file load, used to remember the reading position. */
+  private getFileSource(file: TFile): Pick<TextSource, 'filePath' | 'fileMtime' | 'fileSize'> {
+    return {
+      filePath: file.path,
+      fileMtime: file.stat?.mtime,
+      fileSize: file.stat?.size,
+    };
+  }
+
   private getDomSelectionText(): string {
     return (window.getSelection?.()?.toString?.() ?? '').trim();
   }
@@ -122,7 +256,8 @@ export default class DashReaderPlugin extends Plugin {
       () => {
         this.currentModal = null;
       },
-      () => void this.saveSettings()
+      () => void this.saveSettings(),
+      () => this.continueQueue()
     );
 
     if (options?.skipInitialAutoLoad) {
@@ -281,6 +416,8 @@ export default class DashReaderPlugin extends Plugin {
         fileName: file.name,
         lineNumber: 1,
         cursorPosition: tokenIndex,
+        ...this.getFileSource(file),
+        pdfIndex: index,
       });
     } catch (err) {
       console.error('[DashReader] Launch from cursor (PDF) failed', err);
@@ -378,26 +515,144 @@ export default class DashReaderPlugin extends Plugin {
     const ext = String(file.extension ?? '').toLowerCase();
     const isPdf = !!pdfView || ext === 'pdf';
     const modal = this.openModal({ skipInitialAutoLoad: true });
+    await this.loadFileIntoModal(modal, file, isPdf);
+  }
 
+  /**
+   * Loads a whole note (editor content if it is the active note) or PDF
+   *
+   * @returns false if nothing could be loaded (a notice was shown)
+   */
+  private async loadFileIntoModal(
+    modal: DashReaderModal,
+    file: TFile,
+    isPdf: boolean,
+    extra: Pick<TextSource, 'fromQueue'> = {}
+  ): Promise<boolean> {
     if (!isPdf) {
       const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-      const content = activeView?.editor?.getValue() ?? (await this.app.vault.read(file));
-      modal.loadText(content, { fileName: file.name, lineNumber: 1 });
-      return;
+      const content = activeView?.file === file ? activeView.editor.getValue() : await this.app.vault.read(file);
+      modal.loadText(content, { fileName: file.name, lineNumber: 1, ...this.getFileSource(file), ...extra });
+      return true;
     }
 
     try {
       const index = await this.pdf.getOrParseNarrativeIndex(file, { maxPages: 200 });
       if (!index.fullText) {
         new Notice('No narrative text could be extracted from this PDF');
-        return;
+        return false;
       }
-      modal.loadPlainText(index.fullText, { fileName: file.name, lineNumber: 1 });
+      modal.loadPlainText(index.fullText, {
+        fileName: file.name,
+        lineNumber: 1,
+        ...this.getFileSource(file),
+        pdfIndex: index,
+        ...extra,
+      });
+      return true;
     } catch (err) {
       console.error('[DashReader] PDF parse failed', err);
       const msg = err instanceof Error ? err.message : String(err);
       new Notice(msg ? `Could not parse this PDF: ${msg}` : 'Could not parse this PDF');
+      return false;
+    }
+  }
+
+  // ── Reading queue ────────────────────────────────────────────────────
+
+  /** Notes and PDFs among `files`, folders expanded recursively (sorted by path) */
+  private collectQueueableFiles(files: TAbstractFile[]): TFile[] {
+    const out: TFile[] = [];
+    const visit = (f: TAbstractFile) => {
+      if (f instanceof TFile && QUEUEABLE_EXTENSIONS.indexOf(f.extension.toLowerCase()) >= 0) out.push(f);
+    };
+    for (const f of files) {
+      if (f instanceof TFolder) {
+        const inFolder: TFile[] = [];
+        Vault.recurseChildren(f, (child) => {
+          if (child instanceof TFile) inFolder.push(child);
+        });
+        inFolder.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true })).forEach(visit);
+      } else {
+        visit(f);
+      }
+    }
+    return out;
+  }
+
+  private addToQueue(files: TAbstractFile[]): void {
+    const queueable = this.collectQueueableFiles(files);
+    if (queueable.length === 0) {
+      new Notice('Only notes and PDF files can be added to the reading queue');
+      return;
+    }
+    const added = this.readingQueue.add(queueable.map((f) => f.path));
+    void this.saveSettings();
+    new Notice(
+      added === 0
+        ? 'Already in the reading queue'
+        : `Added ${added} file${added === 1 ? '' : 's'} to the reading queue (${this.readingQueue.length} queued)`
+    );
+  }
+
+  private addTaggedNotesToQueue(): void {
+    const tag = this.settings.queueTag.toLowerCase();
+    const tagged = this.app.vault.getMarkdownFiles().filter((file) => {
+      const cache = this.app.metadataCache.getFileCache(file);
+      const tags = cache ? getAllTags(cache) ?? [] : [];
+      return tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+    });
+    if (tagged.length === 0) {
+      new Notice(`No notes tagged ${this.settings.queueTag}`);
+      return;
+    }
+    tagged.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+    this.addToQueue(tagged);
+  }
+
+  private showQueue(): void {
+    new ReadingQueueModal(
+      this.app,
+      this.readingQueue,
+      () => void this.saveSettings(),
+      () => void this.startQueue()
+    ).open();
+  }
+
+  /** Takes the next existing file off the queue (null when the queue is empty) */
+  private takeNextQueued(): TFile | null {
+    const path = this.readingQueue.takeNext((p) => this.app.vault.getAbstractFileByPath(p) instanceof TFile);
+    void this.saveSettings();
+    const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+    return file instanceof TFile ? file : null;
+  }
+
+  private async startQueue(): Promise<void> {
+    const file = this.takeNextQueued();
+    if (!file) {
+      new Notice('The reading queue is empty');
+      return;
     }
+    const modal = this.openModal({ skipInitialAutoLoad: true });
+    await this.loadFileIntoModal(modal, file, file.extension.toLowerCase() === 'pdf', { fromQueue: true });
+  }
+
+  /** A queued text was read to the end: title card, then the next file */
+  private continueQueue(): void {
+    const modal = this.currentModal;
+    if (!modal || !modal.isOpen) return;
+
+    const file = this.takeNextQueued();
+    if (!file) {
+      new Notice('Reading queue finished');
+      return;
+    }
+    const remaining = this.readingQueue.length;
+    modal.continueWithQueuedItem(
+      file.basename,
+      remaining > 0 ? `Up next · ${remaining} more in the queue` : 'Up next · last in the queue',
+      () => this.loadFileIntoModal(modal, file, file.extension.toLowerCase() === 'pdf', { fromQueue: true })
+    );
   }
 
   private async dumpPdfExtractionReport(): Promise<void> {
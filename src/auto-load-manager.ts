@@ -61,6 +61,7 @@
 import { App, MarkdownView, TFile } from 'obsidian';
 import { TEXT_LIMITS, TIMING } from './constants';
 import { TimeoutManager } from './services/timeout-manager';
+import { TextSource } from './types';
 
 /**
  * Callback function for loading text into DashReader view
@@ -70,9 +71,10 @@ import { TimeoutManager } from './services/timeout-manager';
  * @param source.fileName - Name of the file being read
  * @param source.lineNumber - Line number where selection starts (for selections)
  * @param source.cursorPosition - Character offset of cursor (for full document loads)
+ * @param source.filePath - Vault path plus mtime/size (full document loads only)
  */
 export interface LoadTextCallback {
-  (text: string, source?: { fileName?: string; lineNumber?: number; cursorPosition?: number }): void;
+  (text: string, source?: TextSource): void;
 }
 
 /**
@@ -424,6 +426,9 @@ export class AutoLoadManager {
         this.loadTextCallback(content.fullContent, {
           fileName: content.fileName,
           cursorPosition: content.cursorPosition,
+          filePath: content.currentFile.path,
+          fileMtime: content.currentFile.stat.mtime,
+          fileSize: content.currentFile.stat.size,
         });
       }
     }
@@ -491,6 +496,9 @@ export class AutoLoadManager {
         this.loadTextCallback(content.fullContent, {
           fileName: content.fileName,
           cursorPosition: content.cursorPosition,
+          filePath: content.currentFile.path,
+          fileMtime: content.currentFile.stat.mtime,
+          fileSize: content.currentFile.stat.size,
         });
       }
     }, delay);
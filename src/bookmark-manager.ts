@@ -0,0 +1,243 @@
+/**
+ * BookmarkManager - Bookmarks captured during RSVP playback
+ *
+ * Responsibilities:
+ * - Toggle a bookmark at the current word (index, heading path, sentence)
+ * - Map bookmarks of whole-note Markdown loads back to a source line
+ * - Find Markdown bookmarks again after the note was edited (word context, source offset)
+ * - Persist bookmarks per vault path (in-memory for selections)
+ * - List bookmarks in a dropdown menu and jump back to them
+ */
+
+import { MenuBuilder, MenuHandle } from './menu-builder';
+import { joinEngineTokens, RSVPEngine } from './rsvp-engine';
+import { createTextAnchor, resolveTextAnchor } from './services/text-anchor';
+import { TimeoutManager } from './services/timeout-manager';
+import { Bookmark, DashReaderSettings } from './types';
+
+type BookmarkManagerOptions = {
+  onPlayStateChange?: (isPlaying: boolean) => void;
+  canAutoResume?: () => boolean;
+  /** Called after bookmarks changed (persist settings) */
+  onChange?: () => void;
+};
+
+/** Maximum characters of the sentence shown in the menu */
+const MENU_SENTENCE_LENGTH = 80;
+
+export class BookmarkManager {
+  private engine: RSVPEngine;
+  private timeoutManager: TimeoutManager;
+  private settings: DashReaderSettings;
+  private onPlayStateChange?: (isPlaying: boolean) => void;
+  private canAutoResume?: () => boolean;
+  private onChange?: () => void;
+
+  /** Vault path of the loaded text (null for selections and plain text) */
+  private filePath: string | null = null;
+  /** Resolves a word index to a source line (null when not mappable) */
+  private resolveLine: ((wordIndex: number) => number | null) | null = null;
+  /** Whether bookmarks keep their word context (Markdown notes, not PDFs) */
+  private anchored = false;
+  /** Bookmarks for texts that are not a whole file */
+  private transient: Bookmark[] = [];
+  private activeMenu: MenuHandle | null = null;
+
+  constructor(
+    engine: RSVPEngine,
+    timeoutManager: TimeoutManager,
+    settings: DashReaderSettings,
+    opts: BookmarkManagerOptions = {}
+  ) {
+    this.engine = engine;
+    this.timeoutManager = timeoutManager;
+    this.settings = settings;
+    this.onPlayStateChange = opts.onPlayStateChange;
+    this.canAutoResume = opts.canAutoResume;
+    this.onChange = opts.onChange;
+  }
+
+  updateSettings(settings: DashReaderSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Switches to a newly loaded text
+   *
+   * @param filePath - Vault path for whole-file loads, otherwise null
+   * @param resolveLine - Word index → source line mapper (Markdown notes only)
+   * @param anchored - Bookmarks keep their word context and are found again after edits (Markdown notes only)
+   */
+  setSource(
+    filePath: string | null,
+    resolveLine: ((wordIndex: number) => number | null) | null,
+    anchored = false
+  ): void {
+    this.activeMenu?.close();
+    this.filePath = filePath;
+    this.resolveLine = resolveLine;
+    this.anchored = anchored && filePath !== null;
+    this.transient = [];
+    if (this.anchored) this.relocate();
+  }
+
+  /**
+   * Bookmarks of the loaded text, in reading order
+   */
+  getBookmarks(): Bookmark[] {
+    if (!this.filePath) return this.transient;
+    return this.settings.bookmarks[this.filePath] ?? [];
+  }
+
+  /**
+   * Adds a bookmark at a word, or removes the one already there
+   *
+   * @returns The created bookmark, or null if an existing one was removed
+   */
+  toggle(wordIndex: number): Bookmark | null {
+    const list = this.getBookmarks().slice();
+    const existing = list.findIndex((b) => b.wordIndex === wordIndex);
+
+    if (existing >= 0) {
+      list.splice(existing, 1);
+      this.store(list);
+      return null;
+    }
+
+    const context = this.engine.getCurrentHeadingContext(wordIndex);
+    const bookmark: Bookmark = {
+      wordIndex,
+      headingPath: context.breadcrumb.map((h) => h.text),
+      sentence: joinEngineTokens(this.engine.getSentenceTokens(wordIndex)),
+      createdAt: Date.now(),
+    };
+    const sourceLine = this.resolveLine?.(wordIndex);
+    if (typeof sourceLine === 'number') bookmark.sourceLine = sourceLine;
+    if (this.anchored) {
+      const anchor = createTextAnchor(this.getWords(), wordIndex);
+      const sourceOffset = this.engine.getSourceOffset(wordIndex);
+      if (anchor) bookmark.textAnchor = sourceOffset !== null ? { ...anchor, sourceOffset } : anchor;
+    }
+
+    list.push(bookmark);
+    list.sort((a, b) => a.wordIndex - b.wordIndex);
+    this.store(list);
+    return bookmark;
+  }
+
+  /**
+   * Opens the bookmark list under an anchor element
+   * Pauses while the menu is open; resumes after a dismiss or a jump.
+   */
+  showMenu(anchorEl: HTMLElement): void {
+    if (this.activeMenu?.isOpen()) {
+      this.activeMenu.close();
+      return;
+    }
+
+    const bookmarks = this.getBookmarks();
+    const wasPlaying = this.engine.getIsPlaying();
+    if (wasPlaying) {
+      this.engine.pause();
+      this.onPlayStateChange?.(false);
+    }
+
+    const currentIndex = this.engine.getCurrentIndex();
+    const passed = bookmarks.filter((b) => b.wordIndex <= currentIndex);
+    const current = passed.length > 0 ? passed[passed.length - 1] : null;
+
+    this.activeMenu = MenuBuilder.createMenu({
+      anchorEl,
+      cssClass: 'dashreader-outline-menu dashreader-bookmark-menu',
+      title: bookmarks.length > 0 ? 'Bookmarks' : 'No bookmarks yet (press B while reading)',
+      items: bookmarks.map((b) => ({
+        text: this.describe(b),
+        wordIndex: b.wordIndex,
+        isCurrent: b === current,
+      })),
+      onItemClick: (wordIndex) => {
+        this.engine.jumpToIndex(wordIndex);
+      },
+      timeoutManager: this.timeoutManager,
+      onClose: () => {
+        this.activeMenu = null;
+        const canResume = this.canAutoResume ? this.canAutoResume() : true;
+        if (wasPlaying && canResume) {
+          this.engine.play();
+          this.onPlayStateChange?.(true);
+        } else {
+          this.onPlayStateChange?.(this.engine.getIsPlaying());
+        }
+      },
+    });
+    MenuBuilder.scrollToCurrentItem(this.activeMenu.el, this.timeoutManager);
+  }
+
+  /**
+   * Menu label: heading path, sentence preview and source line
+   */
+  private describe(b: Bookmark): string {
+    let sentence = b.sentence;
+    if (sentence.length > MENU_SENTENCE_LENGTH) {
+      sentence = `${sentence.slice(0, MENU_SENTENCE_LENGTH - 1).trimEnd()}…`;
+    }
+
+    const parts: string[] = [];
+    if (b.headingPath.length > 0) parts.push(b.headingPath[b.headingPath.length - 1]);
+    parts.push(sentence || `Word ${b.wordIndex + 1}`);
+
+    const label = parts.join(' — ');
+    return b.sourceLine ? `${label} (line ${b.sourceLine})` : label;
+  }
+
+  /**
+   * Moves the bookmarks of the loaded note to where their words are now
+   * Bookmarks whose word cannot be found keep their index.
+   */
+  private relocate(): void {
+    const bookmarks = this.getBookmarks();
+    if (!bookmarks.some((b) => b.textAnchor)) return;
+
+    const words = this.getWords();
+    const tokenAtSourceOffset = (offset: number) => this.engine.getTokenAtSourceOffset(offset);
+    let changed = false;
+    const list: Bookmark[] = [];
+
+    for (const b of bookmarks) {
+      const index = b.textAnchor ? resolveTextAnchor(words, b.textAnchor, b.wordIndex, tokenAtSourceOffset) : null;
+      if (index === null || index === b.wordIndex) {
+        list.push(b);
+        continue;
+      }
+
+      changed = true;
+      const moved: Bookmark = { ...b, wordIndex: index };
+      const sourceLine = this.resolveLine?.(index);
+      if (typeof sourceLine === 'number') moved.sourceLine = sourceLine;
+      else delete moved.sourceLine;
+      list.push(moved);
+    }
+    if (!changed) return;
+
+    // Two bookmarks may now point at the same word; keep the first
+    const unique = list
+      .sort((a, b) => a.wordIndex - b.wordIndex)
+      .filter((b, i, sorted) => i === 0 || sorted[i - 1].wordIndex !== b.wordIndex);
+    this.store(unique);
+  }
+
+  private getWords(): string[] {
+    return this.engine.getTokenRange(0, this.engine.getTotalWords() - 1);
+  }
+
+  private store(list: Bookmark[]): void {
+    if (!this.filePath) {
+      this.transient = list;
+      return;
+    }
+
+    if (list.length > 0) this.settings.bookmarks[this.filePath] = list;
+    else delete this.settings.bookmarks[this.filePath];
+    this.onChange?.();
+  }
+}
@@ -139,6 +139,10 @@ export const TIMING = {
   throttleDelay: 150,
   /** CSS transition duration for smooth animations */
   transitionDuration: 300,
+  /** Title card shown before the next file of the reading queue starts */
+  queueTitleCard: 1500,
+  /** "Skipped N words" label of skim mode */
+  skimIndicator: 1200,
 } as const;
 
 // ============================================================================
@@ -157,6 +161,10 @@ export const TEXT_LIMITS = {
   minContentLength: 50,
   /** Minimum words in parsed text to display */
   minParsedLength: 10,
+  /** Paragraphs kept above the current one in the pacer */
+  pacerParagraphsBefore: 2,
+  /** Paragraphs rendered below the current one in the pacer */
+  pacerParagraphsAfter: 12,
 } as const;
 
 // ============================================================================
@@ -234,6 +242,12 @@ export const ICONS = {
   celebration: 'lucide:sparkles',
   book: 'lucide:book-open',
   expand: 'lucide:maximize-2',
+  bookmarkAdd: 'lucide:bookmark-plus',
+  bookmarks: 'lucide:bookmark',
+  queue: 'lucide:list-ordered',
+  sections: 'lucide:list-checks',
+  summary: 'lucide:scroll-text',
+  search: 'lucide:search',
 } as const;
 
 // ============================================================================
@@ -93,6 +93,11 @@ export type DOMElementKey =
   | 'pauseBtn'          // Pause button
   | 'controlsEl'        // Controls panel container
   | 'settingsEl'        // Settings panel container
+  | 'pacingProfileSelect' // Pacing profile switcher (inline settings)
+  | 'presentationSelect' // Presentation mode switcher (inline settings)
+  | 'slowStartToggle'   // Slow start checkbox (inline settings)
+  | 'micropauseToggle'  // Micropause checkbox (inline settings)
+  | 'skimToggle'        // Skim mode checkbox (inline settings)
 
 // ============================================================================
 // 2. DOMREGISTRY CLASS
@@ -0,0 +1,244 @@
+/**
+ * MarkdownSourceMap - Maps parsed plain text back to the original Markdown
+ *
+ * Responsibilities:
+ * - MappedText: string + per-character source offsets, kept in sync through
+ *   slicing and regex replacements
+ * - MappedTextBuilder: concatenates mapped pieces and inserted text (markers,
+ *   separators) into a new MappedText
+ * - MarkdownSourceMap: plain offset / engine token ↔ source offset and line
+ *
+ * Engine tokens are rebuilt here exactly like cleanTextForEngine() splits
+ * them: every run of non-whitespace is a word, every run of '\n' is one
+ * line break token.
+ */
+
+/**
+ * Replacement output of MappedText.replace()
+ * Strings are inserted text (mapped to the start of the match); MappedText
+ * pieces keep the source offsets they carry.
+ */
+export type MappedPiece = string | MappedText;
+
+export class MappedText {
+  readonly text: string;
+  /** Source offset of each character of `text` */
+  readonly offsets: number[];
+  /** Source offset just past the text (used for text inserted at the end) */
+  readonly endOffset: number;
+
+  constructor(text: string, offsets?: number[], endOffset?: number) {
+    this.text = text;
+    this.offsets = offsets ?? Array.from({ length: text.length }, (_v, i) => i);
+    this.endOffset = endOffset ?? text.length;
+  }
+
+  /**
+   * Same matches and result text as String.prototype.replace(re, ...)
+   *
+   * @param fn - Builds the replacement; `slice(at, length)` returns part of
+   *             the match (at = offset within the match) with its offsets
+   */
+  replace(
+    re: RegExp,
+    fn: (m: RegExpExecArray, slice: (at: number, length: number) => MappedText) => MappedPiece | MappedPiece[]
+  ): MappedText {
+    const parts: string[] = [];
+    const offsets: number[] = [];
+    let last = 0;
+
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(this.text)) !== null) {
+      const start = m.index;
+      this.copyInto(parts, offsets, last, start);
+
+      const insertAt = this.offsetAt(start);
+      const out = fn(m, (at, length) => this.slice(start + at, start + at + length));
+      for (const piece of Array.isArray(out) ? out : [out]) {
+        if (typeof piece === 'string') {
+          parts.push(piece);
+          for (let k = 0; k < piece.length; k++) offsets.push(insertAt);
+        } else {
+          parts.push(piece.text);
+          for (const o of piece.offsets) offsets.push(o);
+        }
+      }
+
+      last = start + m[0].length;
+      if (!re.global) break;
+      if (m[0].length === 0) re.lastIndex++;
+    }
+
+    this.copyInto(parts, offsets, last, this.text.length);
+    return new MappedText(parts.join(''), offsets, this.endOffset);
+  }
+
+  get length(): number {
+    return this.text.length;
+  }
+
+  slice(start: number, end: number = this.text.length): MappedText {
+    return new MappedText(this.text.slice(start, end), this.offsets.slice(start, end), this.offsetAt(end));
+  }
+
+  private offsetAt(index: number): number {
+    return index < this.offsets.length ? this.offsets[index] : this.endOffset;
+  }
+
+  private copyInto(parts: string[], offsets: number[], start: number, end: number): void {
+    if (end <= start) return;
+    parts.push(this.text.slice(start, end));
+    for (let i = start; i < end; i++) offsets.push(this.offsets[i]);
+  }
+}
+
+export class MappedTextBuilder {
+  private parts: string[] = [];
+  private offsets: number[] = [];
+  /** Offset given to inserted text when no explicit offset is passed */
+  private lastOffset: number;
+
+  constructor(startOffset: number = 0) {
+    this.lastOffset = startOffset;
+  }
+
+  get length(): number {
+    return this.offsets.length;
+  }
+
+  append(piece: MappedText): this {
+    if (piece.length === 0) return this;
+    this.parts.push(piece.text);
+    for (const o of piece.offsets) this.offsets.push(o);
+    this.lastOffset = piece.endOffset;
+    return this;
+  }
+
+  /**
+   * Appends text that does not exist in the source (markers, separators)
+   *
+   * @param at - Source offset the text is mapped to (default: end of the
+   *             previous piece)
+   */
+  insert(text: string, at: number = this.lastOffset): this {
+    if (!text) return this;
+    this.parts.push(text);
+    for (let k = 0; k < text.length; k++) this.offsets.push(at);
+    return this;
+  }
+
+  build(): MappedText {
+    return new MappedText(this.parts.join(''), this.offsets, this.lastOffset);
+  }
+}
+
+export class MarkdownSourceMap {
+  private readonly offsets: number[];
+  private readonly sourceLength: number;
+  /** Source offset of each line start (line 1 = index 0) */
+  private readonly lineStarts: number[];
+  /** Plain-text start/end of each engine token */
+  private readonly tokenStarts: number[] = [];
+  private readonly tokenEnds: number[] = [];
+
+  constructor(source: string, parsed: MappedText) {
+    this.offsets = parsed.offsets;
+    this.sourceLength = source.length;
+
+    this.lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source.charCodeAt(i) === 10) this.lineStarts.push(i + 1);
+    }
+
+    const text = parsed.text;
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch !== '\n' && /\s/.test(ch)) {
+        i++;
+        continue;
+      }
+      const start = i;
+      if (ch === '\n') {
+        while (i < text.length && text[i] === '\n') i++;
+      } else {
+        while (i < text.length && !/\s/.test(text[i])) i++;
+      }
+      this.tokenStarts.push(start);
+      this.tokenEnds.push(i);
+    }
+  }
+
+  /**
+   * Number of engine tokens in the plain text
+   */
+  getTokenCount(): number {
+    return this.tokenStarts.length;
+  }
+
+  /**
+   * Source offset of a plain-text character
+   */
+  toSourceOffset(plainOffset: number): number {
+    if (this.offsets.length === 0) return 0;
+    const i = Math.max(0, Math.min(plainOffset, this.offsets.length - 1));
+    return this.offsets[i];
+  }
+
+  /**
+   * First plain-text character that comes from `sourceOffset` or later
+   */
+  toPlainOffset(sourceOffset: number): number {
+    for (let i = 0; i < this.offsets.length; i++) {
+      if (this.offsets[i] >= sourceOffset) return i;
+    }
+    return this.offsets.length;
+  }
+
+  /**
+   * 1-based line of a source offset
+   */
+  getSourceLine(sourceOffset: number): number {
+    const offset = Math.max(0, Math.min(sourceOffset, this.sourceLength));
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  }
+
+  /**
+   * Source offset where an engine token starts (its Markdown syntax excluded)
+   */
+  tokenToSourceOffset(tokenIndex: number): number {
+    if (this.tokenStarts.length === 0) return 0;
+    const t = Math.max(0, Math.min(tokenIndex, this.tokenStarts.length - 1));
+    return this.toSourceOffset(this.tokenStarts[t]);
+  }
+
+  /**
+   * 1-based source line of an engine token
+   */
+  tokenToSourceLine(tokenIndex: number): number {
+    return this.getSourceLine(this.tokenToSourceOffset(tokenIndex));
+  }
+
+  /**
+   * Engine token at a source offset: the word containing it, or the next one
+   */
+  sourceOffsetToToken(sourceOffset: number): number {
+    const plainOffset = this.toPlainOffset(sourceOffset);
+    let lo = 0;
+    let hi = this.tokenEnds.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.tokenEnds[mid] > plainOffset) hi = mid;
+      else lo = mid + 1;
+    }
+    return Math.min(lo, Math.max(0, this.tokenEnds.length - 1));
+  }
+}
@@ -0,0 +1,566 @@
+// src/markdown/blocks.ts
+// Block structure pass: splits a note into container blocks (blockquotes,
+// callouts, lists) and leaf blocks (headings, paragraphs, code, math, HTML,
+// tables), following CommonMark block rules plus GFM tables and Obsidian
+// syntax (callouts at any depth, %% comments %%, $$ math $$, ^block-ids).
+
+import { MappedText, MappedTextBuilder } from '../markdown-source-map';
+import type { MdBlock, MdDocument } from './types';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const MATH_OPEN = /^ {0,3}\$\$/;
+const COMMENT_OPEN = /^ {0,3}%%/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const CALLOUT_HEADER = /^ {0,3}\[!([\w-]+)\][+-]?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const TASK_CHECKBOX = /^\[.\](?:[ \t]+|$)/;
+const FOOTNOTE_DEF = /^ {0,3}\[\^[^\]]+\]:/;
+const LINK_DEF = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*(?:<[^>]*>|\S+)(?:[ \t]+(?:"[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+const BLOCK_ID_LINE = /^ {0,3}\^[A-Za-z0-9-]+[ \t]*$/;
+const TRAILING_BLOCK_ID = /[ \t]+\^[A-Za-z0-9-]+[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const HTML_BLOCK_TAGS =
+  'address|article|aside|audio|blockquote|body|center|details|dialog|dd|div|dl|dt|fieldset|figcaption|figure|' +
+  'footer|form|h[1-6]|header|hr|iframe|li|main|nav|ol|p|picture|pre|script|section|source|style|summary|' +
+  'table|tbody|td|textarea|tfoot|th|thead|tr|ul|video';
+const HTML_BLOCK = new RegExp(`^ {0,3}(?:<!--|</?(?:${HTML_BLOCK_TAGS})(?:[\\s/>]|$))`, 'i');
+const HTML_STANDALONE_TAG = /^ {0,3}(?:<[A-Za-z][\w-]*(?:\s[^<>]*)?\/?>|<\/[A-Za-z][\w-]*\s*>)[ \t]*$/;
+const FRONTMATTER_CLOSE = /^(?:---|\.\.\.)[ \t]*$/;
+/** Obsidian "Backlinks" sections appended to exported notes: ignored to the end */
+const BACKLINKS = /^(?:##?\s*Backlinks?|---\s*Backlinks?\s*---)/;
+
+/**
+ * Parses a note (or a fragment) into blocks
+ */
+export function parseMarkdown(markdown: string | MappedText): MdDocument {
+  const source = typeof markdown === 'string' ? new MappedText(markdown) : markdown;
+  let lines = splitLines(source);
+
+  // YAML frontmatter: only at the very start of the note
+  if (lines.length > 1 && /^---[ \t]*$/.test(lines[0].text)) {
+    const close = lines.findIndex((l, i) => i > 0 && FRONTMATTER_CLOSE.test(l.text));
+    if (close > 0) lines = lines.slice(close + 1);
+  }
+
+  const backlinks = lines.findIndex((l) => BACKLINKS.test(l.text));
+  if (backlinks >= 0) lines = lines.slice(0, backlinks);
+
+  const parser = new BlockParser();
+  const blocks = parser.parseBlocks(lines);
+  return { blocks, linkLabels: parser.linkLabels };
+}
+
+/**
+ * Normalized link reference label (case- and whitespace-insensitive)
+ */
+export function normalizeLinkLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function splitLines(text: MappedText): MappedText[] {
+  const lines: MappedText[] = [];
+  const s = text.text;
+  let start = 0;
+  for (let i = 0; i <= s.length; i++) {
+    if (i === s.length || s[i] === '\n') {
+      const end = i > start && s[i - 1] === '\r' ? i - 1 : i;
+      lines.push(text.slice(start, end));
+      start = i + 1;
+    }
+  }
+  return lines;
+}
+
+function isBlank(line: MappedText): boolean {
+  return /^[ \t]*$/.test(line.text);
+}
+
+/** Columns of leading whitespace (tabs stop every 4 columns) */
+function indentWidth(text: string): number {
+  let col = 0;
+  for (const ch of text) {
+    if (ch === ' ') col++;
+    else if (ch === '\t') col += 4 - (col % 4);
+    else break;
+  }
+  return col;
+}
+
+/** Removes up to `columns` columns of leading whitespace */
+function stripColumns(line: MappedText, columns: number): MappedText {
+  let col = 0;
+  let i = 0;
+  while (i < line.length && col < columns) {
+    const ch = line.text[i];
+    if (ch === ' ') col++;
+    else if (ch === '\t') col += 4 - (col % 4);
+    else break;
+    i++;
+  }
+  return line.slice(i);
+}
+
+function trimLine(line: MappedText): MappedText {
+  const lead = /^[ \t]*/.exec(line.text)?.[0].length ?? 0;
+  const end = line.text.replace(/[ \t]+$/, '').length;
+  return end > lead ? line.slice(lead, end) : line.slice(0, 0);
+}
+
+function startOf(line: MappedText): number {
+  return line.offsets.length > 0 ? line.offsets[0] : line.endOffset;
+}
+
+function joinLines(lines: MappedText[]): MappedText {
+  const out = new MappedTextBuilder(lines.length > 0 ? startOf(lines[0]) : 0);
+  lines.forEach((line, i) => {
+    if (i > 0) out.insert('\n');
+    out.append(line);
+  });
+  return out.build();
+}
+
+/**
+ * Splits a table row into cells (pipes inside code spans, wikilinks or
+ * escaped with a backslash do not split)
+ */
+function splitTableCells(line: MappedText): MappedText[] {
+  const row = trimLine(line);
+  const s = row.text;
+  const cells: MappedText[] = [];
+  let start = s.startsWith('|') ? 1 : 0;
+  let inCode = false;
+  let inWikilink = false;
+
+  for (let i = start; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '`') {
+      inCode = !inCode;
+    } else if (!inCode && s.startsWith('[[', i)) {
+      inWikilink = true;
+    } else if (!inCode && s.startsWith(']]', i)) {
+      inWikilink = false;
+    } else if (ch === '|' && !inCode && !inWikilink) {
+      cells.push(trimLine(row.slice(start, i)));
+      start = i + 1;
+    }
+  }
+  if (start < s.length) cells.push(trimLine(row.slice(start)));
+  return cells;
+}
+
+class BlockParser {
+  readonly linkLabels = new Set<string>();
+
+  parseBlocks(lines: MappedText[]): MdBlock[] {
+    const blocks: MdBlock[] = [];
+    let paragraph: MappedText[] = [];
+    const flushParagraph = () => {
+      if (paragraph.length > 0) blocks.push(this.makeParagraph(paragraph));
+      paragraph = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+      const text = line.text;
+      const inParagraph = paragraph.length > 0;
+
+      if (isBlank(line)) {
+        flushParagraph();
+        i++;
+        continue;
+      }
+
+      if (indentWidth(text) >= 4) {
+        // Continuation line, or an indented code block
+        if (inParagraph) {
+          paragraph.push(line);
+          i++;
+        } else {
+          i = this.parseIndentedCode(lines, i, blocks);
+        }
+        continue;
+      }
+
+      if (inParagraph && SETEXT_UNDERLINE.test(text)) {
+        blocks.push({
+          type: 'heading',
+          start: startOf(paragraph[0]),
+          level: text.trim()[0] === '=' ? 1 : 2,
+          content: this.makeParagraphContent(paragraph),
+        });
+        paragraph = [];
+        i++;
+        continue;
+      }
+
+      if (this.startsBlock(lines, i, inParagraph)) {
+        flushParagraph();
+        i = this.parseBlock(lines, i, blocks);
+        continue;
+      }
+
+      if (FOOTNOTE_DEF.test(text) || BLOCK_ID_LINE.test(text) || (!inParagraph && LINK_DEF.test(text))) {
+        flushParagraph();
+        i = this.skipDefinition(lines, i);
+        continue;
+      }
+
+      paragraph.push(line);
+      i++;
+    }
+
+    flushParagraph();
+    return blocks;
+  }
+
+  /**
+   * Whether line `i` opens a non-paragraph block
+   * Inside a paragraph only blocks that may interrupt it count (CommonMark).
+   */
+  private startsBlock(lines: MappedText[], i: number, inParagraph: boolean): boolean {
+    const text = lines[i].text;
+    if (ATX_HEADING.test(text) || THEMATIC_BREAK.test(text) || BLOCKQUOTE.test(text) || MATH_OPEN.test(text)) {
+      return true;
+    }
+    if (this.isFenceOpen(text) || this.isCommentBlockOpen(text) || HTML_BLOCK.test(text)) return true;
+
+    const item = LIST_ITEM.exec(text);
+    if (item) {
+      if (!inParagraph) return true;
+      // Only non-empty items (ordered ones starting at 1) interrupt a paragraph
+      const hasContent = text.length > item[0].length;
+      return hasContent && (/^[-*+]$/.test(item[2]) || parseInt(item[2]) === 1);
+    }
+
+    if (inParagraph) return false;
+    return HTML_STANDALONE_TAG.test(text) || this.isTableStart(lines, i);
+  }
+
+  /**
+   * Lines that end a lazy continuation (blockquote / list item)
+   */
+  private interruptsLazyLine(line: MappedText): boolean {
+    const text = line.text;
+    return ATX_HEADING.test(text) || THEMATIC_BREAK.test(text) || BLOCKQUOTE.test(text) ||
+      MATH_OPEN.test(text) || LIST_ITEM.test(text) || HTML_BLOCK.test(text) ||
+      this.isFenceOpen(text) || this.isCommentBlockOpen(text);
+  }
+
+  /**
+   * Lazy lines only continue an open paragraph (not a closed fence, a table…)
+   */
+  private endsInParagraph(lines: MappedText[]): boolean {
+    let block = this.parseBlocks(lines).pop();
+    while (block && block.type !== 'paragraph') {
+      if (block.type === 'blockquote' || block.type === 'callout') block = block.children[block.children.length - 1];
+      else if (block.type === 'list') block = block.items[block.items.length - 1]?.[block.items[block.items.length - 1].length - 1];
+      else return false;
+    }
+    return !!block;
+  }
+
+  private isFenceOpen(text: string): boolean {
+    const m = FENCE_OPEN.exec(text);
+    return !!m && !(m[2][0] === '`' && m[3].includes('`'));
+  }
+
+  /** `%%` opening a multi-line comment (a closing `%%` on the same line is inline) */
+  private isCommentBlockOpen(text: string): boolean {
+    return COMMENT_OPEN.test(text) && !text.trim().slice(2).includes('%%');
+  }
+
+  private isTableStart(lines: MappedText[], i: number): boolean {
+    const header = lines[i].text;
+    const delimiter = lines[i + 1]?.text;
+    if (!delimiter || !header.includes('|') || !delimiter.includes('|') || !TABLE_DELIMITER.test(delimiter)) {
+      return false;
+    }
+    return splitTableCells(lines[i]).length === splitTableCells(lines[i + 1]).length;
+  }
+
+  /**
+   * Parses the block opened at line `i` (startsBlock() was true)
+   *
+   * @returns Index of the first line after the block
+   */
+  private parseBlock(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const text = lines[i].text;
+
+    if (ATX_HEADING.test(text)) return this.parseAtxHeading(lines, i, blocks);
+    if (this.isFenceOpen(text)) return this.parseFencedCode(lines, i, blocks);
+    if (MATH_OPEN.test(text)) return this.parseMath(lines, i, blocks);
+    if (this.isCommentBlockOpen(text)) return this.skipComment(lines, i);
+    // Before lists: "* * *" and "- - -" are breaks, not items
+    if (THEMATIC_BREAK.test(text)) {
+      blocks.push({ type: 'thematicBreak', start: startOf(lines[i]) });
+      return i + 1;
+    }
+    if (BLOCKQUOTE.test(text)) return this.parseBlockquote(lines, i, blocks);
+    if (LIST_ITEM.test(text)) return this.parseList(lines, i, blocks);
+    if (HTML_BLOCK.test(text) || HTML_STANDALONE_TAG.test(text)) return this.parseHtml(lines, i, blocks);
+    return this.parseTable(lines, i, blocks);
+  }
+
+  private parseAtxHeading(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const line = lines[i];
+    const m = ATX_HEADING.exec(line.text);
+    if (!m) return i + 1;
+
+    let content = trimLine(line.slice(m[0].length));
+    // Optional closing sequence: "## Title ##"
+    const closing = /(?:^|[ \t]+)#+[ \t]*$/.exec(content.text);
+    if (closing) content = trimLine(content.slice(0, closing.index));
+    content = this.stripBlockId(content);
+
+    blocks.push({ type: 'heading', start: startOf(line), level: m[1].length, content });
+    return i + 1;
+  }
+
+  private parseFencedCode(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const m = FENCE_OPEN.exec(lines[i].text);
+    if (!m) return i + 1;
+
+    const indent = m[1].length;
+    const fence = m[2];
+    const closing = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`);
+    const body: MappedText[] = [];
+    let j = i + 1;
+    while (j < lines.length && !closing.test(lines[j].text)) {
+      body.push(stripColumns(lines[j], indent));
+      j++;
+    }
+
+    blocks.push({ type: 'code', start: startOf(lines[i]), info: m[3].trim(), content: joinLines(body) });
+    return Math.min(j + 1, lines.length);
+  }
+
+  private parseIndentedCode(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const body: MappedText[] = [];
+    let j = i;
+    while (j < lines.length && (isBlank(lines[j]) || indentWidth(lines[j].text) >= 4)) {
+      body.push(stripColumns(lines[j], 4));
+      j++;
+    }
+    while (body.length > 0 && isBlank(body[body.length - 1])) {
+      body.pop();
+      j--;
+    }
+
+    blocks.push({ type: 'code', start: startOf(lines[i]), info: '', content: joinLines(body) });
+    return j;
+  }
+
+  private parseMath(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const first = lines[i];
+    const open = first.text.indexOf('$$');
+    const rest = first.slice(open + 2);
+    const sameLineClose = rest.text.indexOf('$$');
+
+    if (sameLineClose >= 0) {
+      blocks.push({ type: 'math', start: startOf(first), content: trimLine(rest.slice(0, sameLineClose)) });
+      return i + 1;
+    }
+
+    const body: MappedText[] = [rest];
+    let j = i + 1;
+    while (j < lines.length) {
+      const close = lines[j].text.indexOf('$$');
+      if (close >= 0) {
+        body.push(lines[j].slice(0, close));
+        break;
+      }
+      body.push(lines[j]);
+      j++;
+    }
+
+    blocks.push({ type: 'math', start: startOf(first), content: trimLine(joinLines(body.map(trimLine))) });
+    return Math.min(j + 1, lines.length);
+  }
+
+  private skipComment(lines: MappedText[], i: number): number {
+    let j = i + 1;
+    while (j < lines.length && !lines[j].text.includes('%%')) j++;
+    return Math.min(j + 1, lines.length);
+  }
+
+  private parseBlockquote(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const quoted: MappedText[] = [];
+    let j = i;
+    let lastHadText = false;
+
+    while (j < lines.length) {
+      const line = lines[j];
+      if (BLOCKQUOTE.test(line.text)) {
+        const marker = line.text.indexOf('>');
+        const next = line.text[marker + 1];
+        const stripped = line.slice(marker + (next === ' ' || next === '\t' ? 2 : 1));
+        quoted.push(stripped);
+        lastHadText = !isBlank(stripped);
+        j++;
+      } else if (lastHadText && !isBlank(line) && !this.interruptsLazyLine(line) && this.endsInParagraph(quoted)) {
+        // Lazy continuation of a quoted paragraph
+        quoted.push(line);
+        j++;
+      } else {
+        break;
+      }
+    }
+
+    const start = startOf(lines[i]);
+    const header = quoted.length > 0 ? CALLOUT_HEADER.exec(quoted[0].text) : null;
+    if (header) {
+      const typeAt = quoted[0].text.indexOf('[!') + 2;
+      blocks.push({
+        type: 'callout',
+        start,
+        calloutType: quoted[0].slice(typeAt, typeAt + header[1].length),
+        title: trimLine(quoted[0].slice(header[0].length)),
+        children: this.parseBlocks(quoted.slice(1)),
+      });
+    } else {
+      blocks.push({ type: 'blockquote', start, children: this.parseBlocks(quoted) });
+    }
+    return j;
+  }
+
+  private parseList(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const first = LIST_ITEM.exec(lines[i].text);
+    if (!first) return i + 1;
+
+    const ordered = !/^[-*+]$/.test(first[2]);
+    const listChar = first[2][first[2].length - 1];
+    const sameList = (m: RegExpExecArray | null): m is RegExpExecArray =>
+      !!m && m[2][m[2].length - 1] === listChar && (ordered ? !/^[-*+]$/.test(m[2]) : /^[-*+]$/.test(m[2]));
+
+    const items: MdBlock[][] = [];
+    let j = i;
+
+    while (j < lines.length) {
+      const line = lines[j];
+      const m = LIST_ITEM.exec(line.text);
+      if (!sameList(m) || THEMATIC_BREAK.test(line.text)) break;
+
+      // Content column: marker + spacing (1 column when the item starts with indented code or is empty)
+      const markerEnd = m[1].length + m[2].length;
+      const spacing = indentWidth(m[3]);
+      const emptyItem = line.text.length === m[0].length;
+      const contentIndent = emptyItem || spacing >= 5 ? markerEnd + 1 : markerEnd + spacing;
+      let firstLine = emptyItem ? line.slice(line.length) : line.slice(spacing >= 5 ? markerEnd + 1 : m[0].length);
+
+      const checkbox = TASK_CHECKBOX.exec(firstLine.text);
+      if (checkbox) firstLine = firstLine.slice(checkbox[0].length);
+
+      const itemLines: MappedText[] = [firstLine];
+      let lastBlank = emptyItem;
+      j++;
+
+      while (j < lines.length) {
+        const next = lines[j];
+        if (isBlank(next)) {
+          itemLines.push(next);
+          lastBlank = true;
+          j++;
+        } else if (indentWidth(next.text) >= contentIndent) {
+          itemLines.push(stripColumns(next, contentIndent));
+          lastBlank = false;
+          j++;
+        } else if (!lastBlank && !this.interruptsLazyLine(next) && this.endsInParagraph(itemLines)) {
+          // Lazy continuation of the item's paragraph
+          itemLines.push(next);
+          j++;
+        } else {
+          break;
+        }
+      }
+
+      // Trailing blank lines separate items; they are not part of this one
+      while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.pop();
+        j--;
+      }
+      items.push(this.parseBlocks(itemLines));
+
+      // Next item of the same list (blank lines allowed in between)
+      let k = j;
+      while (k < lines.length && isBlank(lines[k])) k++;
+      if (k < lines.length && sameList(LIST_ITEM.exec(lines[k].text)) && !THEMATIC_BREAK.test(lines[k].text)) {
+        j = k;
+      } else {
+        break;
+      }
+    }
+
+    blocks.push({ type: 'list', start: startOf(lines[i]), ordered, items });
+    return j;
+  }
+
+  private parseHtml(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const isComment = /^ {0,3}<!--/.test(lines[i].text);
+    const body: MappedText[] = [];
+    let j = i;
+
+    while (j < lines.length) {
+      const line = lines[j];
+      if (!isComment && isBlank(line)) break;
+      body.push(line);
+      j++;
+      if (isComment && line.text.includes('-->')) break;
+    }
+
+    blocks.push({ type: 'html', start: startOf(lines[i]), content: joinLines(body) });
+    return j;
+  }
+
+  private parseTable(lines: MappedText[], i: number, blocks: MdBlock[]): number {
+    const rows: MappedText[][] = [splitTableCells(lines[i])];
+    let j = i + 2; // header + delimiter row
+
+    while (j < lines.length && !isBlank(lines[j]) && !this.interruptsLazyLine(lines[j])) {
+      if (!BLOCK_ID_LINE.test(lines[j].text)) rows.push(splitTableCells(lines[j]));
+      j++;
+    }
+
+    blocks.push({ type: 'table', start: startOf(lines[i]), rows });
+    return j;
+  }
+
+  /**
+   * Skips a link reference / footnote definition (with its indented
+   * continuation lines) or a standalone ^block-id line
+   */
+  private skipDefinition(lines: MappedText[], i: number): number {
+    const label = LINK_DEF.exec(lines[i].text);
+    if (label) {
+      this.linkLabels.add(normalizeLinkLabel(label[1]));
+      return i + 1;
+    }
+
+    let j = i + 1;
+    if (FOOTNOTE_DEF.test(lines[i].text)) {
+      while (j < lines.length && !isBlank(lines[j]) && indentWidth(lines[j].text) >= 4) j++;
+    }
+    return j;
+  }
+
+  private makeParagraph(lines: MappedText[]): MdBlock {
+    return { type: 'paragraph', start: startOf(lines[0]), content: this.makeParagraphContent(lines) };
+  }
+
+  /** Paragraph lines without indentation, trailing spaces or a final ^block-id */
+  private makeParagraphContent(lines: MappedText[]): MappedText {
+    const trimmed = lines.map(trimLine);
+    trimmed[trimmed.length - 1] = this.stripBlockId(trimmed[trimmed.length - 1]);
+    return joinLines(trimmed);
+  }
+
+  private stripBlockId(line: MappedText): MappedText {
+    const m = TRAILING_BLOCK_ID.exec(line.text);
+    return m ? line.slice(0, m.index) : line;
+  }
+}
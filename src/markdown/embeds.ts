@@ -0,0 +1,38 @@
+// src/markdown/embeds.ts
+// Finds the `![[…]]` embeds of a document whose text can be read in place
+// (paragraphs, list items, quotes and callouts; not headings or tables).
+
+import { parseInline } from './inline';
+import type { MdBlock, MdDocument, MdInline } from './types';
+
+/**
+ * Link targets of the document's embeds (`Note`, `Note#Heading`, `Note#^id`),
+ * in reading order, without duplicates
+ */
+export function collectEmbedTargets(doc: MdDocument): string[] {
+  const targets: string[] = [];
+  const visitInline = (node: MdInline) => {
+    if (node.type === 'wikilink') {
+      const target = node.target.text.trim();
+      if (node.embed && target && targets.indexOf(target) < 0) targets.push(target);
+    } else if ('children' in node) {
+      node.children.forEach(visitInline);
+    }
+  };
+  const visitBlock = (block: MdBlock) => {
+    switch (block.type) {
+      case 'paragraph':
+        parseInline(block.content, doc.linkLabels).forEach(visitInline);
+        break;
+      case 'blockquote':
+      case 'callout':
+        block.children.forEach(visitBlock);
+        break;
+      case 'list':
+        block.items.forEach((item) => item.forEach(visitBlock));
+        break;
+    }
+  };
+  doc.blocks.forEach(visitBlock);
+  return targets;
+}
@@ -0,0 +1,20 @@
+// src/markdown/index.ts
+// Public entrypoints for the Markdown parser (block pass → inline pass → plain text).
+
+export type {
+  BlockPlaceholder,
+  BlockPolicies,
+  BlockPolicy,
+  EmbedMap,
+  MdBlock,
+  MdDocument,
+  MdInline,
+  ResolvedEmbed,
+} from './types';
+
+export { parseMarkdown, normalizeLinkLabel } from './blocks';
+export { parseInline } from './inline';
+export { collectEmbedTargets } from './embeds';
+export { renderPlainText, renderHeadingText, describeBlockPlaceholder, BLOCK_MARKER_RE } from './render';
+export { omitSections } from './sections';
+export type { RenderedText } from './render';
@@ -0,0 +1,474 @@
+// src/markdown/inline.ts
+// Inline pass over the text of one leaf block: code spans, math, links,
+// wikilinks/embeds, images, HTML, entities, escapes, and emphasis resolved
+// with the CommonMark delimiter algorithm (*, _, plus ~~ and == runs).
+
+import { MappedText } from '../markdown-source-map';
+import { normalizeLinkLabel } from './blocks';
+import type { MdInline } from './types';
+
+type Delimiter = {
+  kind: 'delimiter';
+  char: string;
+  /** Delimiter characters not yet matched */
+  run: MappedText;
+  originalLength: number;
+  canOpen: boolean;
+  canClose: boolean;
+};
+
+type Item = { kind: 'node'; node: MdInline } | Delimiter;
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const PUNCTUATION = /[!-/:-@[-`{-~\u00a1-\u00bf\u2010-\u2027\u2030-\u205e\u3000-\u303f]/;
+const AUTOLINK = /^<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*|[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*)>/;
+const HTML_TAG = /^(?:<!--[\s\S]*?-->|<[A-Za-z][\w-]*(?:\s+[^<>]*)?\/?>|<\/[A-Za-z][\w-]*\s*>)/;
+const ENTITY = /^&(#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[A-Za-z][A-Za-z0-9]{1,31});/;
+const FOOTNOTE_REF = /^\[\^([^\]\s]+)\]/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', laquo: '«', raquo: '»',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™',
+};
+
+function isWhitespace(ch: string): boolean {
+  return !ch || /\s/.test(ch);
+}
+
+function isPunctuation(ch: string): boolean {
+  return !!ch && PUNCTUATION.test(ch);
+}
+
+/**
+ * Parses inline Markdown
+ *
+ * @param linkLabels - Labels of the note's link reference definitions
+ */
+export function parseInline(text: MappedText, linkLabels: Set<string> = new Set()): MdInline[] {
+  return new InlineParser(text, linkLabels).parse();
+}
+
+class InlineParser {
+  private readonly src: MappedText;
+  private readonly s: string;
+  private readonly linkLabels: Set<string>;
+  private items: Item[] = [];
+  private textStart = 0;
+
+  constructor(src: MappedText, linkLabels: Set<string>) {
+    this.src = src;
+    this.s = src.text;
+    this.linkLabels = linkLabels;
+  }
+
+  parse(): MdInline[] {
+    const s = this.s;
+    let pos = 0;
+
+    while (pos < s.length) {
+      // Constructs flush the pending text themselves; anything else stays in it
+      pos = this.parseAt(pos) ?? pos + 1;
+    }
+    this.flushText(s.length);
+
+    this.processEmphasis();
+    return this.items.map((item) => this.toNode(item));
+  }
+
+  /**
+   * Tries a construct at `pos`
+   *
+   * @returns Position after the construct, or null if `pos` is plain text
+   */
+  private parseAt(pos: number): number | null {
+    switch (this.s[pos]) {
+      case '\\': return this.parseEscape(pos);
+      case '`': return this.parseCodeSpan(pos);
+      case '$': return this.parseMath(pos);
+      case '%': return this.parseComment(pos);
+      case '!': return this.parseBang(pos);
+      case '[': return this.parseBracket(pos);
+      case '^': return this.parseInlineFootnote(pos);
+      case '<': return this.parseAngle(pos);
+      case '&': return this.parseEntity(pos);
+      case '*':
+      case '_':
+      case '~':
+      case '=':
+        return this.parseDelimiterRun(pos);
+      default: return null;
+    }
+  }
+
+  private flushText(end: number): void {
+    if (end > this.textStart) {
+      this.items.push({ kind: 'node', node: { type: 'text', value: this.src.slice(this.textStart, end) } });
+    }
+    this.textStart = end;
+  }
+
+  /**
+   * Ends the pending text at `start` and adds a node for [start, end)
+   * (null drops the range)
+   *
+   * @returns `end`
+   */
+  private emit(start: number, end: number, node: MdInline | null): number {
+    this.flushText(start);
+    if (node) this.items.push({ kind: 'node', node });
+    this.textStart = end;
+    return end;
+  }
+
+  private parseEscape(pos: number): number | null {
+    const next = this.s[pos + 1];
+    if (next === '\n') return this.emit(pos, pos + 2, { type: 'break' });
+    if (!next || !ASCII_PUNCTUATION.test(next)) return null;
+    return this.emit(pos, pos + 2, { type: 'text', value: this.src.slice(pos + 1, pos + 2) });
+  }
+
+  private runLength(pos: number, ch: string): number {
+    let end = pos;
+    while (this.s[end] === ch) end++;
+    return end - pos;
+  }
+
+  private parseCodeSpan(pos: number): number | null {
+    const n = this.runLength(pos, '`');
+    let search = pos + n;
+
+    while (search < this.s.length) {
+      const close = this.s.indexOf('`', search);
+      if (close < 0) break;
+      const closeLength = this.runLength(close, '`');
+      if (closeLength === n) {
+        let value = this.src.slice(pos + n, close).replace(/\n/g, () => ' ');
+        if (/^ [\s\S]*[^ ][\s\S]* $/.test(value.text)) value = value.slice(1, value.length - 1);
+        return this.emit(pos, close + n, { type: 'code', value });
+      }
+      search = close + closeLength;
+    }
+
+    // No closing run: the backticks are literal
+    return pos + n;
+  }
+
+  private parseMath(pos: number): number | null {
+    const s = this.s;
+    if (s[pos + 1] === '$') {
+      const close = s.indexOf('$$', pos + 2);
+      if (close < 0) return null;
+      return this.emit(pos, close + 2, { type: 'math', value: this.trimmed(pos + 2, close) });
+    }
+
+    // $x$: no space after the opener or before the closer, no digit after it
+    if (isWhitespace(s[pos + 1]) || s[pos + 1] === '$') return null;
+    let close = s.indexOf('$', pos + 1);
+    while (close >= 0) {
+      if (s[close - 1] !== '\\' && !isWhitespace(s[close - 1]) && !/[0-9]/.test(s[close + 1] ?? '')) {
+        return this.emit(pos, close + 1, { type: 'math', value: this.src.slice(pos + 1, close) });
+      }
+      close = s.indexOf('$', close + 1);
+    }
+    return null;
+  }
+
+  private trimmed(start: number, end: number): MappedText {
+    const slice = this.src.slice(start, end);
+    const lead = /^\s*/.exec(slice.text)?.[0].length ?? 0;
+    const trail = slice.text.length - slice.text.replace(/\s+$/, '').length;
+    return slice.slice(lead, Math.max(lead, slice.length - trail));
+  }
+
+  /** %% Obsidian comment %% */
+  private parseComment(pos: number): number | null {
+    if (this.s[pos + 1] !== '%') return null;
+    const close = this.s.indexOf('%%', pos + 2);
+    if (close < 0) return null;
+    return this.emit(pos, close + 2, null);
+  }
+
+  private parseBang(pos: number): number | null {
+    if (this.s.startsWith('![[', pos)) return this.parseWikilink(pos + 1, true, pos);
+    if (this.s[pos + 1] !== '[') return null;
+    return this.parseLink(pos + 1, true, pos);
+  }
+
+  private parseBracket(pos: number): number | null {
+    if (this.s.startsWith('[[', pos)) return this.parseWikilink(pos, false, pos);
+
+    const footnote = FOOTNOTE_REF.exec(this.s.slice(pos, pos + 200));
+    if (footnote) {
+      return this.emit(pos, pos + footnote[0].length, { type: 'footnoteRef', label: footnote[1] });
+    }
+    return this.parseLink(pos, false, pos);
+  }
+
+  /** ^[inline footnote] */
+  private parseInlineFootnote(pos: number): number | null {
+    if (this.s[pos + 1] !== '[') return null;
+    const close = this.findClosingBracket(pos + 1);
+    if (close < 0) return null;
+    return this.emit(pos, close + 1, { type: 'footnoteRef', label: '' });
+  }
+
+  private parseWikilink(open: number, embed: boolean, start: number): number | null {
+    const close = this.s.indexOf(']]', open + 2);
+    if (close < 0 || this.s.slice(open + 2, close).includes('\n')) return null;
+
+    const inner = this.src.slice(open + 2, close);
+    // In tables the alias pipe is escaped: [[note\|alias]]
+    const pipe = inner.text.search(/\\?\|/);
+    const target = pipe >= 0 ? inner.slice(0, pipe) : inner;
+    const alias = pipe >= 0 ? inner.slice(inner.text.indexOf('|', pipe) + 1) : null;
+
+    return this.emit(start, close + 2, { type: 'wikilink', target, alias, embed });
+  }
+
+  /**
+   * Index of the `]` closing the `[` at `open` (nested brackets, code spans
+   * and escapes skipped), or -1
+   */
+  private findClosingBracket(open: number): number {
+    const s = this.s;
+    let depth = 0;
+    for (let i = open; i < s.length; i++) {
+      const ch = s[i];
+      if (ch === '\\') {
+        i++;
+      } else if (ch === '`') {
+        const n = this.runLength(i, '`');
+        const close = s.indexOf('`'.repeat(n), i + n);
+        if (close >= 0) i = close + n - 1;
+        else i += n - 1;
+      } else if (ch === '[') {
+        depth++;
+      } else if (ch === ']') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * [text](destination "title"), [text][label], [text][] and [label]
+   * Images (![alt](src)) are parsed the same way.
+   */
+  private parseLink(open: number, image: boolean, start: number): number | null {
+    const close = this.findClosingBracket(open);
+    if (close < 0) return null;
+
+    const s = this.s;
+    const label = this.src.slice(open + 1, close);
+    let end = -1;
+    let destination = '';
+
+    if (s[close + 1] === '(') {
+      const inline = this.parseDestination(close + 2) ?? this.parseLooseDestination(close + 2);
+      if (inline) {
+        end = inline.end;
+        destination = inline.destination;
+      }
+    }
+    if (end < 0 && s[close + 1] === '[') {
+      const refClose = s.indexOf(']', close + 2);
+      if (refClose >= 0) {
+        const ref = s.slice(close + 2, refClose);
+        if (this.linkLabels.has(normalizeLinkLabel(ref || label.text))) end = refClose + 1;
+      }
+    }
+    if (end < 0 && this.linkLabels.has(normalizeLinkLabel(label.text))) {
+      end = close + 1;
+    }
+    if (end < 0) return null;
+
+    return this.emit(start, end, image
+      ? { type: 'image', alt: label, destination }
+      : { type: 'link', children: parseInline(label, this.linkLabels), destination });
+  }
+
+  /**
+   * Parses `destination "title")` starting right after `(`
+   */
+  private parseDestination(pos: number): { destination: string; end: number } | null {
+    const s = this.s;
+    let i = pos;
+    while (s[i] === ' ' || s[i] === '\t' || s[i] === '\n') i++;
+
+    let destination = '';
+    if (s[i] === '<') {
+      const close = s.indexOf('>', i + 1);
+      if (close < 0 || s.slice(i + 1, close).includes('\n')) return null;
+      destination = s.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      const from = i;
+      let depth = 0;
+      while (i < s.length && !/\s/.test(s[i])) {
+        if (s[i] === '\\') i++;
+        else if (s[i] === '(') depth++;
+        else if (s[i] === ')') {
+          if (depth === 0) break;
+          depth--;
+        }
+        i++;
+      }
+      destination = s.slice(from, i);
+    }
+
+    while (s[i] === ' ' || s[i] === '\t' || s[i] === '\n') i++;
+    const quote = s[i];
+    if (quote === '"' || quote === "'" || quote === '(') {
+      const closeQuote = s.indexOf(quote === '(' ? ')' : quote, i + 1);
+      if (closeQuote < 0) return null;
+      i = closeQuote + 1;
+      while (s[i] === ' ' || s[i] === '\t' || s[i] === '\n') i++;
+    }
+
+    return s[i] === ')' ? { destination, end: i + 1 } : null;
+  }
+
+  /**
+   * Obsidian also accepts unencoded spaces: `![alt](My image.png)`
+   * Everything up to the balancing `)` on the same line is the destination.
+   */
+  private parseLooseDestination(pos: number): { destination: string; end: number } | null {
+    const s = this.s;
+    let depth = 0;
+    for (let i = pos; i < s.length && s[i] !== '\n'; i++) {
+      if (s[i] === '(') depth++;
+      else if (s[i] === ')') {
+        if (depth === 0) return { destination: s.slice(pos, i).trim(), end: i + 1 };
+        depth--;
+      }
+    }
+    return null;
+  }
+
+  /** Autolinks keep their address; HTML tags and comments are dropped */
+  private parseAngle(pos: number): number | null {
+    const rest = this.s.slice(pos, pos + 2000);
+    const autolink = AUTOLINK.exec(rest);
+    if (autolink) {
+      return this.emit(pos, pos + autolink[0].length, { type: 'text', value: this.src.slice(pos + 1, pos + 1 + autolink[1].length) });
+    }
+
+    const tag = HTML_TAG.exec(rest);
+    if (!tag) return null;
+    return this.emit(pos, pos + tag[0].length, { type: 'html', value: this.src.slice(pos, pos + tag[0].length) });
+  }
+
+  private parseEntity(pos: number): number | null {
+    const m = ENTITY.exec(this.s.slice(pos, pos + 40));
+    if (!m) return null;
+
+    let decoded: string | undefined;
+    if (m[1][0] === '#') {
+      const code = m[1][1] === 'x' || m[1][1] === 'X' ? parseInt(m[1].slice(2), 16) : parseInt(m[1].slice(1), 10);
+      decoded = code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+    } else {
+      decoded = NAMED_ENTITIES[m[1]];
+    }
+    if (decoded === undefined) return null;
+
+    const at = this.src.offsets[pos];
+    const value = new MappedText(decoded, Array.from({ length: decoded.length }, () => at), at);
+    return this.emit(pos, pos + m[0].length, { type: 'text', value });
+  }
+
+  private parseDelimiterRun(pos: number): number | null {
+    const s = this.s;
+    const char = s[pos];
+    const length = this.runLength(pos, char);
+    // Strikethrough and highlight need exactly two characters
+    if ((char === '~' || char === '=') && length !== 2) return pos + length;
+
+    const before = pos > 0 ? s[pos - 1] : '';
+    const after = s[pos + length] ?? '';
+    const leftFlanking = !isWhitespace(after) &&
+      (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+    const rightFlanking = !isWhitespace(before) &&
+      (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+    let canOpen = leftFlanking;
+    let canClose = rightFlanking;
+    if (char === '_') {
+      canOpen = leftFlanking && (!rightFlanking || isPunctuation(before));
+      canClose = rightFlanking && (!leftFlanking || isPunctuation(after));
+    }
+
+    this.flushText(pos);
+    this.items.push({
+      kind: 'delimiter',
+      char,
+      run: this.src.slice(pos, pos + length),
+      originalLength: length,
+      canOpen,
+      canClose,
+    });
+    this.textStart = pos + length;
+    return pos + length;
+  }
+
+  /**
+   * CommonMark "process emphasis": pairs closers with the nearest matching
+   * opener and wraps everything in between
+   */
+  private processEmphasis(): void {
+    const items = this.items;
+    let c = 0;
+
+    while (c < items.length) {
+      const closer = items[c];
+      if (closer.kind !== 'delimiter' || !closer.canClose || closer.run.length === 0) {
+        c++;
+        continue;
+      }
+
+      let o = c - 1;
+      for (; o >= 0; o--) {
+        const opener = items[o];
+        if (opener.kind !== 'delimiter' || opener.char !== closer.char || !opener.canOpen || opener.run.length === 0) {
+          continue;
+        }
+        // "Rule of 3" for runs that can both open and close
+        const both = opener.canClose || closer.canOpen;
+        const sum = opener.originalLength + closer.originalLength;
+        if ((closer.char === '*' || closer.char === '_') && both && sum % 3 === 0 &&
+          !(opener.originalLength % 3 === 0 && closer.originalLength % 3 === 0)) {
+          continue;
+        }
+        break;
+      }
+
+      if (o < 0) {
+        c++;
+        continue;
+      }
+
+      const opener = items[o] as Delimiter;
+      const use = opener.run.length >= 2 && closer.run.length >= 2 ? 2 : 1;
+      const type = closer.char === '~' ? 'strikethrough'
+        : closer.char === '=' ? 'highlight'
+          : use === 2 ? 'strong' : 'emphasis';
+
+      const children = items.slice(o + 1, c).map((item) => this.toNode(item));
+      opener.run = opener.run.slice(0, opener.run.length - use);
+      closer.run = closer.run.slice(use);
+
+      items.splice(o + 1, c - o - 1, { kind: 'node', node: { type, children } });
+      c = o + 2;
+      if (opener.run.length === 0) {
+        items.splice(o, 1);
+        c--;
+      }
+      if (closer.run.length === 0) items.splice(c, 1);
+    }
+  }
+
+  private toNode(item: Item): MdInline {
+    return item.kind === 'node' ? item.node : { type: 'text', value: item.run };
+  }
+}
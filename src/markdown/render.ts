@@ -0,0 +1,246 @@
+// src/markdown/render.ts
+// Renders the document model to the plain text read by the RSVP engine:
+// syntax removed, headings as [H1]…[H6] and callouts as [CALLOUT:type]
+// markers glued to their first word, one line per paragraph line / list
+// item / table row, blank lines between blocks. Code blocks, tables and
+// math blocks follow their BlockPolicy; anything not read becomes a
+// standalone [BLOCK:kind:id] token pointing into `placeholders`.
+// Resolved embeds are read in place as [CALLOUT:embed] sections.
+
+import { MappedText, MappedTextBuilder } from '../markdown-source-map';
+import { parseInline } from './inline';
+import type { BlockPlaceholder, BlockPolicies, EmbedMap, MdBlock, MdDocument, MdInline, ResolvedEmbed } from './types';
+
+export interface RenderedText {
+  text: MappedText;
+  placeholders: BlockPlaceholder[];
+}
+
+/** Matches block placeholder tokens; group 1 is the kind, group 2 the placeholder id */
+export const BLOCK_MARKER_RE = /\[BLOCK:(code|table|math):(\d+)\]/g;
+
+const READ_ALL: BlockPolicies = { code: 'read', table: 'read', math: 'read' };
+
+interface RenderContext {
+  doc: MdDocument;
+  policies: BlockPolicies;
+  placeholders: BlockPlaceholder[];
+  embeds: EmbedMap | null;
+}
+
+export function renderPlainText(
+  doc: MdDocument,
+  policies: BlockPolicies = READ_ALL,
+  embeds: EmbedMap | null = null
+): RenderedText {
+  const ctx: RenderContext = { doc, policies, placeholders: [], embeds };
+  const text = renderBlocks(doc.blocks, ctx, '\n\n');
+
+  // No indentation, no trailing spaces, at most one blank line, trimmed
+  return {
+    text: text
+      .replace(/^[ \t]+/gm, () => '')
+      .replace(/[ \t]+$/gm, () => '')
+      .replace(/\n{3,}/g, (_m, slice) => slice(0, 2))
+      .replace(/^\s+|\s+$/g, () => ''),
+    placeholders: ctx.placeholders,
+  };
+}
+
+/**
+ * Plain text of a heading (no marker), as it is read
+ */
+export function renderHeadingText(block: Extract<MdBlock, { type: 'heading' }>, doc: MdDocument): string {
+  return trim(renderInline(parseInline(block.content, doc.linkLabels))).text;
+}
+
+/**
+ * Text shown in place of a block: "[code block: 12 lines]", "[table: 4 rows]"…
+ */
+export function describeBlockPlaceholder(block: BlockPlaceholder): string {
+  const name = block.kind === 'code' ? 'code block' : block.kind === 'math' ? 'math block' : 'table';
+  if (block.policy === 'skip') return `[skipped ${name}]`;
+
+  const unit = block.kind === 'table' ? 'row' : 'line';
+  return `[${name}: ${block.lines} ${unit}${block.lines === 1 ? '' : 's'}]`;
+}
+
+function renderBlocks(blocks: MdBlock[], ctx: RenderContext, separator: string): MappedText {
+  const out = new MappedTextBuilder(blocks.length > 0 ? blocks[0].start : 0);
+  for (const block of blocks) {
+    const rendered = renderBlock(block, ctx);
+    if (!rendered.text.trim()) continue;
+    if (out.length > 0) out.insert(separator);
+    out.append(rendered);
+  }
+  return out.build();
+}
+
+function renderBlock(block: MdBlock, ctx: RenderContext): MappedText {
+  const { doc } = ctx;
+  const out = new MappedTextBuilder(block.start);
+
+  switch (block.type) {
+    case 'heading': {
+      const content = trim(renderInline(parseInline(block.content, doc.linkLabels)));
+      if (content.length > 0) out.insert(`[H${block.level}]`, block.start).append(content);
+      break;
+    }
+
+    case 'paragraph':
+      out.append(renderInline(parseInline(block.content, doc.linkLabels), ctx));
+      break;
+
+    case 'code':
+    case 'math': {
+      const policy = ctx.policies[block.type];
+      if (policy === 'read') {
+        out.append(block.content);
+        break;
+      }
+      const content = block.content.text.replace(/^\n+|\n+$/g, '');
+      const placeholder: BlockPlaceholder = {
+        kind: block.type,
+        policy,
+        lines: content ? content.split('\n').length : 0,
+        content,
+      };
+      if (block.type === 'code' && block.info) placeholder.language = block.info;
+      out.insert(addPlaceholder(ctx, placeholder), block.start);
+      break;
+    }
+
+    case 'html':
+      out.append(block.content.replace(/<!--[\s\S]*?-->|<[^>]+>/g, () => ''));
+      break;
+
+    case 'table': {
+      const rows = block.rows.map((row) => row.map((cell) => trim(renderInline(parseInline(cell, doc.linkLabels)))));
+      const policy = ctx.policies.table;
+      if (policy !== 'read') {
+        const cells = rows.map((row) => row.map((cell) => cell.text));
+        out.insert(addPlaceholder(ctx, {
+          kind: 'table',
+          policy,
+          lines: cells.length,
+          content: cells.map((row) => row.join(' ')).join('\n'),
+          rows: cells,
+        }), block.start);
+        break;
+      }
+      rows.forEach((row, i) => {
+        if (i > 0) out.insert('\n');
+        row.forEach((cell, j) => {
+          if (j > 0) out.insert(' ');
+          out.append(cell);
+        });
+      });
+      break;
+    }
+
+    case 'blockquote':
+      out.append(renderBlocks(block.children, ctx, '\n\n'));
+      break;
+
+    case 'callout': {
+      // Untitled callouts use their type as title
+      const title = trim(renderInline(parseInline(block.title, doc.linkLabels)));
+      out.insert(`[CALLOUT:${block.calloutType.text}]`, block.start);
+      out.append(title.length > 0 ? title : block.calloutType);
+
+      const body = renderBlocks(block.children, ctx, '\n\n');
+      if (body.length > 0) out.insert('\n').append(body);
+      break;
+    }
+
+    case 'list':
+      for (const item of block.items) {
+        const rendered = renderBlocks(item, ctx, '\n');
+        if (!rendered.text.trim()) continue;
+        if (out.length > 0) out.insert('\n');
+        out.append(rendered);
+      }
+      break;
+
+    case 'thematicBreak':
+      break;
+  }
+
+  return out.build();
+}
+
+/** Stores the placeholder and returns its marker token */
+function addPlaceholder(ctx: RenderContext, placeholder: BlockPlaceholder): string {
+  ctx.placeholders.push(placeholder);
+  return `[BLOCK:${placeholder.kind}:${ctx.placeholders.length - 1}]`;
+}
+
+/**
+ * Text of an embedded note: a [CALLOUT:embed] title line and its blocks,
+ * set apart from the surrounding paragraph by blank lines
+ */
+function renderEmbed(embed: ResolvedEmbed, ctx: RenderContext): string {
+  const body = renderBlocks(embed.doc.blocks, { ...ctx, doc: embed.doc, embeds: embed.embeds }, '\n\n');
+  const title = embed.title.replace(/\s+/g, ' ').trim() || 'embed';
+  return `\n\n[CALLOUT:embed]${title}${body.length > 0 ? `\n${body.text}` : ''}\n\n`;
+}
+
+/**
+ * @param ctx - Context of a paragraph; resolved embeds are only read there
+ */
+function renderInline(nodes: MdInline[], ctx?: RenderContext): MappedText {
+  const out = new MappedTextBuilder();
+  const visit = (node: MdInline) => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+      case 'math':
+        out.append(node.value);
+        break;
+      case 'emphasis':
+      case 'strong':
+      case 'strikethrough':
+      case 'highlight':
+      case 'link':
+        node.children.forEach(visit);
+        break;
+      case 'wikilink': {
+        if (!node.embed) {
+          out.append(node.alias ?? wikilinkText(node.target));
+          break;
+        }
+        // Unresolved embeds are not part of the note's own text; resolved
+        // ones are read in place, mapped to the embed in this note
+        const embed = ctx?.embeds?.get(node.target.text.trim());
+        if (ctx && embed) out.insert(renderEmbed(embed, ctx), node.target.offsets[0] ?? node.target.endOffset);
+        break;
+      }
+      case 'break':
+        out.insert('\n');
+        break;
+      case 'html':
+        if (/^<br\s*\/?>$/i.test(node.value.text)) out.insert('\n');
+        break;
+      case 'image':
+      case 'footnoteRef':
+        break;
+    }
+  };
+  nodes.forEach(visit);
+  return out.build();
+}
+
+/**
+ * Text of a wikilink without alias: `Note#Heading` → "Note Heading",
+ * `#Heading` → "Heading"; block ids (`#^abc123`) are not read
+ */
+function wikilinkText(target: MappedText): MappedText {
+  return target
+    .replace(/#\^[^#]*$/, () => '')
+    .replace(/^#+/, () => '')
+    .replace(/#+/g, () => ' ');
+}
+
+function trim(text: MappedText): MappedText {
+  return text.replace(/^\s+|\s+$/g, () => '');
+}
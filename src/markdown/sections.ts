@@ -0,0 +1,32 @@
+// src/markdown/sections.ts
+// Heading sections of a document: a heading plus every block up to the next
+// heading of the same or a higher level. Used to leave sections out of the
+// text handed to the reader.
+
+import { renderHeadingText } from './render';
+import type { MdDocument } from './types';
+
+/**
+ * The document without the sections whose heading matches one of `titles`
+ * (case and spacing ignored); subsections go with their section
+ */
+export function omitSections(doc: MdDocument, titles: string[]): MdDocument {
+  const wanted = new Set(titles.map(normalizeTitle).filter((t) => t.length > 0));
+  if (wanted.size === 0) return doc;
+
+  // Level of the heading being skipped (0 = not skipping)
+  let skipLevel = 0;
+  const blocks = doc.blocks.filter((block) => {
+    if (block.type === 'heading') {
+      if (skipLevel > 0 && block.level > skipLevel) return false;
+      skipLevel = wanted.has(normalizeTitle(renderHeadingText(block, doc))) ? block.level : 0;
+    }
+    return skipLevel === 0;
+  });
+
+  return { ...doc, blocks };
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim().toLowerCase();
+}
@@ -0,0 +1,75 @@
+// src/markdown/types.ts
+// Markdown document model (CommonMark + GFM tables + Obsidian syntax).
+// Every text node is a MappedText, so rendered plain text keeps its offsets
+// into the original note (see markdown-source-map.ts).
+
+import type { MappedText } from '../markdown-source-map';
+
+export type MdBlock =
+  | { type: 'heading'; start: number; level: number; content: MappedText }
+  | { type: 'paragraph'; start: number; content: MappedText }
+  | { type: 'code'; start: number; info: string; content: MappedText }
+  | { type: 'math'; start: number; content: MappedText }
+  | { type: 'html'; start: number; content: MappedText }
+  | { type: 'table'; start: number; rows: MappedText[][] }
+  | { type: 'blockquote'; start: number; children: MdBlock[] }
+  | { type: 'callout'; start: number; calloutType: MappedText; title: MappedText; children: MdBlock[] }
+  | { type: 'list'; start: number; ordered: boolean; items: MdBlock[][] }
+  | { type: 'thematicBreak'; start: number };
+
+export type MdInline =
+  | { type: 'text'; value: MappedText }
+  | { type: 'emphasis' | 'strong' | 'strikethrough' | 'highlight'; children: MdInline[] }
+  | { type: 'code'; value: MappedText }
+  | { type: 'math'; value: MappedText }
+  | { type: 'link'; children: MdInline[]; destination: string }
+  | { type: 'wikilink'; target: MappedText; alias: MappedText | null; embed: boolean }
+  | { type: 'image'; alt: MappedText; destination: string }
+  | { type: 'html'; value: MappedText }
+  | { type: 'footnoteRef'; label: string }
+  | { type: 'break' };
+
+/**
+ * How a code block, table or math block reaches the reader:
+ * read it, skip it, read a one-token placeholder, or pause on the
+ * placeholder and show the whole block in a panel.
+ */
+export type BlockPolicy = 'read' | 'skip' | 'placeholder' | 'panel';
+
+export interface BlockPolicies {
+  code: BlockPolicy;
+  table: BlockPolicy;
+  math: BlockPolicy;
+}
+
+/** A block left out of the plain text; rendered as a `[BLOCK:kind:id]` token */
+export interface BlockPlaceholder {
+  kind: keyof BlockPolicies;
+  policy: BlockPolicy;
+  /** Lines of code/math, rows of a table */
+  lines: number;
+  /** Code/math content (cells joined per row for tables) */
+  content: string;
+  /** Table cells as plain text */
+  rows?: string[][];
+  /** Fenced code info string (language) */
+  language?: string;
+}
+
+/** An embedded note (or note section) to read in place of its `![[embed]]` */
+export interface ResolvedEmbed {
+  /** Shown as the callout-style title of the embedded text */
+  title: string;
+  doc: MdDocument;
+  /** Embeds inside the embedded text */
+  embeds: EmbedMap;
+}
+
+/** Resolved embeds keyed by their link target (`Note#Heading`) */
+export type EmbedMap = Map<string, ResolvedEmbed>;
+
+export interface MdDocument {
+  blocks: MdBlock[];
+  /** Normalized labels of link reference definitions (`[label]: url`) */
+  linkLabels: Set<string>;
+}
@@ -0,0 +1,52 @@
+/**
+ * PacingProfileImportModal - Paste shared pacing profiles
+ *
+ * Responsibilities:
+ * - Text area for the JSON exported with "copy as JSON"
+ * - Hand the text to the import callback; keep the modal open on errors
+ *
+ * Parsing and merging are done by PacingProfileManager.importProfiles.
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+
+export class PacingProfileImportModal extends Modal {
+  /** Imports the text; returns the number of profiles, throws on invalid input */
+  private onImport: (json: string) => number;
+
+  constructor(app: App, onImport: (json: string) => number) {
+    super(app);
+    this.onImport = onImport;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('dashreader-profile-import-modal');
+    this.setTitle('Import pacing profiles');
+
+    const { contentEl } = this;
+    contentEl.createEl('p', {
+      text: 'Paste profiles exported from the plugin settings. Profiles with the name of an existing one replace it.',
+    });
+
+    const input = contentEl.createEl('textarea', { cls: 'dashreader-profile-import-input' });
+    input.rows = 12;
+
+    const actions = contentEl.createDiv({ cls: 'dashreader-profile-import-actions' });
+    const importBtn = actions.createEl('button', { text: 'Import', cls: 'mod-cta' });
+    importBtn.addEventListener('click', () => {
+      try {
+        const count = this.onImport(input.value);
+        new Notice(`Imported ${count} pacing profile${count === 1 ? '' : 's'}`);
+        this.close();
+      } catch (err) {
+        console.error('[DashReader] Pacing profile import failed', err);
+        const msg = err instanceof Error ? err.message : String(err);
+        new Notice(`Could not import pacing profiles: ${msg}`);
+      }
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
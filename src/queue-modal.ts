@@ -0,0 +1,113 @@
+/**
+ * ReadingQueueModal - Shows and reorders the reading queue
+ *
+ * Responsibilities:
+ * - List queued files, next first
+ * - Move items up/down, remove them, clear the queue
+ * - Start reading the queue from the first item
+ *
+ * Changes are saved through the onChange callback (plugin settings save).
+ * QueueFolderSuggestModal picks a folder for the "add folder" command.
+ */
+
+import { App, FuzzySuggestModal, Modal, setIcon, TFile, TFolder } from 'obsidian';
+import { ReadingQueue } from './services/reading-queue';
+
+export class ReadingQueueModal extends Modal {
+  private queue: ReadingQueue;
+  private onChange: () => void;
+  private onStart: () => void;
+
+  constructor(app: App, queue: ReadingQueue, onChange: () => void, onStart: () => void) {
+    super(app);
+    this.queue = queue;
+    this.onChange = onChange;
+    this.onStart = onStart;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('dashreader-queue-modal');
+    this.setTitle('Reading queue');
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const items = this.queue.getItems();
+    if (items.length === 0) {
+      contentEl.createDiv({
+        cls: 'dashreader-queue-empty',
+        text: 'The queue is empty. Add files from the file menu or with the "add to reading queue" commands.',
+      });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: 'dashreader-queue-list' });
+    items.forEach((path, index) => {
+      const row = list.createDiv({ cls: 'dashreader-queue-item' });
+      row.createSpan({ cls: 'dashreader-queue-position', text: `${index + 1}.` });
+
+      const file = this.app.vault.getAbstractFileByPath(path);
+      const name = row.createDiv({ cls: 'dashreader-queue-name' });
+      name.createDiv({ text: file instanceof TFile ? file.basename : path });
+      name.createDiv({ cls: 'dashreader-queue-path', text: file instanceof TFile ? path : 'Missing file' });
+
+      this.addIconButton(row, 'arrow-up', 'Move up', index === 0, () => this.queue.move(index, -1));
+      this.addIconButton(row, 'arrow-down', 'Move down', index === items.length - 1, () => this.queue.move(index, 1));
+      this.addIconButton(row, 'x', 'Remove from queue', false, () => this.queue.remove(path));
+    });
+
+    const actions = contentEl.createDiv({ cls: 'dashreader-queue-actions' });
+    const clearBtn = actions.createEl('button', { text: 'Clear queue' });
+    clearBtn.addEventListener('click', () => {
+      this.queue.clear();
+      this.onChange();
+      this.render();
+    });
+
+    const startBtn = actions.createEl('button', { text: 'Start reading', cls: 'mod-cta' });
+    startBtn.addEventListener('click', () => {
+      this.close();
+      this.onStart();
+    });
+  }
+
+  private addIconButton(parent: HTMLElement, icon: string, label: string, disabled: boolean, action: () => void): void {
+    const btn = parent.createEl('button', { cls: 'clickable-icon dashreader-queue-btn', attr: { 'aria-label': label } });
+    setIcon(btn, icon);
+    btn.disabled = disabled;
+    btn.addEventListener('click', () => {
+      action();
+      this.onChange();
+      this.render();
+    });
+  }
+}
+
+export class QueueFolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  private onChoose: (folder: TFolder) => void;
+
+  constructor(app: App, onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder('Folder to add to the reading queue');
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? '/' : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
@@ -1,6 +1,13 @@
-import { DashReaderSettings, WordChunk, HeadingInfo, HeadingContext } from './types';
+import { DashReaderSettings, WordChunk, HeadingInfo, HeadingContext, RewindPassage } from './types';
 import { TimeoutManager } from './services/timeout-manager';
+import { Clock } from './services/clock';
 import { MicropauseService } from './services/micropause-service';
+import { buildPhraseEnds } from './services/phrase-chunker';
+import { getAcceleratedWpm, ReadingProgress } from './services/acceleration-curve';
+import { getIntervalPhase, IntervalPhase, IntervalProgress } from './services/interval-training';
+import { TokenRange } from './services/section-filter';
+import { findWatchTermHits } from './services/watch-terms';
+import { MarkdownSourceMap } from './markdown-source-map';
 type HistoryEntry = { index: number; tMs: number };
 
 export const ENGINE_LINEBREAK_MARKER = '§§LINEBREAK§§';
@@ -27,6 +34,20 @@ export function tokenizeForEngine(text: string): string[] {
   return cleaned.split(/\s+/).map((w) => (w === ENGINE_LINEBREAK_MARKER ? '\n' : w));
 }
 
+/**
+ * Joins engine tokens into readable text (heading/callout markers, block
+ * placeholders and line breaks dropped, spaces before punctuation removed).
+ */
+export function joinEngineTokens(tokens: string[]): string {
+  return tokens
+    .filter((t) => t !== '\n' && !/^\[BLOCK:\w+:\d+\]$/.test(t))
+    .map((t) => t.replace(/^\[H\d\]/, '').replace(/^\[CALLOUT:[\w-]+\]/, ''))
+    .filter(Boolean)
+    .join(' ')
+    .replace(/ +([,.;:!?])/g, '$1')
+    .trim();
+}
+
 export class RSVPEngine {
   private words: string[] = [];
   private currentIndex: number = 0;
@@ -34,20 +55,48 @@ export class RSVPEngine {
   private timer: number | null = null;
   private settings: DashReaderSettings;
   private timeoutManager: TimeoutManager;
+  /** Time source (the timeout manager's clock, so timers and "now" agree) */
+  private clock: Clock;
   private micropauseService: MicropauseService;
   private onWordChange: (chunk: WordChunk) => void;
-  private startTime: number = 0;
+  /** Clock time playback first started (null until then) */
+  private startTime: number | null = null;
   private startWpm: number = 0;
   private pausedTime: number = 0;
-  private lastPauseTime: number = 0;
+  /** Clock time of the last pause (null while playing or never paused) */
+  private lastPauseTime: number | null = null;
   private headings: HeadingInfo[] = [];
+  /** Token → Markdown source mapping of the loaded text (Markdown loads only) */
+  private sourceMap: MarkdownSourceMap | null = null;
   private wordsReadInSession: number = 0;
+  /** Sentences finished since play() started the session (steps curve) */
+  private sentencesReadInSession: number = 0;
+  /** Paragraphs finished since play() started the session (interval training) */
+  private paragraphsReadInSession: number = 0;
     // virtual-time history for time-based rewind/forward
   private history: HistoryEntry[] = [];
   private historyCursor: number = -1;
   private playbackMs: number = 0;
   private virtualTimeAtIndexMs: number[] = [];
   private virtualTotalMs: number = 0;
+  /** Index of the last token playback shows (linebreaks and skipped words excluded) */
+  private lastShownIndex: number = -1;
+  /** Phrase chunking: last token of the phrase of each token (built lazily) */
+  private phraseEnds: number[] | null = null;
+  /** Tokens of filtered-out sections (1 = passed over), null = read everything */
+  private hiddenMask: Uint8Array | null = null;
+  /** Skim mode: tokens jumped over (1), null when not skimming (built with the timeline) */
+  private skimMask: Uint8Array | null = null;
+  /** Skim mode: regions jumped over, in order */
+  private skimRegions: TokenRange[] = [];
+  /** Skim mode: start indices of the regions opened to be read in full */
+  private skimRevealed = new Set<number>();
+  /** Watch terms: 1 = token of a hit, 2 = last token of a hit (gets the pause); null = no terms */
+  private watchMask: Uint8Array | null = null;
+  /** Watch terms: hits, in order */
+  private watchHits: TokenRange[] = [];
+  /** Summary preview: ranges played before the text, then reading resumes at resumeIndex */
+  private preview: { ranges: TokenRange[]; current: number; resumeIndex: number } | null = null;
 
   private tickGen = 0;
   private nextDueMs: number | null = null;
@@ -57,10 +106,8 @@ export class RSVPEngine {
   private useMobileProfile = false;
 
   private nowMs(): number {
-    // performance.now() is monotonic and better for scheduling; fall back to Date.now().
-    return (typeof performance !== 'undefined' && typeof performance.now === 'function')
-      ? performance.now()
-      : Date.now();
+    // Monotonic time is better for scheduling
+    return this.clock.monotonicNow();
   }
 
   constructor(
@@ -71,6 +118,7 @@ export class RSVPEngine {
     this.settings = settings;
     this.onWordChange = onWordChange;
     this.timeoutManager = timeoutManager;
+    this.clock = timeoutManager.clock;
     this.micropauseService = new MicropauseService(settings, this.getEnableMicropauseSetting());
   }
 
@@ -83,6 +131,12 @@ export class RSVPEngine {
       .trim();
 
     this.words = cleaned.split(/\s+/);
+    this.sourceMap = null;
+    this.hiddenMask = null;
+    this.skimRevealed.clear();
+    this.preview = null;
+    this.watchMask = null;
+    this.watchHits = [];
 
     // Extraire les headings avec leur position (before replacing markers)
     this.extractHeadings();
@@ -109,6 +163,39 @@ export class RSVPEngine {
     this.seedHistoryAtCurrentIndex(); // anchor playbackMs to this index's virtual time
   }
 
+  /**
+   * Passes over the given token ranges (section filtering). Indices, headings
+   * and positions stay those of the whole text; an empty list reads everything.
+   */
+  setHiddenRanges(ranges: TokenRange[]): void {
+    if (ranges.length === 0) {
+      this.hiddenMask = null;
+    } else {
+      this.hiddenMask = new Uint8Array(this.words.length);
+      for (const range of ranges) {
+        this.hiddenMask.fill(1, Math.max(0, range.start), Math.min(this.words.length, range.end + 1));
+      }
+    }
+    this.rebuildVirtualTimeline();
+  }
+
+  /**
+   * Highlights the given terms (see services/watch-terms.ts); an empty list clears them
+   */
+  setWatchTerms(terms: string[]): void {
+    this.watchHits = findWatchTermHits(this.words, terms);
+    if (this.watchHits.length === 0) {
+      this.watchMask = null;
+    } else {
+      this.watchMask = new Uint8Array(this.words.length);
+      for (const hit of this.watchHits) {
+        this.watchMask.fill(1, hit.start, hit.end);
+        this.watchMask[hit.end] = 2;
+      }
+    }
+    this.rebuildVirtualTimeline();
+  }
+
   setUseMobileProfile(useMobile: boolean): void {
     this.useMobileProfile = useMobile;
     this.micropauseService.updateSettings(this.settings, this.getEnableMicropauseSetting());
@@ -125,14 +212,16 @@ export class RSVPEngine {
     this.nextDueMs = null; // reset schedule anchor on every play/resume
 
     // Initialiser le temps de début et le WPM de départ
-    if (this.startTime === 0) {
-      this.startTime = Date.now();
+    if (this.startTime === null) {
+      this.startTime = this.clock.now();
       this.startWpm = this.getWpmSetting();
       this.wordsReadInSession = 0; // Reset slow start counter
-    } else if (this.lastPauseTime > 0) {
+      this.sentencesReadInSession = 0;
+      this.paragraphsReadInSession = 0;
+    } else if (this.lastPauseTime !== null) {
       // Si on reprend après une pause, ajouter le temps de pause
-      this.pausedTime += Date.now() - this.lastPauseTime;
-      this.lastPauseTime = 0;
+      this.pausedTime += this.clock.now() - this.lastPauseTime;
+      this.lastPauseTime = null;
     }
 
     this.displayNextWord();
@@ -147,7 +236,7 @@ export class RSVPEngine {
     }
     this.nextDueMs = null;
     // Enregistrer le moment de la pause
-    this.lastPauseTime = Date.now();
+    this.lastPauseTime = this.clock.now();
   }
 
   stop(): void {
@@ -155,11 +244,14 @@ export class RSVPEngine {
     this.nextDueMs = null;
     this.currentIndex = 0;
     // Réinitialiser les temps
-    this.startTime = 0;
+    this.startTime = null;
     this.pausedTime = 0;
-    this.lastPauseTime = 0;
+    this.lastPauseTime = null;
     this.startWpm = 0;
     this.wordsReadInSession = 0; // Reset slow start counter
+    this.sentencesReadInSession = 0;
+    this.paragraphsReadInSession = 0;
+    this.preview = null;
     this.resetHistory();
   }
 
@@ -173,58 +265,53 @@ export class RSVPEngine {
     this.playbackMs = 0;
   }
 
-  private getWpmAtElapsedSeconds(elapsedSec: number): number {
-    if (!this.settings.enableAcceleration) return this.getWpmSetting();
-
-    const startWpm = this.getWpmSetting(); // same as play() initial startWpm for deterministic model
-    const target = this.settings.accelerationTargetWpm;
-    const dur = Math.max(1, this.settings.accelerationDuration);
-
-    if (elapsedSec >= dur) return Math.round(target);
-
-    const progress = elapsedSec / dur;
-    return Math.round(startWpm + (target - startWpm) * progress);
+  /**
+   * WPM at a point of a session: the interval training phase, or the
+   * acceleration curve from startWpm. Shared by playback and the virtual timeline.
+   */
+  private getScheduledWpm(startWpm: number, progress: ReadingProgress & IntervalProgress): number {
+    if (this.settings.intervalTraining) return getIntervalPhase(this.settings, progress).wpm;
+    return getAcceleratedWpm(this.settings, startWpm, progress);
   }
 
   private rebuildVirtualTimeline(): void {
     const n = this.words.length;
     this.virtualTimeAtIndexMs = new Array(n).fill(0);
     this.virtualTotalMs = 0;
+    this.lastShownIndex = -1;
+    this.phraseEnds = null; // text, skip rules or phrase width may have changed
+    this.buildSkimMask();
     if (n === 0) return;
 
     let tMs = 0;
     let sessionCount = 0;
-    const SLOW_START_WORDS = 5;
+    let sentenceCount = 0;
+    let paragraphCount = 0;
 
     for (let i = 0; i < n; i++) {
       // record time-at-index even for linebreaks (they map to nearest time)
       this.virtualTimeAtIndexMs[i] = tMs;
 
       const w = this.words[i];
-      if (w === '\n') continue; // playback skips these with 0 delay
+      if (this.isPassedOver(i)) continue; // playback skips these with 0 delay
+      this.lastShownIndex = i;
 
       // virtual WPM from virtual time, not Date.now()
-      const wpm = this.getWpmAtElapsedSeconds(tMs / 1000);
+      // (startWpm = current WPM setting, same as play() initial startWpm for deterministic model)
+      const wpm = this.getScheduledWpm(this.getWpmSetting(), {
+        elapsedSec: tMs / 1000,
+        wordsRead: sessionCount,
+        sentencesRead: sentenceCount,
+        paragraphsRead: paragraphCount,
+      });
       const baseDelay = (60 / wpm) * 1000;
 
-      let delayToken = w;
-
-      // mirror getChunk(): paragraph pause applies to the word before '\n'
-      if (i + 1 < n && this.words[i + 1] === '\n') {
-        delayToken += '\n';
-      }
-      
-      const mult = this.micropauseService.calculateMultiplier(delayToken);
-
-      let delay = baseDelay * mult;
-
-      if (this.getEnableSlowStartSetting() && sessionCount < SLOW_START_WORDS) {
-        const remainingSlowWords = SLOW_START_WORDS - sessionCount;
-        const slowStartMultiplier = 1 + (remainingSlowWords / SLOW_START_WORDS);
-        delay *= slowStartMultiplier;
-      }
+      // same multipliers as playback (getTokenDelay)
+      const delay = baseDelay * this.getTokenMultiplier(i) * this.getSlowStartMultiplier(sessionCount);
 
       sessionCount += 1;
+      if (this.endsSentence(w)) sentenceCount += 1;
+      if (i + 1 < n && this.words[i + 1] === '\n') paragraphCount += 1;
       tMs += Math.max(0, delay);
     }
 
@@ -296,10 +383,29 @@ export class RSVPEngine {
     this.playbackMs = this.history[cursor].tMs;
   }
 
+  /**
+   * Tokens playback never shows: linebreaks, words hidden by a skip rule and
+   * tokens of filtered-out sections
+   */
+  private isPassedOver(index: number): boolean {
+    const word = this.words[index];
+    if (word === undefined) return false;
+    return (
+      word === '\n' ||
+      this.hiddenMask?.[index] === 1 ||
+      this.skimMask?.[index] === 1 ||
+      this.micropauseService.isSkipped(word)
+    );
+  }
+
   private isSentenceBoundaryToken(word: string): boolean {
     if (!word) return false;
     if (word === '\n') return true;
-    if (/^\[H\d\]/.test(word) || /^\[CALLOUT:/.test(word)) return true;
+    if (/^\[H\d\]/.test(word) || /^\[CALLOUT:/.test(word) || /^\[BLOCK:/.test(word)) return true;
+    return this.endsSentence(word);
+  }
+
+  private endsSentence(word: string): boolean {
     return /[.!?]["')\]]?$/.test(word);
   }
 
@@ -311,6 +417,7 @@ export class RSVPEngine {
   }
 
   rewind(steps: number = 20): void {
+    this.preview = null;
     this.moveByWords(-steps);
     if (this.isPlaying) {
       this.pause();
@@ -321,6 +428,7 @@ export class RSVPEngine {
   }
 
   forward(steps: number = 20): void {
+    this.preview = null;
     this.moveByWords(steps);
     if (this.isPlaying) {
       this.pause();
@@ -335,40 +443,51 @@ export class RSVPEngine {
 
     let i = this.currentIndex;
 
-    // If we're sitting on a linebreak, normalize first:
+    // If we're sitting on a linebreak (or skipped word), normalize first:
     if (wordDelta < 0) {
-      while (i > 0 && this.words[i] === '\n') i -= 1;
+      while (i > 0 && this.isPassedOver(i)) i -= 1;
     } else {
-      while (i < this.words.length && this.words[i] === '\n') i += 1;
+      while (i < this.words.length && this.isPassedOver(i)) i += 1;
     }
 
     let remaining = Math.abs(wordDelta);
 
     if (wordDelta < 0) {
-      // Move backward counting only non-linebreak tokens
+      // Move backward counting only shown tokens
       while (i > 0 && remaining > 0) {
         i -= 1;
-        if (this.words[i] !== '\n') remaining -= 1;
+        if (!this.isPassedOver(i)) remaining -= 1;
       }
       // Ensure we don't end on a linebreak
-      while (i > 0 && this.words[i] === '\n') i -= 1;
+      while (i > 0 && this.isPassedOver(i)) i -= 1;
     } else {
-      // Move forward counting only non-linebreak tokens
+      // Move forward counting only shown tokens
       while (i < this.words.length - 1 && remaining > 0) {
         i += 1;
-        if (this.words[i] !== '\n') remaining -= 1;
+        if (!this.isPassedOver(i)) remaining -= 1;
       }
       // Ensure we don't end on a linebreak
-      while (i < this.words.length - 1 && this.words[i] === '\n') i += 1;
+      while (i < this.words.length - 1 && this.isPassedOver(i)) i += 1;
     }
 
     this.currentIndex = Math.max(0, Math.min(i, this.words.length - 1));
   }
 
-  rewindSeconds(seconds: number = 10, snapToSentence: boolean = false): void {
+  /**
+   * Seeks back in virtual reading time (playback history first, virtual timeline fallback).
+   * Returns the passage that will be re-read, or null if the position did not move back.
+   */
+  rewindSeconds(seconds: number = 10, snapToSentence: boolean = false): RewindPassage | null {
+    this.preview = null;
     const wasPlaying = this.isPlaying;
     if (wasPlaying) this.pause();
 
+    // Last word actually shown (currentIndex already points past it while playing)
+    const fromIndex =
+      (this.history.length > 0 && this.historyCursor >= 0)
+        ? this.history[this.historyCursor].index
+        : this.currentIndex;
+
     const curMs =
       (this.history.length > 0 && this.historyCursor >= 0)
         ? this.history[this.historyCursor].tMs
@@ -389,9 +508,7 @@ export class RSVPEngine {
       this.resetHistory();
       this.seedHistoryAtCurrentIndex();
 
-      if (wasPlaying) this.play();
-      else this.displayCurrentWord();
-      return;
+      return this.finishRewind(wasPlaying, fromIndex);
     }
 
     const cursor = this.findLastAtOrBefore(targetMs);
@@ -403,9 +520,7 @@ export class RSVPEngine {
       this.resetHistory();
       this.seedHistoryAtCurrentIndex();
 
-      if (wasPlaying) this.play();
-      else this.displayCurrentWord();
-      return;
+      return this.finishRewind(wasPlaying, fromIndex);
     }
 
     this.seekToHistoryCursor(cursor);
@@ -427,11 +542,18 @@ export class RSVPEngine {
       }
     }
 
+    return this.finishRewind(wasPlaying, fromIndex);
+  }
+
+  private finishRewind(wasPlaying: boolean, fromIndex: number): RewindPassage | null {
+    const toIndex = this.currentIndex;
     if (wasPlaying) this.play();
     else this.displayCurrentWord();
+    return toIndex < fromIndex ? { fromIndex, toIndex } : null;
   }
 
   forwardSeconds(seconds: number = 10): void {
+    this.preview = null;
     const wasPlaying = this.isPlaying;
     if (wasPlaying) this.pause();
 
@@ -464,20 +586,11 @@ export class RSVPEngine {
     let acc = 0;
     let i = this.currentIndex;
     let sessionCount = this.wordsReadInSession;
-    const SLOW_START_WORDS = 5;
 
     while (i < this.words.length && acc < seconds * 1000) {
-      if (this.words[i] === '\n') { i += 1; continue; }
-
-      let delay = this.getChunk(i).delay;
+      if (this.isPassedOver(i)) { i += 1; continue; }
 
-      if (this.getEnableSlowStartSetting() && sessionCount < SLOW_START_WORDS) {
-        const remainingSlowWords = SLOW_START_WORDS - sessionCount;
-        const slowStartMultiplier = 1 + (remainingSlowWords / SLOW_START_WORDS);
-        delay *= slowStartMultiplier;
-      }
-
-      acc += delay;
+      acc += this.getTokenDelay(i) * this.getSlowStartMultiplier(sessionCount);
       sessionCount += 1;
       i += 1;
     }
@@ -537,9 +650,7 @@ export class RSVPEngine {
   }
 
   private displayCurrentWord(): void {
-    while (this.currentIndex < this.words.length && this.words[this.currentIndex] === '\n') {
-      this.currentIndex += 1;
-    }
+    this.skipPassedOver();
     if (this.currentIndex >= this.words.length) {
       return;
     }
@@ -553,10 +664,8 @@ export class RSVPEngine {
 
     const gen = this.tickGen;
 
-    // Skip linebreak tokens so we always advance through real words
-    while (this.currentIndex < this.words.length && this.words[this.currentIndex] === '\n') {
-      this.currentIndex += 1;
-    }
+    // Skip linebreak tokens (and skipped words) so we always advance through real words
+    this.skipPassedOver();
 
     if (this.currentIndex >= this.words.length) {
       this.isPlaying = false;
@@ -566,24 +675,22 @@ export class RSVPEngine {
     const chunk = this.getChunk(this.currentIndex);
     this.onWordChange(chunk);
 
-    let delay = chunk.delay;
-
-    if (this.getEnableSlowStartSetting()) {
-      const SLOW_START_WORDS = 5;
-      if (this.wordsReadInSession < SLOW_START_WORDS) {
-        const remainingSlowWords = SLOW_START_WORDS - this.wordsReadInSession;
-        const slowStartMultiplier = 1 + (remainingSlowWords / SLOW_START_WORDS);
-        delay *= slowStartMultiplier;
-      }
+    // Fixed chunks advance by ONE token every tick (not chunkSize); a phrase
+    // is shown once, for the time of all its tokens
+    const lastIndex = this.isPhraseChunking() ? chunk.endIndex ?? this.currentIndex : this.currentIndex;
+    let delay = 0;
+    for (let i = this.currentIndex; i <= lastIndex; i++) {
+      delay += this.getTokenDelay(i) * this.getSlowStartMultiplier(this.wordsReadInSession);
+      this.wordsReadInSession += 1;
+      if (this.endsSentence(this.words[i])) this.sentencesReadInSession += 1;
+      if (this.words[i + 1] === '\n') this.paragraphsReadInSession += 1;
     }
 
-    this.wordsReadInSession += 1;
-
     // record the *actual* scheduled delay for time-based seeking
     this.recordHistory(this.currentIndex, delay);
 
-    // CRITICAL: advance by ONE token every tick (not chunkSize)
-    this.currentIndex += 1;
+    this.currentIndex = lastIndex + 1;
+    this.advancePreview(lastIndex);
 
     const now = this.nowMs();
     const delayMs = Math.max(0, delay);
@@ -608,15 +715,163 @@ export class RSVPEngine {
     }, Math.max(0, waitMs));
   }
 
+  /**
+   * Moves currentIndex to the next token playback shows; during a summary
+   * preview it does not run past the end of the current range
+   */
+  private skipPassedOver(): void {
+    while (this.currentIndex < this.words.length && this.isPassedOver(this.currentIndex)) {
+      const range = this.preview?.ranges[this.preview.current];
+      if (range && this.currentIndex >= range.end) this.advancePreview(this.currentIndex);
+      else this.currentIndex += 1;
+    }
+  }
+
+  /**
+   * Summary preview: after the last token of a range, moves on to the next
+   * range with a token to show, or back to where reading was when the
+   * preview started
+   */
+  private advancePreview(lastIndex: number): void {
+    const preview = this.preview;
+    if (!preview) return;
+
+    const range = preview.ranges[preview.current];
+    if (this.hasShownToken(lastIndex + 1, range.end)) return;
+
+    do {
+      preview.current += 1;
+    } while (
+      preview.current < preview.ranges.length &&
+      !this.hasShownToken(preview.ranges[preview.current].start, preview.ranges[preview.current].end)
+    );
+
+    if (preview.current < preview.ranges.length) {
+      this.currentIndex = preview.ranges[preview.current].start;
+    } else {
+      this.currentIndex = preview.resumeIndex;
+      this.preview = null;
+    }
+  }
+
+  /**
+   * Whether playback shows any token of [start, end]
+   */
+  private hasShownToken(start: number, end: number): boolean {
+    for (let i = start; i <= end; i++) {
+      if (!this.isPassedOver(i)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Skim mode: everything but headings, callout titles, blocks and the first
+   * (optionally also the last) sentence of each paragraph is jumped over
+   */
+  private buildSkimMask(): void {
+    this.skimMask = null;
+    this.skimRegions = [];
+    if (!this.settings.skimMode || this.words.length === 0) return;
+
+    const mask = new Uint8Array(this.words.length);
+    for (let start = 0; start < this.words.length; start = this.findLineEnd(start) + 1) {
+      const end = this.findLineEnd(start); // exclusive
+      if (end - start < 2 || /^\[(H\d\]|CALLOUT:|BLOCK:)/.test(this.words[start])) continue;
+
+      let firstEnd = end - 1;
+      let lastStart = start;
+      for (let i = start; i < end - 1; i++) {
+        if (!this.isSentenceBoundaryToken(this.words[i])) continue;
+        if (firstEnd === end - 1) firstEnd = i;
+        lastStart = i + 1;
+      }
+
+      const regionEnd = this.settings.skimLastSentence ? lastStart - 1 : end - 1;
+      if (regionEnd <= firstEnd || this.skimRevealed.has(firstEnd + 1)) continue;
+
+      mask.fill(1, firstEnd + 1, regionEnd + 1);
+      this.skimRegions.push({ start: firstEnd + 1, end: regionEnd });
+    }
+
+    if (this.skimRegions.length > 0) this.skimMask = mask;
+  }
+
+  private isPhraseChunking(): boolean {
+    return this.settings.chunkingMode === 'phrase';
+  }
+
+  private getPhraseEnds(): number[] {
+    if (!this.phraseEnds) {
+      this.phraseEnds = buildPhraseEnds(this.words, this.settings.phraseMaxChars, (i) => this.isPassedOver(i));
+    }
+    return this.phraseEnds;
+  }
+
+  /**
+   * Delay of one shown token at the current WPM
+   */
+  private getTokenDelay(index: number): number {
+    return ((60 / this.getCurrentWpm()) * 1000) * this.getTokenMultiplier(index);
+  }
+
+  /**
+   * Multiplier of one shown token's base delay: its micropause (a paragraph
+   * pause applies to the word before '\n') and the watch-term pause after a hit
+   */
+  private getTokenMultiplier(index: number): number {
+    let delayToken = this.words[index];
+    if (index + 1 < this.words.length && this.words[index + 1] === '\n') {
+      delayToken += '\n';
+    }
+    const watchPause = this.watchMask?.[index] === 2 ? this.settings.watchTermPause : 1;
+    return this.micropauseService.calculateMultiplier(delayToken) * watchPause;
+  }
+
+  /**
+   * Slow start: the first words of a session get up to twice their time
+   */
+  private getSlowStartMultiplier(sessionCount: number): number {
+    const SLOW_START_WORDS = 5;
+    if (!this.getEnableSlowStartSetting() || sessionCount >= SLOW_START_WORDS) return 1;
+    return 1 + (SLOW_START_WORDS - sessionCount) / SLOW_START_WORDS;
+  }
+
+  /**
+   * Phrase from startIndex to the end of its phrase (a jump may land mid-phrase)
+   */
+  private getPhraseChunk(startIndex: number): WordChunk {
+    const end = Math.max(startIndex, this.getPhraseEnds()[startIndex] ?? startIndex);
+    const chunkWords = this.words.slice(startIndex, end + 1);
+
+    let delay = 0;
+    for (let i = startIndex; i <= end; i++) delay += this.getTokenDelay(i);
+
+    return {
+      text: chunkWords.join(' '),
+      index: startIndex,
+      endIndex: end,
+      watchTerms: this.watchMask ? chunkWords.map((_, k) => this.isWatchTerm(startIndex + k)) : undefined,
+      delay,
+      isEnd: !this.preview && end >= this.lastShownIndex,
+      headingContext: this.getCurrentHeadingContext(startIndex)
+    };
+  }
+
   private getChunk(startIndex: number): WordChunk {
+    if (this.isPhraseChunking()) return this.getPhraseChunk(startIndex);
+
     const chunkSize = Math.max(1, this.getChunkSizeSetting() || 1);
 
     const chunkWords: string[] = [];
+    const watchTerms: boolean[] = [];
     let i = startIndex;
 
     while (i < this.words.length && chunkWords.length < chunkSize) {
       const w = this.words[i];
-      if (w !== '\n') chunkWords.push(w);
+      if (!this.isPassedOver(i)) {
+        chunkWords.push(w);
+        watchTerms.push(this.isWatchTerm(i));
+      }
       i++;
     }
 
@@ -636,33 +891,47 @@ export class RSVPEngine {
     return {
       text,
       index: startIndex,
+      watchTerms: this.watchMask ? watchTerms : undefined,
       delay,
-      isEnd: startIndex >= this.words.length - 1,
+      isEnd: !this.preview && startIndex >= this.lastShownIndex,
       headingContext: this.getCurrentHeadingContext(startIndex)
     };
   }
 
   private getCurrentWpm(): number {
     // Si l'accélération n'est pas activée, retourner le WPM normal
-    if (!this.settings.enableAcceleration || this.startTime === 0) {
+    if (!this.settings.intervalTraining && (!this.settings.enableAcceleration || this.startTime === null)) {
       return this.getWpmSetting();
     }
 
-    // Calculer le temps écoulé (en secondes)
-    const now = this.isPlaying ? Date.now() : (this.lastPauseTime || Date.now());
-    const elapsed = (now - this.startTime - this.pausedTime) / 1000;
+    // Same schedule as the virtual timeline
+    return this.getScheduledWpm(this.startWpm || this.getWpmSetting(), this.getSessionProgress());
+  }
 
-    // Si on a dépassé la durée d'accélération, retourner le WPM cible
-    if (elapsed >= this.settings.accelerationDuration) {
-      return this.settings.accelerationTargetWpm;
+  /**
+   * Progress of the current session (time from the clock, pauses excluded)
+   */
+  private getSessionProgress(): ReadingProgress & IntervalProgress {
+    let elapsedSec = 0;
+    if (this.startTime !== null) {
+      const now = this.isPlaying ? this.clock.now() : (this.lastPauseTime ?? this.clock.now());
+      elapsedSec = (now - this.startTime - this.pausedTime) / 1000;
     }
 
-    // Calculer le WPM progressif
-    const progress = elapsed / this.settings.accelerationDuration;
-    const wpmDiff = this.settings.accelerationTargetWpm - this.startWpm;
-    const currentWpm = this.startWpm + (wpmDiff * progress);
+    return {
+      elapsedSec,
+      wordsRead: this.wordsReadInSession,
+      sentencesRead: this.sentencesReadInSession,
+      paragraphsRead: this.paragraphsReadInSession,
+    };
+  }
 
-    return Math.round(currentWpm);
+  /**
+   * Current interval training phase (null when interval training is off)
+   */
+  getIntervalPhase(): IntervalPhase | null {
+    if (!this.settings.intervalTraining) return null;
+    return getIntervalPhase(this.settings, this.getSessionProgress());
   }
 
   private calculateDelay(text: string): number {
@@ -833,6 +1102,39 @@ export class RSVPEngine {
     return this.words.length;
   }
 
+  /**
+   * Attaches the source map of the Markdown the current text was parsed from
+   * Call after setText(); ignored if it does not describe the loaded tokens.
+   */
+  setSourceMap(sourceMap: MarkdownSourceMap | null): void {
+    this.sourceMap = sourceMap && sourceMap.getTokenCount() === this.words.length ? sourceMap : null;
+  }
+
+  hasSourceMap(): boolean {
+    return this.sourceMap !== null;
+  }
+
+  /**
+   * 1-based line of a token in the source Markdown (null without source map)
+   */
+  getSourceLine(index: number): number | null {
+    return this.sourceMap ? this.sourceMap.tokenToSourceLine(index) : null;
+  }
+
+  /**
+   * Character offset of a token in the source Markdown (null without source map)
+   */
+  getSourceOffset(index: number): number | null {
+    return this.sourceMap ? this.sourceMap.tokenToSourceOffset(index) : null;
+  }
+
+  /**
+   * Token at a character offset of the source Markdown (null without source map)
+   */
+  getTokenAtSourceOffset(offset: number): number | null {
+    return this.sourceMap ? this.sourceMap.sourceOffsetToToken(offset) : null;
+  }
+
   getIsPlaying(): boolean {
     return this.isPlaying;
   }
@@ -909,6 +1211,9 @@ export class RSVPEngine {
   }
 
   private getActiveChunkEndOnThisLine(startIndex: number): number {
+    // Phrases never cross a line break
+    if (this.isPhraseChunking()) return Math.max(startIndex, this.getPhraseEnds()[startIndex] ?? startIndex);
+
     // Chunk is the active phrase. We clamp it to THIS LINE so anchor semantics remain line-based.
     const chunkSize = Math.max(1, this.getChunkSizeSetting() || 1);
 
@@ -1021,6 +1326,197 @@ export class RSVPEngine {
     return { before, after };
   }
 
+  /**
+   * Returns raw tokens [start, end] (inclusive, clamped), line breaks included.
+   */
+  public getTokenRange(start: number, end: number): string[] {
+    const len = this.words.length;
+    if (len === 0) return [];
+    const from = Math.max(0, Math.min(start, len - 1));
+    const to = Math.max(from, Math.min(end, len - 1));
+    return this.words.slice(from, to + 1);
+  }
+
+  /**
+   * Returns the tokens of the sentence containing `index` (no line breaks).
+   * Sentences never cross a line break; each side is capped at maxTokens.
+   */
+  public getSentenceTokens(index: number, maxTokens: number = 40): string[] {
+    const len = this.words.length;
+    if (len === 0) return [];
+
+    const idx = Math.max(0, Math.min(index, len - 1));
+    const start = Math.max(this.alignToSentenceStart(idx), idx - maxTokens);
+
+    let end = idx;
+    while (end < len - 1 && end - idx < maxTokens) {
+      const w = this.words[end];
+      if (w !== '\n' && this.isSentenceBoundaryToken(w)) break;
+      if (this.words[end + 1] === '\n') break;
+      end += 1;
+    }
+
+    return this.words.slice(start, end + 1).filter((w) => w !== '\n');
+  }
+
+  /**
+   * Token range [start, end] (inclusive) of the sentence containing `index`,
+   * for sentence presentation. Like getSentenceTokens, but a heading or
+   * callout marker starts a sentence instead of ending one.
+   */
+  public getSentenceRange(index: number, maxTokens: number = 60): { start: number; end: number } {
+    const len = this.words.length;
+    if (len === 0) return { start: 0, end: -1 };
+
+    const idx = Math.max(0, Math.min(index, len - 1));
+    const isMarker = (w: string | undefined) => !!w && /^\[(H\d\]|CALLOUT:|BLOCK:)/.test(w);
+
+    let start = idx;
+    while (
+      start > 0 &&
+      idx - start < maxTokens &&
+      !isMarker(this.words[start]) &&
+      !this.isLineBreakToken(this.words[start - 1]) &&
+      !this.endsSentence(this.words[start - 1])
+    ) start -= 1;
+
+    let end = idx;
+    while (
+      end < len - 1 &&
+      end - idx < maxTokens &&
+      !this.endsSentence(this.words[end]) &&
+      !this.isLineBreakToken(this.words[end + 1]) &&
+      !isMarker(this.words[end + 1])
+    ) end += 1;
+
+    return { start, end };
+  }
+
+  /**
+   * Token range [start, end] (inclusive) of the source line containing `index`
+   * (between line breaks)
+   */
+  public getLineRange(index: number): { start: number; end: number } {
+    if (this.words.length === 0) return { start: 0, end: -1 };
+    const idx = Math.max(0, Math.min(index, this.words.length - 1));
+    return { start: this.findLineStart(idx), end: this.findLineEnd(idx) - 1 };
+  }
+
+  /**
+   * Token ranges [start, end] (inclusive) of the paragraph (source line)
+   * containing `index` and of up to `before` / `after` non-empty paragraphs
+   * around it, in reading order
+   */
+  public getParagraphRanges(index: number, before: number, after: number): Array<{ start: number; end: number }> {
+    if (this.words.length === 0) return [];
+    const current = this.getLineRange(index);
+
+    const above: Array<{ start: number; end: number }> = [];
+    for (let prev = this.getPrevLineRange(current.start); prev && above.length < before; prev = this.getPrevLineRange(prev.start)) {
+      if (prev.end > prev.start) above.unshift({ start: prev.start, end: prev.end - 1 });
+    }
+
+    const below: Array<{ start: number; end: number }> = [];
+    for (let next = this.getNextLineRange(current.end + 1); next && below.length < after; next = this.getNextLineRange(next.end)) {
+      if (next.end > next.start) below.push({ start: next.start, end: next.end - 1 });
+    }
+
+    return [...above, current, ...below];
+  }
+
+  /**
+   * Skim mode: regions jumped over (empty when not skimming)
+   */
+  public getSkimRegions(): TokenRange[] {
+    return this.skimRegions;
+  }
+
+  /**
+   * Skim mode: words jumped over right before `index` (0 if none)
+   */
+  public getSkimSkippedBefore(index: number): number {
+    if (!this.skimMask) return 0;
+    let count = 0;
+    for (let i = index - 1; i >= 0 && this.isPassedOver(i); i--) {
+      if (this.skimMask[i] === 1) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Skim mode: reads the skipped region containing `index` in full, from its start
+   *
+   * @returns false if `index` is not in a skipped region
+   */
+  public readSkimmedRegion(index: number): boolean {
+    const region = this.skimRegions.find((r) => index >= r.start && index <= r.end);
+    if (!region) return false;
+
+    this.skimRevealed.add(region.start);
+    this.rebuildVirtualTimeline();
+    this.jumpToIndex(region.start);
+    return true;
+  }
+
+  /**
+   * Summary preview: plays the given ranges (in order), then carries on from
+   * the current position. Any jump or seek ends it. While paused, nothing is
+   * displayed until the next play.
+   */
+  public startPreview(ranges: TokenRange[]): void {
+    // Ranges playback passes over entirely (skipped sections, skim mode) have nothing to play
+    const shown = ranges.filter((range) => this.hasShownToken(range.start, range.end));
+    if (shown.length === 0 || this.words.length === 0) return;
+    this.preview = { ranges: shown, current: 0, resumeIndex: this.currentIndex };
+    this.currentIndex = shown[0].start;
+    this.resetHistory();
+    this.seedHistoryAtCurrentIndex();
+
+    if (this.isPlaying) {
+      this.pause();
+      this.play();
+    }
+  }
+
+  public stopPreview(): void {
+    this.preview = null;
+  }
+
+  /**
+   * Summary preview: position in it, null when not previewing
+   */
+  public getPreviewProgress(): { current: number; total: number } | null {
+    return this.preview ? { current: this.preview.current + 1, total: this.preview.ranges.length } : null;
+  }
+
+  /**
+   * Watch terms: whether the token is part of a hit
+   */
+  public isWatchTerm(index: number): boolean {
+    return (this.watchMask?.[index] ?? 0) > 0;
+  }
+
+  /**
+   * Watch terms: all hits, in order
+   */
+  public getWatchHits(): TokenRange[] {
+    return this.watchHits;
+  }
+
+  /**
+   * Whether the token is in a section filtered out (see setHiddenRanges)
+   */
+  public isInSkippedSection(index: number): boolean {
+    return this.hiddenMask?.[index] === 1;
+  }
+
+  /**
+   * Whether playback passes over the token (line breaks, words hidden by a skip rule)
+   */
+  public isHiddenToken(index: number): boolean {
+    return this.words[index] === undefined || this.isPassedOver(index);
+  }
+
   public getVirtualTotalSeconds(): number {
     return Math.round(this.virtualTotalMs / 1000);
   }
@@ -1043,6 +1539,17 @@ export class RSVPEngine {
     return Math.round((this.virtualTimeAtIndexMs[idx] || 0) / 1000);
   }
 
+  /**
+   * Unrounded virtual time (seconds) spent on tokens [startIndex, endIndex).
+   * endIndex past the last token counts up to the end of the text.
+   */
+  public getVirtualSpanSeconds(startIndex: number, endIndex: number): number {
+    const n = this.words.length;
+    if (n === 0 || endIndex <= startIndex) return 0;
+    const at = (i: number) => (i >= n ? this.virtualTotalMs : (this.virtualTimeAtIndexMs[Math.max(0, i)] || 0));
+    return Math.max(0, at(endIndex) - at(startIndex)) / 1000;
+  }
+
   private findVirtualIndexAtOrBeforeMs(tMs: number): number {
     const n = this.words.length;
     if (n === 0) return 0;
@@ -1115,9 +1622,9 @@ export class RSVPEngine {
 
   getElapsedTime(): number {
     // Retourne le temps écoulé en secondes
-    if (this.startTime === 0) return 0;
+    if (this.startTime === null) return 0;
 
-    const now = this.isPlaying ? Date.now() : this.lastPauseTime || Date.now();
+    const now = this.isPlaying ? this.clock.now() : this.lastPauseTime ?? this.clock.now();
     return Math.floor((now - this.startTime - this.pausedTime) / 1000);
   }
 
@@ -1141,6 +1648,7 @@ export class RSVPEngine {
 
   jumpToIndex(index: number): void {
     if (this.words.length === 0) return;
+    this.preview = null;
 
     this.currentIndex = Math.max(0, Math.min(index, this.words.length - 1));
     this.resetHistory();
@@ -1161,6 +1669,7 @@ export class RSVPEngine {
    */
   stepWords(wordDelta: number): void {
     if (this.words.length === 0 || wordDelta === 0) return;
+    this.preview = null;
 
     this.moveByWords(wordDelta);
     this.resetHistory();
@@ -48,20 +48,38 @@
 // SECTION 1: IMPORTS & CONSTANTS
 // ============================================================================
 
-import { Modal, App, EventRef, Platform } from "obsidian";
-import { RSVPEngine } from './rsvp-engine';
-import { DashReaderSettings, WordChunk, HeadingInfo } from './types';
+import { Modal, App, EventRef, Platform, Notice, TFile, MarkdownView, getAllTags } from "obsidian";
+import { joinEngineTokens, RSVPEngine } from './rsvp-engine';
+import { DashReaderSettings, WordChunk, HeadingInfo, TextSource, PresentationMode } from './types';
 import { MarkdownParser } from './markdown-parser';
+import { BLOCK_MARKER_RE, BlockPlaceholder, describeBlockPlaceholder, EmbedMap } from './markdown';
+import { MarkdownSourceMap } from './markdown-source-map';
 import { ViewState } from './view-state';
 import { DOMRegistry } from './dom-registry';
 import { BreadcrumbManager } from './breadcrumb-manager';
-import { WordDisplay } from './word-display';
+import { BookmarkManager } from './bookmark-manager';
+import { PacerBlock, WordDisplay } from './word-display';
+import { SectionFilterModal } from './section-filter-modal';
+import { SummaryModal } from './summary-modal';
+import { SearchModal } from './search-modal';
+import { createSearchIndex, SearchHit, SearchIndex, searchText } from './services/text-search';
+import { extractSummary, SummarySentence } from './services/extractive-summary';
+import { findWatchTermSpans, parseWatchTerms } from './services/watch-terms';
+import { getSkippedRanges, matchSkippedHeadings, TokenRange } from './services/section-filter';
 import { HotkeyHandler } from './hotkey-handler';
 import { TimeoutManager } from './services/timeout-manager';
+import { ReadingPositionStore } from './services/reading-position-store';
+import { CompletedSession, SessionTracker } from './services/session-tracker';
+import { EmbedResolver } from './services/embed-resolver';
+import { PacingProfileManager } from './services/pacing-profiles';
+import { readFrontmatterOverrides } from './services/frontmatter-overrides';
+import { describeIntervalPhase } from './services/interval-training';
+import { appendDigestEntry, buildSessionDigest, DigestSection, sanitizeLinkText } from './services/session-digest';
 import {
   createButton,
   createNumberControl,
   createToggleControl,
+  createDropdown,
   createPlayPauseButtons,
   updatePlayPauseButtons,
 } from './ui-builders';
@@ -92,6 +110,8 @@ export class DashReaderView extends Modal {
 public isOpen = false;
 private onModalClose?: () => void;
 private onSettingsSave?: () => void;
+/** Called when a text loaded from the reading queue has been read to the end */
+private onQueueItemEnd?: () => void;
 
 // debounce handle (so we don't write data.json 30 times in a second)
 private _saveSettingsTimer: number | null = null;
@@ -117,6 +137,9 @@ private _saveSettingsTimer: number | null = null;
   /** Breadcrumb navigation manager */
   private breadcrumbManager: BreadcrumbManager;
 
+  /** Bookmarks for the loaded text */
+  private bookmarkManager: BookmarkManager;
+
   /** Word display manager */
   private wordDisplay: WordDisplay;
 
@@ -126,6 +149,14 @@ private _saveSettingsTimer: number | null = null;
   /** Timeout manager for preventing memory leaks */
   private timeoutManager: TimeoutManager;
 
+  /** Per-file reading positions (persisted in settings) */
+  private positionStore: ReadingPositionStore;
+
+  /** Reading session log for statistics (persisted in settings) */
+  private sessionTracker: SessionTracker;
+  private embedResolver: EmbedResolver;
+  private pacingProfiles: PacingProfileManager;
+
   // ──────────────────────────────────────────────────────────────────────
   // DOM Element References
   // ──────────────────────────────────────────────────────────────────────
@@ -160,7 +191,7 @@ private _saveSettingsTimer: number | null = null;
     | {
         text: string;
         isPlain?: boolean;
-        source?: { fileName?: string; lineNumber?: number; cursorPosition?: number };
+        source?: TextSource;
       }
     | null = null;
 
@@ -208,6 +239,7 @@ private _saveSettingsTimer: number | null = null;
 
   /** Toggle buttons (so we can defocus them / detect clicks) */
   private controlsToggleBtn?: HTMLButtonElement;
+  private bookmarksBtn?: HTMLButtonElement;
 
   /** Track whether we paused due to opening a panel */
   private pausedByPanelOpen = false;
@@ -234,6 +266,13 @@ private _saveSettingsTimer: number | null = null;
 
   // Add near other fields in the class:
   private progressBarEl: HTMLProgressElement | null = null
+  /** Skim regions drawn over the progress bar */
+  private skimTrackEl: HTMLElement | null = null;
+  /** Search hits drawn over the progress bar */
+  private searchTrackEl: HTMLElement | null = null;
+  /** "Skipped N words" label shown when skim mode jumps */
+  private skimIndicatorEl: HTMLElement | null = null;
+  private skimIndicatorTimer: number | null = null;
   private isProgressBarHovering = false;
   private progressBarHoverIndex: number | null = null;
   private progressBarHoverRaf: number | null = null;
@@ -252,6 +291,24 @@ private _saveSettingsTimer: number | null = null;
   private _contextMeasureHostEl?: HTMLElement;
   private _contextMeasureBeforeEl?: HTMLElement;
   private _contextMeasureAfterEl?: HTMLElement;
+  private _passageMeasureEl?: HTMLElement;
+  /** Word indices of the headings whose sections are skipped (see services/section-filter.ts) */
+  private skippedSections = new Set<number>();
+  /** Watch terms of the loaded note's frontmatter (added to those of the settings) */
+  private noteWatchTerms: string[] = [];
+  /** Watch terms in effect (settings and note) */
+  private watchTerms: string[] = [];
+  /** Search keys of the loaded text (built on first search) */
+  private searchIndex: { loadId: number; index: SearchIndex } | null = null;
+  /** Last search; kept across texts, its hits are marked on the progress bar */
+  private lastSearchQuery = '';
+  private searchHits: SearchHit[] = [];
+  /** Key sentences of the loaded text (built on first use, see services/extractive-summary.ts) */
+  private summary: { loadId: number; count: number; skimMode: boolean; sentences: SummarySentence[] } | null = null;
+  /** Paragraphs on screen in the pacer */
+  private pacerWindow: { loadId: number; start: number; end: number; blocks: PacerBlock[] } | null = null;
+  /** Wrapped lines of the last measured source line (line presentation) */
+  private wrappedLineCache: { key: string; ranges: Array<{ start: number; end: number }> } | null = null;
   private _contextUpdateRaf: number | null = null;
   private _pendingContextIndex: number | null = null;
   private _contextResizeObserver?: ResizeObserver;
@@ -259,6 +316,26 @@ private _saveSettingsTimer: number | null = null;
 
   private lastDisplayedIndex: number | null = null;
 
+  /** Source of the loaded text (null until something is loaded) */
+  private currentSource: TextSource | null = null;
+  /** Saved position offered for the current text, if any */
+  private resumeIndex: number | null = null;
+  /** A word of the current text was displayed since the last position save */
+  private positionDirty = false;
+  private reachedEnd = false;
+  /** Bumped by every load; an embed resolution finishing after a newer load is dropped */
+  private loadGeneration = 0;
+  /** Frontmatter settings of the loaded note; they win over the saved settings for this load only */
+  private readingOverrides: Partial<DashReaderSettings> | null = null;
+  /** Folder/tag default profile of the loaded file, between the saved settings and readingOverrides */
+  private defaultProfileLayer: { id: string; name: string; values: Partial<DashReaderSettings> } | null = null;
+  /** Start playing the next loaded text right away (reading queue) */
+  private playOnNextLoad = false;
+  /** Blocks replaced by [BLOCK:kind:id] tokens in the loaded text, by id */
+  private blockPlaceholders: BlockPlaceholder[] = [];
+  /** Panel showing a whole block when playback reaches a 'panel' placeholder */
+  private blockPanelEl: HTMLElement | null = null;
+
   // ──────────────────────────────────────────────────────────────────────
   // Constructor
   // ──────────────────────────────────────────────────────────────────────
@@ -273,12 +350,14 @@ private _saveSettingsTimer: number | null = null;
     app: App,
     settings: DashReaderSettings,
     onModalClose?: () => void,
-    onSettingsSave?: () => void
+    onSettingsSave?: () => void,
+    onQueueItemEnd?: () => void
   ) {
     super(app);
     this.settings = settings;
     this.onModalClose = onModalClose;
     this.onSettingsSave = onSettingsSave;
+    this.onQueueItemEnd = onQueueItemEnd;
 
     // Initialize state manager with curyrent settings
     this.state = new ViewState({
@@ -293,6 +372,11 @@ private _saveSettingsTimer: number | null = null;
     // Initialize timeout manager for memory leak prevention
     this.timeoutManager = new TimeoutManager();
 
+    this.positionStore = new ReadingPositionStore(settings);
+    this.sessionTracker = new SessionTracker(settings);
+    this.embedResolver = new EmbedResolver(app, settings);
+    this.pacingProfiles = new PacingProfileManager(settings);
+
     // Initialize RSVP engine with callbacks
     this.engine = new RSVPEngine(
       settings,
@@ -305,7 +389,7 @@ private _saveSettingsTimer: number | null = null;
     // Initialize auto-load manager for editor integration
     this.autoLoadManager = new AutoLoadManager(
       this.app,
-      this.loadText.bind(this) as (text: string, source?: { fileName?: string; lineNumber?: number; cursorPosition?: number }) => void,
+      this.loadText.bind(this) as (text: string, source?: TextSource) => void,
       () => this.mainContainerEl?.isShown() ?? false,
       this.timeoutManager
     );
@@ -342,6 +426,11 @@ private _saveSettingsTimer: number | null = null;
       onPlayStateChange: (isPlaying) => updatePlayPauseButtons(this.dom, isPlaying),
       canAutoResume: () => !this.isAnyInlinePanelOpen()
     });
+    this.bookmarkManager = new BookmarkManager(this.engine, this.timeoutManager, this.settings, {
+      onPlayStateChange: (isPlaying) => updatePlayPauseButtons(this.dom, isPlaying),
+      canAutoResume: () => !this.isAnyInlinePanelOpen(),
+      onChange: () => this.requestSettingsSave(),
+    });
     this.wordDisplay = new WordDisplay(
       this.wordEl,
       this.settings,
@@ -350,7 +439,7 @@ private _saveSettingsTimer: number | null = null;
     );
     this.hotkeyHandler = new HotkeyHandler(this.settings, {
       onTogglePlay: () => this.togglePlay(),
-      onRewind: () => this.engine.rewindSeconds(10),
+      onRewind: () => this.rewind(),
       onForward: () => this.engine.forwardSeconds(10),
       onIncrementWpm: () => this.changeValue('wpm', INCREMENTS.wpm),
       onDecrementWpm: () => this.changeValue('wpm', -INCREMENTS.wpm),
@@ -412,6 +501,9 @@ private _saveSettingsTimer: number | null = null;
     this.isOpen = false;
     this._cleanupRegistered();
 
+    this.saveReadingPosition();
+    this.syncEditorCursor();
+    this.finishReadingSession();
     this.engine.stop();
     this.timeoutManager.clearAll();
     this.dom.clear();
@@ -451,6 +543,41 @@ private _saveSettingsTimer: number | null = null;
   private buildToggleBar(): void {
     this.toggleBar = this.mainContainerEl.createDiv({ cls: CSS_CLASSES.toggleBar });
 
+    createButton(this.toggleBar, {
+      icon: ICONS.bookmarkAdd,
+      title: 'Toggle bookmark at current word (B)',
+      onClick: () => { this.toggleBookmark(); this.defocusInteractiveElements(); },
+      className: CSS_CLASSES.toggleBtn,
+    });
+
+    this.bookmarksBtn = createButton(this.toggleBar, {
+      icon: ICONS.bookmarks,
+      title: 'Bookmarks (Shift+B)',
+      onClick: () => this.showBookmarks(),
+      className: CSS_CLASSES.toggleBtn,
+    });
+
+    createButton(this.toggleBar, {
+      icon: ICONS.search,
+      title: 'Search in the text (/)',
+      onClick: () => { this.showSearch(); this.defocusInteractiveElements(); },
+      className: CSS_CLASSES.toggleBtn,
+    });
+
+    createButton(this.toggleBar, {
+      icon: ICONS.summary,
+      title: 'Summary',
+      onClick: () => { this.showSummary(); this.defocusInteractiveElements(); },
+      className: CSS_CLASSES.toggleBtn,
+    });
+
+    createButton(this.toggleBar, {
+      icon: ICONS.sections,
+      title: 'Sections to read',
+      onClick: () => { this.showSectionFilter(); this.defocusInteractiveElements(); },
+      className: CSS_CLASSES.toggleBtn,
+    });
+
     this.controlsToggleBtn = createButton(this.toggleBar, {
       icon: ICONS.settings,
       title: 'Toggle Settings (S)',
@@ -494,6 +621,12 @@ private _saveSettingsTimer: number | null = null;
       if (!target) return false;
       const clickedInWord = !!target.closest(`.${CSS_CLASSES.word}`);
 
+      // Buttons inside the ready message (e.g. resume) handle their own clicks
+      if (target.closest('.dashreader-ready-action')) return false;
+
+      // The block panel is read/scrolled/selected, not tapped through
+      if (target.closest('.dashreader-block-panel')) return false;
+
       // Don’t toggle if user is interacting with controls/inputs/menus (outside the word area)
       if (!clickedInWord && target.closest('button, a, input, textarea, select, .dashreader-outline-menu')) return false;
 
@@ -584,7 +717,7 @@ private _saveSettingsTimer: number | null = null;
         if (e.ctrlKey || e.metaKey) return; // don't fight zoom gestures
 
         const t = e.target as HTMLElement | null;
-        if (t?.closest('button, a, input, textarea, select, .dashreader-outline-menu')) return;
+        if (t?.closest('button, a, input, textarea, select, .dashreader-outline-menu, .dashreader-block-panel')) return;
 
         e.preventDefault();
 
@@ -630,6 +763,14 @@ private _saveSettingsTimer: number | null = null;
     this.wordEl.style.filter = "none";
     this.dom.register('wordEl', this.wordEl);
 
+    this.skimIndicatorEl = displayArea.createDiv({ cls: 'dashreader-skim-indicator' });
+
+    this.blockPanelEl = displayArea.createDiv({ cls: `dashreader-block-panel ${CSS_CLASSES.hidden}` });
+    this.registerDomEvent(this.blockPanelEl, 'click', (e: Event) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('.dashreader-block-panel-continue') && !this.engine.getIsPlaying()) this.togglePlay();
+    });
+
     this.contextAfterEl = displayArea.createDiv({
       cls: `${CSS_CLASSES.contextAfter} ${showContextNow ? '' : CSS_CLASSES.hidden}`,
     });
@@ -658,6 +799,8 @@ private _saveSettingsTimer: number | null = null;
     this.progressBarEl = this.progressEl.createEl("progress", {
       cls: "metadata-progress rsvp-progress-bar",
     }) as HTMLProgressElement;
+    this.skimTrackEl = this.progressEl.createDiv({ cls: "dashreader-skim-track" });
+    this.searchTrackEl = this.progressEl.createDiv({ cls: "dashreader-search-track" });
 
     this.registerDomEvent(this.progressBarEl, 'pointerdown', (e: PointerEvent) => {
       if (e.button !== 0) return;
@@ -673,7 +816,9 @@ private _saveSettingsTimer: number | null = null;
 
       const targetIndex = Math.min(total - 1, Math.max(0, Math.floor(ratio * (total - 1))));
       const wasPlaying = this.engine.getIsPlaying();
-      this.engine.jumpToIndex(targetIndex);
+      // A click on a skimmed region reads it in full
+      if (this.engine.readSkimmedRegion(targetIndex)) this.renderSkimTrack();
+      else this.engine.jumpToIndex(targetIndex);
 
       this.updateBottomProgressInfo(targetIndex);
 
@@ -730,8 +875,8 @@ private _saveSettingsTimer: number | null = null;
     if (!this.getActiveShowContext() || !this.contextBeforeEl || !this.contextAfterEl) return;
     const idx = this.getContextAnchorIndex();
     const ctx = this.engine.getContextLines(idx, this.getActiveContextLines());
-    this.contextBeforeEl.setText(this.renderContextTokens(ctx.before));
-    this.contextAfterEl.setText(this.renderContextTokens(ctx.after));
+    this.setContextText(this.contextBeforeEl, this.renderContextTokens(ctx.before));
+    this.setContextText(this.contextAfterEl, this.renderContextTokens(ctx.after));
   }
 
   private applyAppearanceCssVars(): void {
@@ -747,6 +892,7 @@ private _saveSettingsTimer: number | null = null;
 
     apply('--dashreader-highlight-color', this.settings.highlightColor);
     apply('--dashreader-font-color', this.settings.fontColor);
+    apply('--dashreader-watch-color', this.settings.watchTermColor);
     apply('--dashreader-background-color', this.settings.backgroundColor);
   }
 
@@ -774,6 +920,7 @@ private _saveSettingsTimer: number | null = null;
     this._contextMeasureHostEl = host;
     this._contextMeasureBeforeEl = mk();
     this._contextMeasureAfterEl = mk();
+    this._passageMeasureEl = mk();
   }
 
   private syncMeasureStyle(fromEl: HTMLElement, measureEl: HTMLElement): void {
@@ -898,6 +1045,15 @@ private _saveSettingsTimer: number | null = null;
     return lines;
   }
 
+  /**
+   * Shows the current position again (e.g. in another presentation mode);
+   * while playing, the next word does it
+   */
+  private redisplayCurrentPosition(): void {
+    if (this.engine.getIsPlaying() || this.lastDisplayedIndex === null || !this.wordDisplay.isShowingText()) return;
+    this.engine.jumpToIndex(this.lastDisplayedIndex);
+  }
+
   private getContextAnchorIndex(): number {
     return this.lastDisplayedIndex ?? this.engine.getCurrentIndex();
   }
@@ -949,8 +1105,8 @@ private _saveSettingsTimer: number | null = null;
     );
 
     // These now contain explicit '\n' at the browser’s own wrap boundaries
-    this.contextBeforeEl.setText(beforeLines.join('\n'));
-    this.contextAfterEl.setText(afterLines.join('\n'));
+    this.setContextText(this.contextBeforeEl, beforeLines.join('\n'));
+    this.setContextText(this.contextAfterEl, afterLines.join('\n'));
   }
 
   private setupContextResizeObserver(): void {
@@ -1003,7 +1159,7 @@ private _saveSettingsTimer: number | null = null;
     createButton(row, {
       icon: "lucide:arrow-left",
       title: "Rewind (←)",
-      onClick: () => { this.engine.rewindSeconds(10); this.defocusInteractiveElements(); },
+      onClick: () => { this.rewind(); this.defocusInteractiveElements(); },
       className: CSS_CLASSES.toggleBtn,
     });
 
@@ -1047,6 +1203,27 @@ private _saveSettingsTimer: number | null = null;
     });
     this.dom.register('settingsEl', this.settingsEl);
 
+    // Pacing profile switcher
+    const profileSelect = createDropdown(this.settingsEl, {
+      label: 'Profile: ',
+      options: [
+        { value: '', label: 'Custom' },
+        ...this.pacingProfiles.getProfiles().map((p) => ({ value: p.id, label: p.name })),
+      ],
+      value: this.settings.activePacingProfile,
+      onChange: (id) => {
+        if (id) {
+          this.applyPacingProfile(id);
+        } else {
+          this.settings.activePacingProfile = '';
+          this.defaultProfileLayer = null;
+          this.updateSettings(this.settings);
+        }
+        this.requestSettingsSave();
+      },
+    });
+    this.dom.register('pacingProfileSelect', profileSelect.select);
+
     // WPM control (duplicate for inline settings)
     createNumberControl(
       this.settingsEl,
@@ -1091,30 +1268,57 @@ private _saveSettingsTimer: number | null = null;
       this.dom
     );
 
+    // Presentation mode (word / sentence / line)
+    const presentationSelect = createDropdown(this.settingsEl, {
+      label: 'Show: ',
+      options: [
+        { value: 'word', label: 'Words' },
+        { value: 'sentence', label: 'Sentence' },
+        { value: 'line', label: 'Line' },
+        { value: 'pacer', label: 'Pacer' },
+      ],
+      value: this.settings.presentationMode,
+      onChange: (mode) => {
+        this.settings.presentationMode = mode as PresentationMode;
+        this.redisplayCurrentPosition();
+        this.requestSettingsSave();
+      },
+    });
+    this.dom.register('presentationSelect', presentationSelect.select);
+
     // Slow Start toggle (replaces Speed Acceleration)
-    createToggleControl(this.settingsEl, {
+    const slowStartToggle = createToggleControl(this.settingsEl, {
       label: 'Slow Start',
-      checked: this.isMobileUI() ? this.settings.mobileEnableSlowStart : this.settings.enableSlowStart,
+      checked: this.isMobileUI() ? this.getEngineSettings().mobileEnableSlowStart : this.getEngineSettings().enableSlowStart,
       onChange: (checked) => {
-        if (this.isMobileUI()) this.settings.mobileEnableSlowStart = checked;
-        else this.settings.enableSlowStart = checked;
-
-        this.engine.updateSettings(this.settings);
+        this.setPacingToggle('enableSlowStart', 'mobileEnableSlowStart', checked);
         this.requestSettingsSave();
       },
     });
 
+    this.dom.register('slowStartToggle', slowStartToggle.checkbox);
+
     // Micropause toggle
-    createToggleControl(this.settingsEl, {
+    const micropauseToggle = createToggleControl(this.settingsEl, {
       label: 'Micropause',
-      checked: this.isMobileUI() ? this.settings.mobileEnableMicropause : this.settings.enableMicropause,
+      checked: this.isMobileUI() ? this.getEngineSettings().mobileEnableMicropause : this.getEngineSettings().enableMicropause,
       onChange: (checked) => {
-        if (this.isMobileUI()) this.settings.mobileEnableMicropause = checked;
-        else this.settings.enableMicropause = checked;
-        this.engine.updateSettings(this.settings);
+        this.setPacingToggle('enableMicropause', 'mobileEnableMicropause', checked);
         this.requestSettingsSave();
       },
     });
+    this.dom.register('micropauseToggle', micropauseToggle.checkbox);
+
+    // Skim toggle
+    const skimToggle = createToggleControl(this.settingsEl, {
+      label: 'Skim',
+      checked: this.getEngineSettings().skimMode,
+      onChange: (checked) => {
+        this.setSkimMode(checked);
+        this.requestSettingsSave();
+      },
+    });
+    this.dom.register('skimToggle', skimToggle.checkbox);
 
     // Breadcrumb toggle
     createToggleControl(this.settingsEl, {
@@ -1184,6 +1388,219 @@ private _saveSettingsTimer: number | null = null;
     );
   }
 
+  /**
+   * Applies a pacing profile and refreshes what shows its values
+   */
+  private applyPacingProfile(id: string): void {
+    if (!this.pacingProfiles.apply(id)) return;
+
+    // Picked by hand: it replaces the file's default for the rest of this load
+    this.defaultProfileLayer = null;
+
+    this.updateSettings(this.settings);
+    this.requestSettingsSave();
+  }
+
+  /**
+   * Layers the folder/tag default profile of a loaded file over the settings
+   * (nothing if the active profile is that one already). The settings are
+   * not changed: the next file without a matching rule reads with them again.
+   */
+  private applyDefaultPacingProfile(source?: TextSource): void {
+    const previous = this.defaultProfileLayer;
+    this.defaultProfileLayer = null;
+    if (!source?.filePath || this.settings.pacingProfileRules.length === 0) return;
+
+    const file = this.app.vault.getAbstractFileByPath(source.filePath);
+    const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+    const tags = cache ? getAllTags(cache) ?? [] : [];
+
+    const profile = this.pacingProfiles.findDefaultProfile(source.filePath, tags);
+    if (!profile || profile.id === this.settings.activePacingProfile) return;
+
+    const values = this.pacingProfiles.getValues(profile.id);
+    if (!values) return;
+    this.defaultProfileLayer = { id: profile.id, name: profile.name, values };
+    this.syncProfileSelect();
+    if (previous?.id !== profile.id) new Notice(`Pacing profile: ${profile.name}`);
+  }
+
+  /**
+   * Settings the engine runs with: the saved settings, with the folder/tag
+   * default profile and then the frontmatter overrides of the loaded note on top
+   */
+  private getEngineSettings(): DashReaderSettings {
+    if (!this.readingOverrides && !this.defaultProfileLayer) return this.settings;
+    return { ...this.settings, ...this.defaultProfileLayer?.values, ...this.readingOverrides };
+  }
+
+  /**
+   * Per-load layer that sets a value (the note's overrides first), null if
+   * the value comes from the saved settings
+   */
+  private getSettingsLayer(key: keyof DashReaderSettings): Partial<DashReaderSettings> | null {
+    if (this.readingOverrides && key in this.readingOverrides) return this.readingOverrides;
+    if (this.defaultProfileLayer && key in this.defaultProfileLayer.values) return this.defaultProfileLayer.values;
+    return null;
+  }
+
+  /**
+   * Reads the dashreader-* frontmatter of the note being loaded
+   *
+   * @returns Headings whose sections the note asks to leave out
+   */
+  private loadReadingOverrides(source?: TextSource): string[] {
+    this.readingOverrides = null;
+    this.noteWatchTerms = [];
+
+    const file = source?.filePath && !source.pdfIndex ? this.app.vault.getAbstractFileByPath(source.filePath) : null;
+    if (!(file instanceof TFile) || file.extension !== 'md') return [];
+
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const overrides = readFrontmatterOverrides(frontmatter, this.settings.pacingProfiles);
+    if (!overrides) return [];
+
+    if (Object.keys(overrides.settings).length > 0) this.readingOverrides = overrides.settings;
+    this.noteWatchTerms = overrides.watchTerms;
+    return overrides.skipSections;
+  }
+
+  /**
+   * Stores a wpm/chunk size change: in the per-load layer that sets that
+   * value (note override, default profile), in the saved settings otherwise
+   */
+  private storePacingValue(key: 'wpm' | 'chunkSize', mobileKey: 'mobileWpm' | 'mobileChunkSize', value: number): void {
+    const layer = this.getSettingsLayer(key);
+    if (layer) {
+      layer[key] = value;
+      layer[mobileKey] = value;
+    } else {
+      this.settings[this.isMobileUI() ? mobileKey : key] = value;
+    }
+  }
+
+  /**
+   * Inline slow start/micropause toggle, stored like storePacingValue
+   */
+  private setPacingToggle(
+    key: 'enableSlowStart' | 'enableMicropause',
+    mobileKey: 'mobileEnableSlowStart' | 'mobileEnableMicropause',
+    checked: boolean
+  ): void {
+    const layer = this.getSettingsLayer(key);
+    if (layer) {
+      layer[key] = checked;
+      layer[mobileKey] = checked;
+    } else {
+      this.settings[this.isMobileUI() ? mobileKey : key] = checked;
+    }
+    this.engine.updateSettings(this.getEngineSettings());
+  }
+
+  private setSkimMode(checked: boolean): void {
+    const layer = this.getSettingsLayer('skimMode');
+    if (layer) layer.skimMode = checked;
+    else this.settings.skimMode = checked;
+    this.engine.updateSettings(this.getEngineSettings());
+    this.renderSkimTrack();
+    this.redisplayCurrentPosition();
+  }
+
+  /**
+   * Marks the skim regions on the progress bar (at their word position)
+   */
+  private renderSkimTrack(): void {
+    if (!this.skimTrackEl) return;
+    this.skimTrackEl.empty();
+
+    const total = this.engine.getTotalWords();
+    if (total === 0) return;
+    for (const region of this.engine.getSkimRegions()) {
+      const el = this.skimTrackEl.createDiv({ cls: "dashreader-skim-region" });
+      el.style.setProperty("--dashreader-skim-left", `${(region.start / total) * 100}%`);
+      el.style.setProperty("--dashreader-skim-width", `${((region.end - region.start + 1) / total) * 100}%`);
+    }
+  }
+
+  /**
+   * Marks the hits of the last search on the progress bar
+   */
+  private renderSearchTrack(): void {
+    if (!this.searchTrackEl) return;
+    this.searchTrackEl.empty();
+
+    const total = this.engine.getTotalWords();
+    if (total === 0) return;
+    for (const hit of this.searchHits) {
+      const el = this.searchTrackEl.createDiv({ cls: "dashreader-search-mark" });
+      el.style.setProperty("--dashreader-search-left", `${(hit.start / total) * 100}%`);
+    }
+  }
+
+  /**
+   * Shows "Skipped N words" for a moment after skim mode jumped
+   */
+  private showSkimIndicator(words: number): void {
+    const el = this.skimIndicatorEl;
+    if (!el) return;
+
+    el.setText(`Skipped ${words} word${words === 1 ? '' : 's'}`);
+    el.addClass('is-visible');
+    if (this.skimIndicatorTimer !== null) this.timeoutManager.clearTimeout(this.skimIndicatorTimer);
+    this.skimIndicatorTimer = this.timeoutManager.setTimeout(() => {
+      this.skimIndicatorTimer = null;
+      el.removeClass('is-visible');
+    }, TIMING.skimIndicator);
+  }
+
+  /**
+   * Inline/controls values that a profile can change, and the profile list
+   */
+  private refreshPacingControls(): void {
+    const wpm = this.engine.getWpm();
+    this.state.set('currentWpm', wpm);
+    this.state.set('currentChunkSize', this.engine.getChunkSize());
+    this.dom.updateMultipleText({
+      wpmValue: String(wpm),
+      wpmInlineValue: String(wpm),
+      chunkValue: String(this.engine.getChunkSize()),
+    });
+
+    const mobile = this.isMobileUI();
+    const effective = this.getEngineSettings();
+    const slowStart = this.dom.get('slowStartToggle');
+    if (slowStart instanceof HTMLInputElement) {
+      slowStart.checked = mobile ? effective.mobileEnableSlowStart : effective.enableSlowStart;
+    }
+    const skim = this.dom.get('skimToggle');
+    if (skim instanceof HTMLInputElement) skim.checked = effective.skimMode;
+    this.renderSkimTrack();
+    const micropause = this.dom.get('micropauseToggle');
+    if (micropause instanceof HTMLInputElement) {
+      micropause.checked = mobile ? effective.mobileEnableMicropause : effective.enableMicropause;
+    }
+    const presentationSelect = this.dom.get('presentationSelect');
+    if (presentationSelect instanceof HTMLSelectElement) {
+      presentationSelect.value = this.settings.presentationMode;
+    }
+    this.syncProfileSelect();
+  }
+
+  /**
+   * Profile switcher options, showing the file's default profile while it applies
+   */
+  private syncProfileSelect(): void {
+    const profileSelect = this.dom.get('pacingProfileSelect');
+    if (!(profileSelect instanceof HTMLSelectElement)) return;
+
+    profileSelect.empty();
+    profileSelect.createEl('option', { value: '', text: 'Custom' });
+    for (const profile of this.pacingProfiles.getProfiles()) {
+      profileSelect.createEl('option', { value: profile.id, text: profile.name });
+    }
+    profileSelect.value = this.defaultProfileLayer?.id ?? this.settings.activePacingProfile;
+  }
+
   private syncBoldColorToTheme(): void {
     const probe = document.createElement('span');
     probe.style.position = 'absolute';
@@ -1250,6 +1667,7 @@ private _saveSettingsTimer: number | null = null;
         const newWpm = this.engine.getWpm() + delta;
         this.engine.setWpm(newWpm);
         const wpm = this.engine.getWpm();
+        this.storePacingValue('wpm', 'mobileWpm', wpm);
         this.state.set('currentWpm', wpm);
 
         this.dom.updateMultipleText({
@@ -1263,6 +1681,7 @@ private _saveSettingsTimer: number | null = null;
         const newSize = this.engine.getChunkSize() + delta;
         this.engine.setChunkSize(newSize);
         const size = this.engine.getChunkSize();
+        this.storePacingValue('chunkSize', 'mobileChunkSize', size);
         this.state.set('currentChunkSize', size);
         this.dom.updateText('chunkValue', size);
         this.wordDisplay?.setChunkSize(size);
@@ -1551,6 +1970,8 @@ private _saveSettingsTimer: number | null = null;
    *
    * Shortcuts:
    * - C: Toggle controls (when not playing)
+   * - R: Resume from saved position (when offered)
+   * - B / Shift+B: Toggle bookmark / list bookmarks
    * - Shift+Space: Play/Pause
    * - Arrow keys: Rewind/Forward, WPM adjustment
    * - Escape: Stop reading
@@ -1594,6 +2015,14 @@ private _saveSettingsTimer: number | null = null;
       return;
     }
 
+    // / or Ctrl/Cmd+F = search in the text
+    if ((!isCmd && !e.altKey && e.key === '/') || (isCmd && !e.altKey && e.key.toLowerCase() === 'f')) {
+      e.preventDefault();
+      this.suppressAutoLoad();
+      this.showSearch();
+      return;
+    }
+
     // Quick toggles for panels (allow anytime; don't steal Ctrl/Cmd+C)
     if (!isCmd && e.key.toLowerCase() === 's') {
       e.preventDefault();
@@ -1602,6 +2031,31 @@ private _saveSettingsTimer: number | null = null;
       return;
     }
 
+    // B = toggle bookmark, Shift+B = bookmark list
+    if (!isCmd && !e.altKey && e.key.toLowerCase() === 'b') {
+      e.preventDefault();
+      this.suppressAutoLoad();
+      if (e.shiftKey) this.showBookmarks();
+      else this.toggleBookmark();
+      return;
+    }
+
+    // N = next watch term hit, Shift+N = previous one
+    if (!isCmd && !e.altKey && e.key.toLowerCase() === 'n') {
+      e.preventDefault();
+      this.suppressAutoLoad();
+      this.jumpToWatchHit(e.shiftKey ? 'prev' : 'next');
+      return;
+    }
+
+    // R = resume from the saved position (only while it is being offered)
+    if (!isCmd && !e.altKey && e.key.toLowerCase() === 'r' && this.resumeIndex !== null) {
+      e.preventDefault();
+      this.suppressAutoLoad();
+      this.resumeFromSavedPosition();
+      return;
+    }
+
     // Delegate hotkey handling to HotkeyHandler
     this.hotkeyHandler.handleKeyPress(e);
     if (e.defaultPrevented) {
@@ -1622,6 +2076,8 @@ private _saveSettingsTimer: number | null = null;
     if (this.engine.getIsPlaying()) {
       this.engine.pause();
       updatePlayPauseButtons(this.dom, false);
+      this.saveReadingPosition();
+      this.sessionTracker.recordPause();
 
       // 3.2: PAUSED => context scroll ON
       this.setContextScrollEnabled(true);
@@ -1651,6 +2107,165 @@ private _saveSettingsTimer: number | null = null;
     this.defocusInteractiveElements();
   }
 
+  /**
+   * Adds a bookmark at the current word (or removes the one already there)
+   */
+  private toggleBookmark(): void {
+    if (this.engine.getTotalWords() === 0) return;
+    const added = this.bookmarkManager.toggle(this.getContextAnchorIndex());
+    new Notice(added ? 'Bookmark added' : 'Bookmark removed', 1500);
+  }
+
+  /**
+   * Opens the bookmark list for the loaded text
+   */
+  private showBookmarks(): void {
+    if (!this.bookmarksBtn || this.engine.getTotalWords() === 0) return;
+    this.bookmarkManager.showMenu(this.bookmarksBtn);
+  }
+
+  /**
+   * Opens the sections dialog; playback pauses while choosing
+   */
+  public showSectionFilter(): void {
+    if (this.engine.getTotalWords() === 0) {
+      new Notice('Load a text to choose its sections');
+      return;
+    }
+    if (this.engine.getIsPlaying()) this.togglePlay();
+
+    new SectionFilterModal(this.app, this.engine.getHeadings(), this.skippedSections, (skipped) => {
+      this.skippedSections = skipped;
+      this.applySectionFilter();
+      this.redisplayCurrentPosition();
+      this.updateBottomProgressInfo();
+    }).open();
+  }
+
+  /**
+   * Passes over the skipped sections; indices stay those of the whole text
+   */
+  private applySectionFilter(): void {
+    const headings = this.engine.getHeadings();
+    this.engine.setHiddenRanges(getSkippedRanges(headings, this.skippedSections, this.engine.getTotalWords()));
+    this.summary = null; // skipped sections are left out of it
+  }
+
+  /**
+   * Opens the search; playback pauses while it is open and resumes when it closes
+   */
+  public showSearch(): void {
+    if (this.engine.getTotalWords() === 0) {
+      new Notice('Load a text to search it');
+      return;
+    }
+    const wasPlaying = this.engine.getIsPlaying();
+    if (wasPlaying) this.togglePlay();
+
+    new SearchModal(this.app, this.lastSearchQuery, this.engine.getTotalWords(), {
+      search: (query) => searchText(this.getSearchIndex(), query, (i) => this.engine.isInSkippedSection(i)),
+      describeLocation: (index) =>
+        this.engine.getCurrentHeadingContext(index).breadcrumb.map((h) => h.text).join(' › '),
+      onResults: (query, hits) => {
+        this.lastSearchQuery = query;
+        this.searchHits = hits;
+        this.renderSearchTrack();
+      },
+      onChoose: (hit) => this.jumpToSearchHit(hit),
+      onClose: () => {
+        if (wasPlaying && !this.engine.getIsPlaying()) this.togglePlay();
+      },
+    }).open();
+  }
+
+  private getSearchIndex(): SearchIndex {
+    if (this.searchIndex?.loadId !== this.loadGeneration) {
+      const total = this.engine.getTotalWords();
+      this.searchIndex = {
+        loadId: this.loadGeneration,
+        index: createSearchIndex(total > 0 ? this.engine.getTokenRange(0, total - 1) : []),
+      };
+    }
+    return this.searchIndex.index;
+  }
+
+  /**
+   * Jumps to a search hit (opening it if skim mode jumps over it); playback keeps its state
+   */
+  private jumpToSearchHit(hit: SearchHit): void {
+    if (this.engine.readSkimmedRegion(hit.start)) this.renderSkimTrack();
+    this.engine.jumpToIndex(hit.start);
+    this.updateBottomProgressInfo();
+  }
+
+  /**
+   * Key sentences of the loaded text, in reading order
+   */
+  private getSummary(): SummarySentence[] {
+    const count = this.settings.summarySentences;
+    const skimMode = this.getEngineSettings().skimMode;
+    if (
+      this.summary?.loadId !== this.loadGeneration ||
+      this.summary.count !== count ||
+      this.summary.skimMode !== skimMode
+    ) {
+      const total = this.engine.getTotalWords();
+      // Sentences playback would pass over (skipped sections, skim mode) are left out
+      const sentences = total > 0
+        ? extractSummary(
+          this.engine.getTokenRange(0, total - 1),
+          count,
+          (i) => this.engine.isHiddenToken(i)
+        )
+        : [];
+      this.summary = { loadId: this.loadGeneration, count, skimMode, sentences };
+    }
+    return this.summary.sentences;
+  }
+
+  /**
+   * Opens the summary list; playback pauses while it is open
+   */
+  public showSummary(): void {
+    if (this.engine.getTotalWords() === 0) {
+      new Notice('Load a text to see its summary');
+      return;
+    }
+    if (this.engine.getIsPlaying()) this.togglePlay();
+
+    new SummaryModal(
+      this.app,
+      this.getSummary(),
+      this.engine.getTotalWords(),
+      (index) => {
+        this.engine.jumpToIndex(index);
+        this.updateBottomProgressInfo();
+      },
+      () => this.playSummary()
+    ).open();
+  }
+
+  /**
+   * Plays the summary sentences, then goes on from the current position
+   */
+  private playSummary(): void {
+    const sentences = this.getSummary();
+    if (sentences.length === 0) {
+      new Notice('This text is too short to summarize');
+      return;
+    }
+    this.engine.startPreview(sentences);
+    if (!this.engine.getIsPlaying()) this.togglePlay();
+  }
+
+  /**
+   * Rewinds 10 seconds (virtual timeline) and counts it in the session log
+   */
+  private rewind(): void {
+    const passage = this.engine.rewindSeconds(10);
+    this.sessionTracker.recordRewind(passage);
+  }
+
   private getIndexFromProgressClientX(clientX: number): number | null {
     const bar = this.progressBarEl;
     if (!bar) return null;
@@ -1692,6 +2307,10 @@ private _saveSettingsTimer: number | null = null;
       );
     }
 
+    if (this.engine.getSkimRegions().some((r) => targetIndex >= r.start && targetIndex <= r.end)) {
+      parts.push("Skimmed, click to read in full");
+    }
+
     return parts.join(" • ");
   }
 
@@ -1745,8 +2364,20 @@ private _saveSettingsTimer: number | null = null;
     const idx0 = typeof wordIndex === "number" ? wordIndex : this.getContextAnchorIndex();
     const at = Math.min(total, Math.max(1, idx0 + 1));
 
-    // left: current word / total
-    this.progressInfoLeftEl.setText(`${at}/${total}`);
+    // left: current word / total (and the summary preview or interval training phase)
+    const phase = this.engine.getIntervalPhase();
+    const preview = this.engine.getPreviewProgress();
+    const left = [`${at}/${total}`];
+    if (preview) left.push(`Summary ${preview.current}/${preview.total}`);
+    const hits = this.getReachableWatchHits();
+    if (hits.length > 0) {
+      const seen = hits.filter((hit) => hit.start <= idx0).length;
+      left.push(`Hits ${seen}/${hits.length}`);
+    }
+    if (phase) left.push(describeIntervalPhase(phase, this.getEngineSettings().intervalUnit));
+    this.progressInfoLeftEl.setText(left.join(' · '));
+    this.progressInfoLeftEl.toggleClass('dashreader-interval-sprint', phase?.kind === 'sprint');
+    this.progressInfoLeftEl.toggleClass('dashreader-interval-recovery', phase?.kind === 'recovery');
 
     // Stable total time based on fixed WPM at load
     const wpm = this.engine.getWpm();
@@ -1758,6 +2389,26 @@ private _saveSettingsTimer: number | null = null;
     );
   }
 
+  /**
+   * Sets a context panel's text, with the watch terms highlighted
+   */
+  private setContextText(el: HTMLElement, text: string): void {
+    const spans = this.watchTerms.length > 0 ? findWatchTermSpans(text, this.watchTerms) : [];
+    if (spans.length === 0) {
+      el.setText(text);
+      return;
+    }
+
+    el.empty();
+    let at = 0;
+    for (const span of spans) {
+      el.appendText(text.slice(at, span.start));
+      el.createSpan({ cls: 'dashreader-watch-term', text: text.slice(span.start, span.end) });
+      at = span.end;
+    }
+    el.appendText(text.slice(at));
+  }
+
   private renderContextTokens(tokens: string[]): string {
     const isBreak = (t: string) => t === '\n' || t === '§§LINEBREAK§§';
 
@@ -1774,7 +2425,7 @@ private _saveSettingsTimer: number | null = null;
       }
 
       // Strip internal markers so context looks like the note
-      const t = raw
+      const t = this.describeBlockMarkers(raw)
         .replace(/^\[H\d\]/, '')
         .replace(/^\[CALLOUT:[\w-]+\]/, '');
 
@@ -1873,6 +2524,43 @@ private _saveSettingsTimer: number | null = null;
   this.engine.jumpToIndex(headings[idx].wordIndex);
   }
 
+  /**
+   * Watch term hits playback can reach (not in skipped sections or skimmed over)
+   */
+  private getReachableWatchHits(): TokenRange[] {
+    return this.engine.getWatchHits().filter((hit) => !this.engine.isHiddenToken(hit.start));
+  }
+
+  /**
+   * Jumps to the next or previous watch term hit (hits in skipped parts excluded)
+   */
+  public jumpToWatchHit(dir: 'prev' | 'next'): void {
+    const hits = this.getReachableWatchHits();
+    if (hits.length === 0) {
+      new Notice(this.watchTerms.length > 0 ? 'No watch terms in this text' : 'No watch terms set');
+      return;
+    }
+
+    const cur = this.getContextAnchorIndex();
+    const target = dir === 'next'
+      ? hits.find((hit) => hit.start > cur)
+      : [...hits].reverse().find((hit) => hit.end < cur);
+    if (!target) {
+      new Notice(dir === 'next' ? 'No more watch terms after this point' : 'No watch terms before this point');
+      return;
+    }
+    this.engine.jumpToIndex(target.start);
+    this.updateBottomProgressInfo();
+  }
+
+  /**
+   * Highlights the watch terms of the settings and of the loaded note
+   */
+  private applyWatchTerms(): void {
+    this.watchTerms = parseWatchTerms([...parseWatchTerms(this.settings.watchTerms), ...this.noteWatchTerms]);
+    this.engine.setWatchTerms(this.watchTerms);
+  }
+
   private applyContextLayout(): void {
     if (!this.contextBeforeEl || !this.contextAfterEl) return;
 
@@ -1915,28 +2603,58 @@ private _saveSettingsTimer: number | null = null;
    */
   private onWordChange(chunk: WordChunk): void {
     this.lastDisplayedIndex = chunk.index;
+    this.positionDirty = true;
+    this.reachedEnd = chunk.isEnd;
+    this.resumeIndex = null;
+
+    if (chunk.isEnd && this.engine.getIsPlaying() && this.currentSource?.fromQueue) {
+      this.scheduleQueueAdvance(chunk.delay);
+    }
+
+    if (this.engine.getIsPlaying()) {
+      const skipped = this.engine.getSkimSkippedBefore(chunk.index);
+      if (skipped > 0) this.showSkimIndicator(skipped);
+
+      const lastIndex = chunk.endIndex ?? chunk.index;
+      this.state.increment('wordsRead', lastIndex - chunk.index + 1);
+      for (let i = chunk.index; i <= lastIndex; i++) {
+        this.sessionTracker.recordWord(
+          this.currentSource,
+          i,
+          this.engine.getTotalWords(),
+          this.engine.getVirtualSpanSeconds(i, i + 1)
+        );
+      }
+    }
     // Detect heading markers [H1], [H2], etc.
     const headingMatch = chunk.text.match(/^\[H(\d)\]/);
     // Detect callout markers [CALLOUT:type]
     const calloutMatch = chunk.text.match(/^\[CALLOUT:([\w-]+)\]/);
 
-    let displayText = chunk.text;
+    let displayText = this.describeBlockMarkers(chunk.text);
     let headingLevel = 0;
     let showSeparator = false;
     let calloutType: string | undefined;
 
     if (headingMatch) {
       headingLevel = parseInt(headingMatch[1]);
-      displayText = chunk.text.replace(/^\[H\d\]/, '');
+      displayText = displayText.replace(/^\[H\d\]/, '');
       showSeparator = false;
     } else if (calloutMatch) {
       calloutType = calloutMatch[1];
-      displayText = chunk.text.replace(/^\[CALLOUT:[\w-]+\]/, '');
+      displayText = displayText.replace(/^\[CALLOUT:[\w-]+\]/, '');
       showSeparator = false;
     }
 
     // Delegate word display to WordDisplay module
-    this.wordDisplay.displayWord(displayText, headingLevel, false, calloutType);
+    if (this.settings.presentationMode === 'word') {
+      this.wordDisplay.displayWord(displayText, headingLevel, false, calloutType, chunk.watchTerms);
+    } else if (this.settings.presentationMode === 'pacer') {
+      this.displayPacer(chunk);
+    } else {
+      this.displayPassage(chunk);
+    }
+    this.updateBlockPanel(chunk.index);
 
     // Update breadcrumb navigation (only if context changed)
     if (chunk.headingContext && this.breadcrumbManager) {
@@ -1956,6 +2674,240 @@ private _saveSettingsTimer: number | null = null;
     this.requestSettingsSave();
   }
 
+  /**
+   * Sentence / line presentation: shows the passage around the chunk with
+   * the chunk's words highlighted
+   */
+  private displayPassage(chunk: WordChunk): void {
+    const range = this.settings.presentationMode === 'line'
+      ? this.getWrappedLineRange(chunk.index)
+      : this.engine.getSentenceRange(chunk.index);
+    const tokens = this.engine.getTokenRange(range.start, range.end);
+    const words = tokens.map((token, k) =>
+      this.engine.isHiddenToken(range.start + k) ? '' : this.toPassageText(token)
+    );
+
+    const first = tokens[0] ?? '';
+    const headingMatch = first.match(/^\[H(\d)\]/);
+    const calloutMatch = first.match(/^\[CALLOUT:([\w-]+)\]/);
+    const lastIndex = Math.min(range.end, chunk.endIndex ?? chunk.index);
+
+    this.wordDisplay.displayPassage(
+      words,
+      chunk.index - range.start,
+      lastIndex - range.start,
+      `${this.loadGeneration}:${range.start}:${range.end}:${this.wordDisplay.getPassageFontSize()}`,
+      headingMatch ? parseInt(headingMatch[1]) : 0,
+      calloutMatch?.[1]
+    );
+  }
+
+  /**
+   * Pacer: the paragraphs around the chunk, with the chunk's words highlighted.
+   * The same paragraphs stay on screen until reading leaves them.
+   */
+  private displayPacer(chunk: WordChunk): void {
+    const paragraph = this.engine.getLineRange(chunk.index);
+    let view = this.pacerWindow;
+    if (!view || view.loadId !== this.loadGeneration || paragraph.start < view.start || paragraph.end > view.end) {
+      const ranges = this.engine.getParagraphRanges(
+        chunk.index,
+        TEXT_LIMITS.pacerParagraphsBefore,
+        TEXT_LIMITS.pacerParagraphsAfter
+      );
+      view = {
+        loadId: this.loadGeneration,
+        start: ranges[0].start,
+        end: ranges[ranges.length - 1].end,
+        blocks: ranges.map((range) => this.toPacerBlock(range)),
+      };
+      this.pacerWindow = view;
+    }
+
+    this.wordDisplay.displayPacer(
+      view.blocks,
+      chunk.index,
+      chunk.endIndex ?? chunk.index,
+      `${view.loadId}:${view.start}:${view.end}:${this.wordDisplay.getPassageFontSize()}`
+    );
+  }
+
+  private toPacerBlock(range: { start: number; end: number }): PacerBlock {
+    const tokens = this.engine.getTokenRange(range.start, range.end);
+    const first = tokens[0] ?? '';
+    const headingMatch = first.match(/^\[H(\d)\]/);
+    const calloutMatch = first.match(/^\[CALLOUT:([\w-]+)\]/);
+
+    return {
+      start: range.start,
+      words: tokens.map((token, k) => this.engine.isHiddenToken(range.start + k) ? '' : this.toPassageText(token)),
+      headingLevel: headingMatch ? parseInt(headingMatch[1]) : 0,
+      calloutType: calloutMatch?.[1],
+    };
+  }
+
+  /**
+   * Token as shown in a passage: block markers described, heading/callout markers removed
+   */
+  private toPassageText(token: string): string {
+    return this.describeBlockMarkers(token)
+      .replace(/^\[H\d\]/, '')
+      .replace(/^\[CALLOUT:[\w-]+\]/, '');
+  }
+
+  /**
+   * Wrapped line (as the browser lays it out in the word area) containing `index`
+   */
+  private getWrappedLineRange(index: number): { start: number; end: number } {
+    const line = this.engine.getLineRange(index);
+    const width = Math.round(this.wordEl.getBoundingClientRect().width);
+    if (width === 0) return line;
+
+    const fontSize = this.wordDisplay.getPassageFontSize();
+    const key = `${this.loadGeneration}:${line.start}:${line.end}:${width}:${fontSize}`;
+    if (this.wrappedLineCache?.key !== key) {
+      this.wrappedLineCache = { key, ranges: this.measureWrappedLines(line, fontSize) };
+    }
+    return this.wrappedLineCache.ranges.find((r) => index >= r.start && index <= r.end) ?? line;
+  }
+
+  /**
+   * Splits a source line into the lines the browser wraps it into, using the
+   * same hidden measuring host as the context lines
+   */
+  private measureWrappedLines(
+    line: { start: number; end: number },
+    fontSize: number
+  ): Array<{ start: number; end: number }> {
+    this.ensureContextMeasureHost();
+    const measureEl = this._passageMeasureEl;
+    if (!measureEl) return [line];
+
+    const tokens = this.engine.getTokenRange(line.start, line.end);
+    this.syncMeasureStyle(this.wordEl, measureEl);
+    measureEl.style.fontSize = `${fontSize}px`;
+    measureEl.style.fontWeight = /^\[(H\d\]|CALLOUT:)/.test(tokens[0] ?? '') ? 'bold' : 'normal';
+    measureEl.empty();
+
+    const spans: Array<{ index: number; el: HTMLElement }> = [];
+    tokens.forEach((token, k) => {
+      if (this.engine.isHiddenToken(line.start + k)) return;
+      if (spans.length) measureEl.appendText(' ');
+      spans.push({ index: line.start + k, el: measureEl.createSpan({ text: this.toPassageText(token) }) });
+    });
+
+    // A new wrapped line starts wherever a word sits lower than the previous one
+    const ranges: Array<{ start: number; end: number }> = [];
+    let top: number | null = null;
+    for (const { index, el } of spans) {
+      const y = Math.round(el.getBoundingClientRect().top);
+      if (top === null || y > top + 1) {
+        ranges.push({ start: index, end: index });
+        top = y;
+      }
+    }
+    measureEl.empty();
+    if (ranges.length === 0) return [line];
+
+    // Hidden tokens belong to the wrapped line before them
+    ranges[0].start = line.start;
+    for (let k = 0; k < ranges.length; k++) {
+      ranges[k].end = k + 1 < ranges.length ? ranges[k + 1].start - 1 : line.end;
+    }
+    return ranges;
+  }
+
+  /**
+   * Moves on to the next queued file once the last word has had its time,
+   * unless the reader rewound or loaded something else meanwhile
+   */
+  private scheduleQueueAdvance(delayMs: number): void {
+    const loadId = this.loadGeneration;
+    this.timeoutManager.setTimeout(() => {
+      if (loadId !== this.loadGeneration || !this.reachedEnd || !this.isOpen) return;
+      this.onQueueItemEnd?.();
+    }, delayMs);
+  }
+
+  /**
+   * Shows a title card for the next queued file, then loads it and keeps playing
+   *
+   * @param load - Loads the file into this view; resolves false if it could not be loaded
+   */
+  public continueWithQueuedItem(title: string, subText: string, load: () => Promise<boolean>): void {
+    this.wordDisplay.displayWelcomeMessage(ICONS.queue, title, subText);
+    this.timeoutManager.setTimeout(() => {
+      if (!this.isOpen) return;
+      this.playOnNextLoad = true;
+      void load().then((loaded) => {
+        if (!loaded) this.playOnNextLoad = false;
+      });
+    }, TIMING.queueTitleCard);
+  }
+
+  /**
+   * Replaces [BLOCK:kind:id] tokens with their description ("[table: 4 rows]")
+   */
+  private describeBlockMarkers(text: string): string {
+    if (text.indexOf('[BLOCK:') < 0) return text;
+    return text.replace(BLOCK_MARKER_RE, (marker: string, _kind: string, id: string) => {
+      const block = this.blockPlaceholders[parseInt(id, 10)];
+      return block ? describeBlockPlaceholder(block) : marker;
+    });
+  }
+
+  /**
+   * Shows the block panel while the focus token is a 'panel' placeholder,
+   * pausing playback on arrival (resuming continues after the block)
+   */
+  private updateBlockPanel(index: number): void {
+    const token = this.engine.getTokenRange(index, index + 1)[0] ?? '';
+    const match = token.match(/^\[BLOCK:\w+:(\d+)\]$/);
+    const block = match ? this.blockPlaceholders[parseInt(match[1], 10)] : undefined;
+
+    if (!block || block.policy !== 'panel') {
+      this.renderBlockPanel(null);
+      return;
+    }
+
+    this.renderBlockPanel(block);
+    if (this.engine.getIsPlaying()) {
+      this.engine.pause();
+      updatePlayPauseButtons(this.dom, false);
+      this.setContextScrollEnabled(true);
+    }
+  }
+
+  private renderBlockPanel(block: BlockPlaceholder | null): void {
+    const panelEl = this.blockPanelEl;
+    if (!panelEl) return;
+
+    if (!block) {
+      if (!panelEl.hasClass(CSS_CLASSES.hidden)) {
+        panelEl.empty();
+        panelEl.addClass(CSS_CLASSES.hidden);
+      }
+      return;
+    }
+
+    panelEl.empty();
+    const header = panelEl.createDiv({ cls: 'dashreader-block-panel-header' });
+    header.createSpan({ text: describeBlockPlaceholder(block) });
+    header.createEl('button', { text: 'Continue', cls: 'dashreader-block-panel-continue' });
+
+    const body = panelEl.createDiv({ cls: 'dashreader-block-panel-body' });
+    if (block.rows) {
+      const table = body.createEl('table');
+      block.rows.forEach((row, i) => {
+        const tr = table.createEl('tr');
+        for (const cell of row) tr.createEl(i === 0 ? 'th' : 'td', { text: cell });
+      });
+    } else {
+      body.createEl('pre').createEl('code', { text: block.content });
+    }
+    panelEl.removeClass(CSS_CLASSES.hidden);
+  }
+
   // ============================================================================
   // SECTION 8: TEXT LOADING
   // ============================================================================
@@ -1965,32 +2917,27 @@ private _saveSettingsTimer: number | null = null;
    *
    * @param text - Raw markdown text
    * @param cursorPosition - Optional cursor position in raw text
-   * @returns Object with plainText and wordIndex
+   * @param embeds - Embedded notes to read in place (see EmbedResolver)
+   * @param skipSections - Headings whose sections are left out (frontmatter)
+   * @returns Object with plainText, wordIndex, the source map of plainText and its block placeholders
    */
   private parseAndCalculateStartPosition(
     text: string,
-    cursorPosition?: number
-  ): { plainText: string; wordIndex?: number } {
+    cursorPosition?: number,
+    embeds: EmbedMap | null = null,
+    skipSections: string[] = []
+  ): { plainText: string; wordIndex?: number; sourceMap: MarkdownSourceMap; placeholders: BlockPlaceholder[] } {
     // Parse markdown FIRST (remove syntax, keep content)
-    const plainText = MarkdownParser.parseToPlainText(text);
-
-    // Calculate word index from cursor position
-    let wordIndex: number | undefined;
-    if (cursorPosition !== undefined) {
-      // Parse text up to cursor position
-      const textUpToCursor = text.substring(0, cursorPosition);
-      const parsedUpToCursor = MarkdownParser.parseToPlainText(textUpToCursor);
+    const { text: plainText, sourceMap, placeholders } = MarkdownParser.parseWithSourceMap(text, {
+      code: this.settings.codeBlockPolicy,
+      table: this.settings.tablePolicy,
+      math: this.settings.mathBlockPolicy,
+    }, embeds, skipSections);
 
-      const cleanedUpToCursor = parsedUpToCursor
-        .replace(/\n+/g, ' §§LINEBREAK§§ ')
-        .replace(/[ \t]+/g, ' ')
-        .trim();
+    // Word under (or right after) the cursor
+    const wordIndex = cursorPosition !== undefined ? sourceMap.sourceOffsetToToken(cursorPosition) : undefined;
 
-      const tokensBeforeCursor = cleanedUpToCursor.split(/\s+/).filter(Boolean);
-      wordIndex = tokensBeforeCursor.length;
-    }
-
-    return { plainText, wordIndex };
+    return { plainText, wordIndex, sourceMap, placeholders };
   }
 
   /**
@@ -2019,10 +2966,171 @@ private _saveSettingsTimer: number | null = null;
       wordIndex,
       durationText,
       source?.fileName,
-      source?.lineNumber
+      source?.lineNumber,
+      this.getResumeOffer()
     );
   }
 
+  /**
+   * Builds the "resume from N%" offer for the ready message, if a saved
+   * position is available for the loaded file
+   */
+  private getResumeOffer(): { percent: number; onResume: () => void } | undefined {
+    if (this.resumeIndex === null) return undefined;
+    const total = Math.max(1, this.engine.getTotalWords());
+    return {
+      percent: Math.round((this.resumeIndex / total) * 100),
+      onResume: () => this.resumeFromSavedPosition(),
+    };
+  }
+
+  /**
+   * Jumps to the saved position offered for the current text
+   */
+  private resumeFromSavedPosition(): void {
+    const index = this.resumeIndex;
+    if (index === null) return;
+
+    this.resumeIndex = null;
+    this.engine.jumpToIndex(index);
+    this.sessionStartIndex = this.getContextAnchorIndex();
+    this.sessionTotalTokens = Math.max(1, this.engine.getTotalWords() - this.sessionStartIndex);
+    this.buildInitialBreadcrumb(this.sessionStartIndex);
+    this.defocusInteractiveElements();
+  }
+
+  /**
+   * Ends the running reading session, appends it to the session log and
+   * writes the digest note (if enabled)
+   * Must run before the engine text is replaced: the digest reads headings
+   * and rewound passages from the current text.
+   */
+  private finishReadingSession(): void {
+    const done = this.sessionTracker.finish();
+    if (!done) return;
+    if (done.logged) this.requestSettingsSave();
+    if (this.settings.writeSessionDigest) this.writeSessionDigest(done);
+  }
+
+  /**
+   * Renders the digest of a finished session and appends it to
+   * `<digest folder>/<source name>.md`
+   */
+  private writeSessionDigest(done: CompletedSession): void {
+    const source = this.currentSource;
+    const file = source?.filePath ? this.app.vault.getAbstractFileByPath(source.filePath) : null;
+    const linktext = file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, '') : null;
+    const fileName = file instanceof TFile ? file.basename : (source?.fileName ?? 'Selection');
+    const pdfIndex = source?.pdfIndex;
+
+    const sectionAt = (index: number): DigestSection => {
+      if (pdfIndex) {
+        const page = (pdfIndex.tokenMeta[index]?.pageIndex ?? 0) + 1;
+        return {
+          key: `page-${page}`,
+          title: `Page ${page}`,
+          link: linktext ? `[[${linktext}#page=${page}|Page ${page}]]` : null,
+        };
+      }
+
+      const headings = this.engine.getCurrentHeadingContext(index).breadcrumb.filter((h) => h.level >= 1);
+      const heading = headings[headings.length - 1];
+      if (!heading) return { key: '', title: fileName, link: linktext ? `[[${linktext}]]` : null };
+
+      // Obsidian links to the heading as written, Markdown included
+      const title = sanitizeLinkText(heading.text);
+      const target = file instanceof TFile ? this.getSourceHeadingText(file, heading.wordIndex) : null;
+      return {
+        key: `heading-${heading.wordIndex}`,
+        title,
+        link: linktext ? `[[${linktext}#${sanitizeLinkText(target ?? heading.text)}|${title}]]` : null,
+      };
+    };
+
+    const entry = buildSessionDigest(done, {
+      template: this.settings.digestTemplate,
+      fileName,
+      fileLink: linktext ? `[[${linktext}]]` : null,
+      sectionAt,
+      passageText: (start, end) => joinEngineTokens(this.engine.getTokenRange(start, end)),
+    });
+
+    const folder = this.settings.digestFolder.trim().replace(/\/+$/, '');
+    const notePath = `${folder ? `${folder}/` : ''}${fileName.replace(/[\\/:*?"<>|]/g, '-')}.md`;
+
+    void appendDigestEntry(this.app, notePath, entry, `# ${fileName} reading log\n`).catch((e) => {
+      console.error('[DashReader] writing session digest failed', e);
+      new Notice('Failed to write the session digest (see console)');
+    });
+  }
+
+  /**
+   * Source text of the heading at a token, from the metadata cache; null
+   * without source map (PDF, plain text) or outside the note's own headings
+   * (embedded notes)
+   */
+  private getSourceHeadingText(file: TFile, wordIndex: number): string | null {
+    const offset = this.engine.getSourceOffset(wordIndex);
+    if (offset === null) return null;
+
+    const headings = this.app.metadataCache.getFileCache(file)?.headings ?? [];
+    const heading = headings.find((h) => h.position.start.offset <= offset && offset <= h.position.end.offset);
+    return heading?.heading ?? null;
+  }
+
+  /**
+   * Moves the source note's editor cursor to the current word (on close)
+   * Whole-note Markdown loads only: the engine's source map turns the word
+   * index back into a character offset.
+   */
+  private syncEditorCursor(): void {
+    const source = this.currentSource;
+    if (!this.settings.syncCursorOnClose || !source?.filePath || source.pdfIndex) return;
+
+    const offset = this.engine.getSourceOffset(this.getContextAnchorIndex());
+    if (offset === null) return;
+
+    const view = this.findMarkdownView(source.filePath);
+    if (!view) return;
+
+    const editor = view.editor;
+    const pos = editor.offsetToPos(offset);
+    editor.setCursor(pos);
+    editor.scrollIntoView({ from: pos, to: pos }, true);
+    editor.focus();
+  }
+
+  /**
+   * Markdown view showing a file (active view first)
+   */
+  private findMarkdownView(filePath: string): MarkdownView | null {
+    const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (active?.file?.path === filePath) return active;
+
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      if (leaf.view instanceof MarkdownView && leaf.view.file?.path === filePath) return leaf.view;
+    }
+    return null;
+  }
+
+  /**
+   * Stores the current position of a whole-file load
+   * No-op until a word of the current text has been displayed, so loading a
+   * file and closing again never overwrites an older saved position.
+   */
+  private saveReadingPosition(): void {
+    // Summary sentences are not where the reader is in the text
+    if (!this.positionDirty || !this.currentSource || this.engine.getPreviewProgress()) return;
+    this.positionDirty = false;
+
+    const total = this.engine.getTotalWords();
+    const index = this.reachedEnd ? total : this.getContextAnchorIndex();
+    const words = this.engine.getTokenRange(0, total - 1);
+    if (this.positionStore.save(this.currentSource, index, words, this.engine.getSourceOffset(index))) {
+      this.requestSettingsSave();
+    }
+  }
+
   /**
    * Builds and displays initial breadcrumb based on starting position
    *
@@ -2045,23 +3153,27 @@ private _saveSettingsTimer: number | null = null;
   private handleAutoStart(): void {
     if (!this.settings.autoStart) return;
 
-    this.timeoutManager.setTimeout(() => {
-      this.suppressContextUntilPlay = false;
-      this.toggleContextDisplay();
-      this.engine.play();
-      if (this.getActiveShowContext()) this.scheduleContextUpdate(this.getContextAnchorIndex());
-      updatePlayPauseButtons(this.dom, true);
-      this.state.set('startTime', Date.now());
+    this.timeoutManager.setTimeout(() => this.startPlayback(), this.settings.autoStartDelay * 1000);
+  }
 
-      // Auto-start is playing => context scroll OFF
-      this.setContextScrollEnabled(false);
-    }, this.settings.autoStartDelay * 1000);
+  private startPlayback(): void {
+    this.suppressContextUntilPlay = false;
+    this.toggleContextDisplay();
+    this.engine.play();
+    if (this.getActiveShowContext()) this.scheduleContextUpdate(this.getContextAnchorIndex());
+    updatePlayPauseButtons(this.dom, true);
+    this.state.set('startTime', Date.now());
+
+    // Auto-start is playing => context scroll OFF
+    this.setContextScrollEnabled(false);
   }
 
   private loadPreparedText(
     plainText: string,
     wordIndexFromCursor: number | undefined,
-    source?: { fileName?: string; lineNumber?: number; cursorPosition?: number }
+    source?: TextSource,
+    sourceMap?: MarkdownSourceMap,
+    placeholders: BlockPlaceholder[] = []
   ): void {
     if (!this.isInitialized) {
       // Queue as plain load so we don't re-parse later
@@ -2070,6 +3182,13 @@ private _saveSettingsTimer: number | null = null;
       return;
     }
 
+    const playNow = this.playOnNextLoad;
+    this.playOnNextLoad = false;
+
+    // Remember where the previous text was left before replacing it
+    this.saveReadingPosition();
+    this.finishReadingSession();
+
     // Always reset session state before loading new text/index (playing OR paused)
     this.engine.stop();
     updatePlayPauseButtons(this.dom, false);
@@ -2085,10 +3204,41 @@ private _saveSettingsTimer: number | null = null;
       return;
     }
 
+    // Folder/tag default pacing, then the note's own overrides, before the timeline is built
+    this.applyDefaultPacingProfile(source);
+    this.engine.updateSettings(this.getEngineSettings());
+
     // Load text into engine
     this.engine.setText(plainText, undefined, wordIndexFromCursor);
+    this.engine.setSourceMap(sourceMap ?? null);
+    this.applyWatchTerms();
+    this.skippedSections = matchSkippedHeadings(this.engine.getHeadings(), this.settings.sectionSkipPattern, 'skip');
+    this.applySectionFilter();
+    this.renderSkimTrack();
+    this.searchHits = [];
+    this.renderSearchTrack();
+    this.blockPlaceholders = placeholders;
+    this.renderBlockPanel(null);
     this.state.update({ wordsRead: 0, startTime: 0 });
 
+    this.currentSource = source ?? null;
+    const filePath = source?.filePath ?? null;
+    this.bookmarkManager.setSource(
+      filePath,
+      filePath && this.engine.hasSourceMap() && !source?.pdfIndex
+        ? (wordIndex) => this.engine.getSourceLine(wordIndex)
+        : null,
+      !source?.pdfIndex
+    );
+    this.positionDirty = false;
+    this.reachedEnd = false;
+    const savedIndex = this.positionStore.resolve(
+      source,
+      this.engine.getTokenRange(0, this.engine.getTotalWords() - 1),
+      (offset) => this.engine.getTokenAtSourceOffset(offset)
+    );
+    this.resumeIndex = savedIndex !== null && savedIndex !== this.engine.getCurrentIndex() ? savedIndex : null;
+
     this.sessionStartIndex = this.getContextAnchorIndex();
     this.sessionTotalTokens = Math.max(1, this.engine.getTotalWords() - this.sessionStartIndex);
     this.sessionTotalDurationSec = this.engine.getEstimatedDuration();
@@ -2112,13 +3262,24 @@ private _saveSettingsTimer: number | null = null;
       this.scheduleContextUpdate(this.getContextAnchorIndex());
     }
 
-    // Auto-start reading if enabled
-    this.handleAutoStart();
+    // Key sentences first when reading from the start (resuming ends the preview)
+    if (this.settings.summaryPreview && this.engine.getCurrentIndex() === 0) {
+      this.engine.startPreview(this.getSummary());
+    }
+
+    // Queued texts continue right away (from the saved position, if any);
+    // otherwise auto-start reading if enabled
+    if (playNow) {
+      this.resumeFromSavedPosition();
+      this.startPlayback();
+    } else {
+      this.handleAutoStart();
+    }
   }
 
   public loadPlainText(
     plainText: string,
-    source?: { fileName?: string; lineNumber?: number; cursorPosition?: number }
+    source?: TextSource
   ): void {
     if (!this.isInitialized) {
       this.pendingLoad = { text: plainText, source, isPlain: true };
@@ -2126,6 +3287,9 @@ private _saveSettingsTimer: number | null = null;
       return;
     }
 
+    this.loadGeneration++;
+    this.readingOverrides = null;
+    this.noteWatchTerms = [];
     const startWordIndex = typeof source?.cursorPosition === 'number' ? source.cursorPosition : undefined;
     this.loadPreparedText(plainText, startWordIndex, source);
   }
@@ -2147,7 +3311,7 @@ private _saveSettingsTimer: number | null = null;
    */
   public loadText(
     text: string,
-    source?: { fileName?: string; lineNumber?: number; cursorPosition?: number }
+    source?: TextSource
   ): void {
     if (!this.isInitialized) {
       this.pendingLoad = { text, source, isPlain: false };
@@ -2160,6 +3324,10 @@ private _saveSettingsTimer: number | null = null;
       this.autoLoadManager.syncStateToEditor();
     }
 
+    // Remember where the previous text was left before the engine is reset
+    this.saveReadingPosition();
+    this.finishReadingSession();
+
     // Always reset session state before loading new text/index (playing OR paused)
     this.engine.stop();
     updatePlayPauseButtons(this.dom, false);
@@ -2171,13 +3339,46 @@ private _saveSettingsTimer: number | null = null;
     // Reset breadcrumb context for new text
     this.breadcrumbManager.reset();
 
+    const loadId = ++this.loadGeneration;
+    if (this.settings.expandEmbeds && EmbedResolver.hasEmbeds(text)) {
+      void this.loadTextWithEmbeds(text, source, loadId);
+      return;
+    }
+
+    this.parseAndLoadText(text, source, null);
+  }
+
+  /**
+   * Fetches the embedded notes, then loads the text (unless a newer load
+   * started or the reader closed in the meantime)
+   */
+  private async loadTextWithEmbeds(text: string, source: TextSource | undefined, loadId: number): Promise<void> {
+    const sourcePath = source?.filePath ?? this.app.workspace.getActiveFile()?.path ?? '';
+    let embeds: EmbedMap | null = null;
+    try {
+      embeds = await this.embedResolver.resolve(text, sourcePath);
+    } catch (error) {
+      console.error('[DashReader] Failed to expand embeds', error);
+      new Notice('Could not read embedded notes; loading the note without them');
+    }
+
+    if (loadId !== this.loadGeneration || !this.isOpen) return;
+    this.parseAndLoadText(text, source, embeds);
+  }
+
+  private parseAndLoadText(text: string, source: TextSource | undefined, embeds: EmbedMap | null): void {
+    // Per-note frontmatter overrides (reset for notes without any)
+    const skipSections = this.loadReadingOverrides(source);
+
     // Parse markdown and calculate start position
-    const { plainText, wordIndex: wordIndexFromCursor } = this.parseAndCalculateStartPosition(
+    const { plainText, wordIndex: wordIndexFromCursor, sourceMap, placeholders } = this.parseAndCalculateStartPosition(
       text,
-      source?.cursorPosition
+      source?.cursorPosition,
+      embeds,
+      skipSections
     );
 
-    this.loadPreparedText(plainText, wordIndexFromCursor, source);
+    this.loadPreparedText(plainText, wordIndexFromCursor, source, sourceMap, placeholders);
   }
 
   // ============================================================================
@@ -2200,8 +3401,15 @@ private _saveSettingsTimer: number | null = null;
   }
 
   public updateSettings(settings: DashReaderSettings): void {
+    const presentationChanged = settings.presentationMode !== this.settings.presentationMode;
+    const watchTermsChanged = settings.watchTerms !== this.settings.watchTerms;
     this.settings = settings;
-    this.engine.updateSettings(settings);
+    this.engine.updateSettings(this.getEngineSettings());
+    this.positionStore.updateSettings(settings);
+    this.sessionTracker.updateSettings(settings);
+    this.embedResolver.updateSettings(settings);
+    this.pacingProfiles.updateSettings(settings);
+    this.bookmarkManager?.updateSettings(settings);
     this.engine.setUseMobileProfile(this.isMobileUI());
     this.applyContextLayout();
     this.applyAppearanceCssVars();
@@ -2222,6 +3430,12 @@ private _saveSettingsTimer: number | null = null;
     this.wordDisplay?.updateSettings(this.settings);
     this.toggleContextDisplay();
     this.toggleBreadcrumbDisplay();
+    this.refreshPacingControls();
+    if (watchTermsChanged) {
+      this.applyWatchTerms();
+      this.updateBottomProgressInfo();
+    }
+    if (presentationChanged || watchTermsChanged) this.redisplayCurrentPosition();
   }
 }
 
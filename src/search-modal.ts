@@ -0,0 +1,87 @@
+/**
+ * SearchModal - Searches the loaded text
+ *
+ * Responsibilities:
+ * - Search as you type (services/text-search.ts) and list the hits with
+ *   their snippet and heading path
+ * - Report the hits of the current query (progress bar marks)
+ * - Hand the chosen hit to onChoose
+ *
+ * The view pauses playback while the search is open and resumes it on close;
+ * a hit chosen while playing is jumped to without stopping.
+ */
+
+import { App, SuggestModal } from 'obsidian';
+import { SearchHit } from './services/text-search';
+
+export interface SearchModalCallbacks {
+  search: (query: string) => SearchHit[];
+  /** Heading path of a word ('' before the first heading) */
+  describeLocation: (index: number) => string;
+  /** Hits of the current query (all of them, not only those listed) */
+  onResults: (query: string, hits: SearchHit[]) => void;
+  onChoose: (hit: SearchHit) => void;
+  onClose: () => void;
+}
+
+export class SearchModal extends SuggestModal<SearchHit> {
+  private callbacks: SearchModalCallbacks;
+  private initialQuery: string;
+  private totalWords: number;
+
+  constructor(app: App, initialQuery: string, totalWords: number, callbacks: SearchModalCallbacks) {
+    super(app);
+    this.callbacks = callbacks;
+    this.initialQuery = initialQuery;
+    this.totalWords = totalWords;
+    this.limit = 200;
+    this.emptyStateText = 'No matches';
+    this.setPlaceholder('Search the text');
+    this.setInstructions([
+      { command: '↑↓', purpose: 'to navigate' },
+      { command: '↵', purpose: 'to jump to the hit' },
+      { command: 'esc', purpose: 'to dismiss' },
+    ]);
+  }
+
+  onOpen(): void {
+    void super.onOpen();
+    this.modalEl.addClass('dashreader-search-modal');
+    if (this.initialQuery) {
+      this.inputEl.value = this.initialQuery;
+      this.inputEl.select();
+      this.inputEl.dispatchEvent(new Event('input'));
+    }
+  }
+
+  onClose(): void {
+    super.onClose();
+    this.callbacks.onClose();
+  }
+
+  getSuggestions(query: string): SearchHit[] {
+    const hits = this.callbacks.search(query);
+    this.callbacks.onResults(query, hits);
+    return hits;
+  }
+
+  renderSuggestion(hit: SearchHit, el: HTMLElement): void {
+    el.addClass('dashreader-search-item');
+
+    const snippet = el.createDiv({ cls: 'dashreader-search-snippet' });
+    snippet.appendText(hit.before ? `${hit.before} ` : '');
+    snippet.createEl('mark', { text: hit.match });
+    snippet.appendText(hit.after ? ` ${hit.after}` : '');
+
+    const percent = Math.round((hit.start / Math.max(1, this.totalWords)) * 100);
+    const location = this.callbacks.describeLocation(hit.start);
+    el.createDiv({
+      cls: 'dashreader-search-location',
+      text: location ? `${percent}% · ${location}` : `${percent}%`,
+    });
+  }
+
+  onChooseSuggestion(hit: SearchHit): void {
+    this.callbacks.onChoose(hit);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * SectionFilterModal - Picks the sections of the text to read
+ *
+ * Responsibilities:
+ * - List the headings as an indented outline with a checkbox each
+ * - (Un)ticking a heading does the same to its subsections, which can then
+ *   be changed one by one
+ * - Read all / skip or read only the sections matching a pattern
+ *
+ * The choice is handed to onApply as the word indices of the skipped
+ * headings (see services/section-filter.ts).
+ */
+
+import { App, Modal } from 'obsidian';
+import { HeadingInfo } from './types';
+import {
+  getSectionHeadings,
+  getSubsectionHeadings,
+  matchSkippedHeadings,
+  PREAMBLE_KEY,
+} from './services/section-filter';
+
+export class SectionFilterModal extends Modal {
+  private headings: HeadingInfo[];
+  private skipped: Set<number>;
+  private onApply: (skipped: Set<number>) => void;
+  private checkboxes = new Map<number, HTMLInputElement>();
+
+  constructor(app: App, headings: HeadingInfo[], skipped: ReadonlySet<number>, onApply: (skipped: Set<number>) => void) {
+    super(app);
+    this.headings = headings;
+    this.skipped = new Set(skipped);
+    this.onApply = onApply;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('dashreader-sections-modal');
+    this.setTitle('Sections to read');
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.checkboxes.clear();
+
+    const sections = getSectionHeadings(this.headings);
+    if (sections.length === 0) {
+      contentEl.createDiv({ cls: 'dashreader-sections-empty', text: 'This text has no headings.' });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: 'dashreader-sections-list' });
+    const topLevel = Math.min(...sections.map((h) => h.level));
+
+    if (sections[0].wordIndex > 0) {
+      this.addRow(list, PREAMBLE_KEY, 'Beginning (before the first heading)', 0, []);
+    }
+    for (const heading of sections) {
+      const subsections = getSubsectionHeadings(this.headings, heading).map((h) => h.wordIndex);
+      this.addRow(list, heading.wordIndex, heading.text, heading.level - topLevel, subsections);
+    }
+
+    const patternRow = contentEl.createDiv({ cls: 'dashreader-sections-pattern' });
+    const patternInput = patternRow.createEl('input', {
+      type: 'text',
+      attr: { placeholder: 'Results|discussion' },
+    });
+    const skipBtn = patternRow.createEl('button', { text: 'Skip matching' });
+    skipBtn.addEventListener('click', () => {
+      for (const key of matchSkippedHeadings(this.headings, patternInput.value, 'skip')) this.skipped.add(key);
+      this.syncCheckboxes();
+    });
+    const onlyBtn = patternRow.createEl('button', { text: 'Read only matching' });
+    onlyBtn.addEventListener('click', () => {
+      const skipped = matchSkippedHeadings(this.headings, patternInput.value, 'only');
+      if (skipped.size === 0) return; // empty or invalid pattern
+      this.skipped = skipped;
+      this.syncCheckboxes();
+    });
+
+    const actions = contentEl.createDiv({ cls: 'dashreader-sections-actions' });
+    const allBtn = actions.createEl('button', { text: 'Read all' });
+    allBtn.addEventListener('click', () => {
+      this.skipped.clear();
+      this.syncCheckboxes();
+    });
+
+    const applyBtn = actions.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+    applyBtn.addEventListener('click', () => {
+      this.close();
+      this.onApply(this.skipped);
+    });
+  }
+
+  /**
+   * @param keys - Headings switched together with this one (itself and its subsections)
+   */
+  private addRow(list: HTMLElement, key: number, text: string, depth: number, keys: number[]): void {
+    const row = list.createEl('label', { cls: 'dashreader-sections-item' });
+    row.style.setProperty('--dashreader-section-depth', String(depth));
+    if (key === PREAMBLE_KEY) row.addClass('dashreader-sections-preamble');
+
+    const checkbox = row.createEl('input', { type: 'checkbox' });
+    checkbox.checked = !this.skipped.has(key);
+    checkbox.addEventListener('change', () => {
+      for (const k of keys.length ? keys : [key]) {
+        if (checkbox.checked) this.skipped.delete(k);
+        else this.skipped.add(k);
+      }
+      this.syncCheckboxes();
+    });
+    row.createSpan({ text });
+
+    this.checkboxes.set(key, checkbox);
+  }
+
+  private syncCheckboxes(): void {
+    for (const [key, checkbox] of this.checkboxes) checkbox.checked = !this.skipped.has(key);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Acceleration curves - Reading speed as a function of reading progress
+ *
+ * PURPOSE
+ * ───────
+ * Acceleration moves the speed from the base WPM to the target WPM. The
+ * curve decides how:
+ * - linear: evenly over the acceleration duration
+ * - ease-in: slowly at first, faster towards the end of the duration
+ * - steps: +N wpm every few sentences, until the target
+ * - sine: back and forth between base and target, one cycle per duration
+ * - words: evenly over a number of words instead of seconds
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - One function for the WPM at a point of a session, shared by playback
+ *   and the virtual timeline (so ETAs follow the same curve)
+ * - Simulated WPM-over-time samples for the settings preview chart
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const wpm = getAcceleratedWpm(settings, 300, { elapsedSec: 12, wordsRead: 60, sentencesRead: 4 });
+ * const points = previewAccelerationCurve(settings, settings.wpm); // [{ seconds, wpm }, …]
+ * ```
+ */
+
+import { DashReaderSettings } from '../types';
+
+/** How far a session has gone, in the units the curves use */
+export interface ReadingProgress {
+  /** Reading seconds since playback started (pauses excluded) */
+  elapsedSec: number;
+  /** Words shown since playback started */
+  wordsRead: number;
+  /** Sentences finished since playback started */
+  sentencesRead: number;
+}
+
+export type AccelerationSettings = Pick<
+  DashReaderSettings,
+  | 'enableAcceleration'
+  | 'accelerationCurve'
+  | 'accelerationDuration'
+  | 'accelerationTargetWpm'
+  | 'accelerationRampWords'
+  | 'accelerationStepSentences'
+  | 'accelerationStepWpm'
+>;
+
+export interface CurvePoint {
+  seconds: number;
+  wpm: number;
+}
+
+/** Sentence length assumed by the preview (for the steps curve) */
+const PREVIEW_WORDS_PER_SENTENCE = 15;
+
+/** Safety cap for the preview simulation */
+const PREVIEW_MAX_WORDS = 20000;
+
+/**
+ * WPM at a point of a session
+ *
+ * @param settings - Acceleration settings
+ * @param startWpm - Base speed the session started at
+ * @param progress - Time, words and sentences read so far
+ */
+export function getAcceleratedWpm(
+  settings: AccelerationSettings,
+  startWpm: number,
+  progress: ReadingProgress
+): number {
+  if (!settings.enableAcceleration) return startWpm;
+
+  const target = settings.accelerationTargetWpm;
+  const span = target - startWpm;
+  const duration = Math.max(1, settings.accelerationDuration);
+  const timeProgress = Math.min(1, Math.max(0, progress.elapsedSec / duration));
+
+  switch (settings.accelerationCurve) {
+    case 'ease-in':
+      return Math.round(startWpm + span * timeProgress * timeProgress);
+
+    case 'steps': {
+      const steps = Math.floor(progress.sentencesRead / Math.max(1, settings.accelerationStepSentences));
+      const wpm = startWpm + Math.sign(span) * steps * settings.accelerationStepWpm;
+      return Math.round(span >= 0 ? Math.min(target, wpm) : Math.max(target, wpm));
+    }
+
+    case 'sine': {
+      const phase = (Math.max(0, progress.elapsedSec) / duration) * 2 * Math.PI;
+      return Math.round(startWpm + span * (1 - Math.cos(phase)) / 2);
+    }
+
+    case 'words': {
+      const wordProgress = Math.min(1, progress.wordsRead / Math.max(1, settings.accelerationRampWords));
+      return Math.round(startWpm + span * wordProgress);
+    }
+
+    case 'linear':
+    default:
+      return Math.round(startWpm + span * timeProgress);
+  }
+}
+
+/**
+ * WPM over time for a simulated session (plain words, no micropauses)
+ *
+ * Time-based curves are shown a little past their duration (two cycles
+ * for sine); word and sentence based ones until a while after they reach
+ * the target.
+ *
+ * @param settings - Acceleration settings (acceleration is previewed even if disabled)
+ * @param startWpm - Base speed
+ * @param points - Number of samples returned
+ */
+export function previewAccelerationCurve(
+  settings: AccelerationSettings,
+  startWpm: number,
+  points: number = 60
+): CurvePoint[] {
+  const curveSettings = { ...settings, enableAcceleration: true };
+  const duration = Math.max(1, settings.accelerationDuration);
+  const fixedHorizon =
+    settings.accelerationCurve === 'sine'
+      ? duration * 2
+      : settings.accelerationCurve === 'linear' || settings.accelerationCurve === 'ease-in'
+        ? duration * 1.5
+        : null;
+
+  const samples: CurvePoint[] = [];
+  let seconds = 0;
+  let reachedAt: number | null = null;
+
+  for (let words = 0; words < PREVIEW_MAX_WORDS; words++) {
+    const wpm = getAcceleratedWpm(curveSettings, startWpm, {
+      elapsedSec: seconds,
+      wordsRead: words,
+      sentencesRead: Math.floor(words / PREVIEW_WORDS_PER_SENTENCE),
+    });
+    samples.push({ seconds, wpm });
+
+    if (reachedAt === null && wpm === settings.accelerationTargetWpm) reachedAt = seconds;
+    const horizon = fixedHorizon ?? (reachedAt !== null ? Math.max(10, reachedAt * 1.25) : Infinity);
+    if (seconds >= horizon) break;
+
+    seconds += 60 / Math.max(1, wpm);
+  }
+
+  return downsample(samples, points);
+}
+
+/** Evenly spaced (in time) subset of the samples, last sample included */
+function downsample(samples: CurvePoint[], points: number): CurvePoint[] {
+  if (samples.length <= points) return samples;
+
+  const end = samples[samples.length - 1].seconds;
+  const result: CurvePoint[] = [];
+  let i = 0;
+  for (let k = 0; k < points; k++) {
+    const t = (end * k) / (points - 1);
+    while (i < samples.length - 1 && samples[i + 1].seconds <= t) i++;
+    result.push({ seconds: t, wpm: samples[i].wpm });
+  }
+  return result;
+}
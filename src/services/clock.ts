@@ -0,0 +1,170 @@
+/**
+ * Clock - Time source and timer scheduler used by playback
+ *
+ * PURPOSE
+ * ───────
+ * The engine's word timing, acceleration and drift correction depend on
+ * "now" and on when timers fire. Reading both through one interface lets
+ * playback run against the real clock in Obsidian and against a manual
+ * clock headlessly, where time only moves when told to.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Clock: current time (wall-clock and monotonic) and timeouts/intervals
+ * - systemClock: Date.now(), performance.now() and window timers
+ * - FakeClock: manual time; advance() fires due timers in order, stall()
+ *   moves time without firing them (a throttled tab)
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const clock = new FakeClock();
+ * const engine = new RSVPEngine(settings, onWord, new TimeoutManager(clock));
+ * engine.play();        // first word shown
+ * clock.advance(100);   // words due within 100 ms shown
+ * clock.stall(1000);    // tab frozen for a second
+ * clock.advanceToNext();
+ * ```
+ */
+
+export interface Clock {
+  /** Wall-clock time in milliseconds (session start, pauses, acceleration) */
+  now(): number;
+  /** Monotonic time in milliseconds (tick scheduling) */
+  monotonicNow(): number;
+  setTimeout(callback: () => void, delay: number): number;
+  clearTimeout(id: number): void;
+  setInterval(callback: () => void, delay: number): number;
+  clearInterval(id: number): void;
+}
+
+/**
+ * The real clock: Date.now(), performance.now() (Date.now() if missing) and window timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  monotonicNow: () =>
+    typeof performance !== 'undefined' && typeof performance.now === 'function'
+      ? performance.now()
+      : Date.now(),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: (id) => window.clearTimeout(id),
+  setInterval: (callback, delay) => window.setInterval(callback, delay),
+  clearInterval: (id) => window.clearInterval(id),
+};
+
+interface FakeTimer {
+  dueMs: number;
+  callback: () => void;
+  /** Repeat period for intervals, null for timeouts */
+  intervalMs: number | null;
+}
+
+/**
+ * Manual clock: time stands still until advance(), advanceToNext() or stall()
+ */
+export class FakeClock implements Clock {
+  private timeMs: number;
+  private nextId = 1;
+  private timers = new Map<number, FakeTimer>();
+
+  /**
+   * @param startMs - Initial time (both wall-clock and monotonic)
+   */
+  constructor(startMs: number = 0) {
+    this.timeMs = startMs;
+  }
+
+  now(): number {
+    return this.timeMs;
+  }
+
+  monotonicNow(): number {
+    return this.timeMs;
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    return this.addTimer(callback, delay, null);
+  }
+
+  clearTimeout(id: number): void {
+    this.timers.delete(id);
+  }
+
+  setInterval(callback: () => void, delay: number): number {
+    return this.addTimer(callback, delay, Math.max(1, delay));
+  }
+
+  clearInterval(id: number): void {
+    this.timers.delete(id);
+  }
+
+  /** Timers waiting to fire */
+  get pendingCount(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Moves time forward, firing every timer due on the way in due order
+   * (timers scheduled by those callbacks included) at its due time
+   */
+  advance(ms: number): void {
+    const target = this.timeMs + Math.max(0, ms);
+
+    for (let next = this.findNext(target); next; next = this.findNext(target)) {
+      this.timeMs = Math.max(this.timeMs, next.timer.dueMs);
+      this.fire(next.id, next.timer);
+    }
+
+    this.timeMs = target;
+  }
+
+  /**
+   * Jumps to the next timer and fires it
+   *
+   * @returns false if no timer is pending
+   */
+  advanceToNext(): boolean {
+    const next = this.findNext(Infinity);
+    if (!next) return false;
+
+    this.timeMs = Math.max(this.timeMs, next.timer.dueMs);
+    this.fire(next.id, next.timer);
+    return true;
+  }
+
+  /**
+   * Moves time forward WITHOUT firing timers, like a stalled or throttled
+   * tab; overdue timers fire on the next advance()/advanceToNext()
+   */
+  stall(ms: number): void {
+    this.timeMs += Math.max(0, ms);
+  }
+
+  private addTimer(callback: () => void, delay: number, intervalMs: number | null): number {
+    const id = this.nextId++;
+    this.timers.set(id, { dueMs: this.timeMs + Math.max(0, delay), callback, intervalMs });
+    return id;
+  }
+
+  /** Earliest timer due at or before limitMs (ties: first scheduled) */
+  private findNext(limitMs: number): { id: number; timer: FakeTimer } | null {
+    let best: { id: number; timer: FakeTimer } | null = null;
+    for (const [id, timer] of this.timers) {
+      if (timer.dueMs > limitMs) continue;
+      if (!best || timer.dueMs < best.timer.dueMs || (timer.dueMs === best.timer.dueMs && id < best.id)) {
+        best = { id, timer };
+      }
+    }
+    return best;
+  }
+
+  private fire(id: number, timer: FakeTimer): void {
+    if (timer.intervalMs !== null) {
+      timer.dueMs = this.timeMs + timer.intervalMs;
+    } else {
+      this.timers.delete(id);
+    }
+    timer.callback();
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * EmbedResolver - Loads the notes embedded with ![[…]] so they can be read in place
+ *
+ * PURPOSE
+ * ───────
+ * Embedded notes (`![[Other note]]`, `![[Other#Heading]]`, `![[Other#^block]]`)
+ * are part of what the reader sees in Obsidian, but only their link text is in
+ * the loaded Markdown. This service fetches them from the vault before parsing.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Resolve embed targets against the embedding note (same rules as Obsidian links)
+ * - Cut heading sections and blocks out of the target note (metadata cache)
+ * - Recurse into embeds of embedded notes, up to `settings.embedDepth` levels
+ * - Cycle protection: a note section already being expanded is not expanded again
+ * - Non-Markdown embeds (images, PDFs…) and missing targets are left out
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const resolver = new EmbedResolver(app, settings);
+ * const embeds = await resolver.resolve(markdown, file.path);
+ * MarkdownParser.parseWithSourceMap(markdown, policies, embeds);
+ * ```
+ */
+
+import { App, parseLinktext, resolveSubpath, TFile } from 'obsidian';
+import { DashReaderSettings } from '../types';
+import { collectEmbedTargets, EmbedMap, MdDocument, parseMarkdown, ResolvedEmbed } from '../markdown';
+
+export class EmbedResolver {
+  private app: App;
+  private settings: DashReaderSettings;
+
+  constructor(app: App, settings: DashReaderSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: DashReaderSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Quick check before parsing: does the text contain any embed at all?
+   */
+  static hasEmbeds(markdown: string): boolean {
+    return markdown.indexOf('![[') >= 0;
+  }
+
+  /**
+   * Resolves the embeds of a Markdown text
+   *
+   * @param markdown - Text being loaded (whole note or part of it)
+   * @param sourcePath - Vault path of the note the text comes from ('' if unknown)
+   * @returns Embedded documents keyed by link target; empty when embeds are off
+   */
+  async resolve(markdown: string, sourcePath: string): Promise<EmbedMap> {
+    if (!this.settings.expandEmbeds || !EmbedResolver.hasEmbeds(markdown)) return new Map();
+    return this.resolveDocument(parseMarkdown(markdown), sourcePath, [sourcePath], 1);
+  }
+
+  private async resolveDocument(doc: MdDocument, sourcePath: string, chain: string[], depth: number): Promise<EmbedMap> {
+    const embeds: EmbedMap = new Map();
+    if (depth > this.settings.embedDepth) return embeds;
+
+    for (const target of collectEmbedTargets(doc)) {
+      const { path, subpath } = parseLinktext(target);
+      const file = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+      if (!(file instanceof TFile) || file.extension !== 'md') continue;
+
+      // Same note section further up the chain: expanding it again would loop
+      const key = `${file.path}${subpath}`;
+      if (chain.indexOf(key) >= 0 || (!subpath && chain.indexOf(file.path) >= 0)) continue;
+
+      const section = await this.readSection(file, subpath);
+      if (section === null) continue;
+
+      const embeddedDoc = parseMarkdown(section);
+      embeds.set(target, {
+        title: file.basename,
+        doc: embeddedDoc,
+        embeds: EmbedResolver.hasEmbeds(section)
+          ? await this.resolveDocument(embeddedDoc, file.path, chain.concat(key), depth + 1)
+          : new Map<string, ResolvedEmbed>(),
+      });
+    }
+
+    return embeds;
+  }
+
+  /**
+   * Whole note, or the heading section / block named by `subpath` (null if not found)
+   */
+  private async readSection(file: TFile, subpath: string): Promise<string | null> {
+    const content = await this.app.vault.cachedRead(file);
+    if (!subpath) return content;
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    const found = cache ? resolveSubpath(cache, subpath) : null;
+    if (!found || found.type === 'footnote') return null;
+
+    return content.slice(found.start.offset, found.end ? found.end.offset : content.length);
+  }
+}
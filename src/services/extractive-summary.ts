@@ -0,0 +1,164 @@
+/**
+ * Extractive summary - The key sentences of a text, played as a preview
+ *
+ * PURPOSE
+ * ───────
+ * Before committing to a long read, play a handful of its sentences first
+ * to get the gist. Sentences are picked from the text itself (no rewording,
+ * no network): each is scored by the TF-IDF weight of its words, with a
+ * bonus for the places authors put key points (first sentence of a
+ * paragraph or of a section, beginning of the text).
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Split engine tokens into sentences (headings, callout titles and blocks
+ *   are not candidates)
+ * - Score sentences; paragraphs are the "documents" of the IDF, and very
+ *   common words (see word-difficulty.ts) do not count
+ * - Return the best ones in reading order, as token ranges
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const summary = extractSummary(tokens, 5, (i) => engine.isHiddenToken(i));
+ * // → [{ start: 12, end: 31, text: 'Sleep consolidates memory.', score: 4.2 }, ...]
+ * ```
+ */
+
+import { joinEngineTokens } from '../rsvp-engine';
+import { getWordRank } from './word-difficulty';
+import { TokenRange } from './section-filter';
+
+export interface SummarySentence extends TokenRange {
+  /** Sentence text, markers removed */
+  text: string;
+  score: number;
+}
+
+/** Words with a lower frequency rank carry no topic (the, which, because...) */
+const STOP_WORD_RANK = 200;
+/** Sentences outside these bounds (in words) make poor summary lines */
+const MIN_SENTENCE_WORDS = 5;
+const MAX_SENTENCE_WORDS = 60;
+
+const FIRST_IN_PARAGRAPH_BONUS = 1.2;
+const FIRST_IN_SECTION_BONUS = 1.3;
+/** Sentences in the first tenth of the text */
+const EARLY_BONUS = 1.15;
+
+const MARKER_RE = /^\[(H\d\]|CALLOUT:|BLOCK:)/;
+
+interface Candidate extends TokenRange {
+  terms: string[];
+  paragraph: number;
+  firstInParagraph: boolean;
+  firstInSection: boolean;
+}
+
+/**
+ * Picks the best sentences of the text
+ *
+ * @param words - Engine tokens ('\n' included)
+ * @param maxSentences - Number of sentences to keep
+ * @param isHidden - Tokens playback passes over; sentences containing one are left out
+ * @returns Sentences in reading order
+ */
+export function extractSummary(
+  words: string[],
+  maxSentences: number,
+  isHidden: (index: number) => boolean = () => false
+): SummarySentence[] {
+  const candidates = splitSentences(words, isHidden);
+  if (candidates.length === 0 || maxSentences < 1) return [];
+
+  // Paragraph frequency of each term (IDF) and its count in the whole text (TF)
+  const paragraphCount = candidates[candidates.length - 1].paragraph + 1;
+  const paragraphsWith = new Map<string, Set<number>>();
+  const counts = new Map<string, number>();
+  for (const sentence of candidates) {
+    for (const term of sentence.terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+      let paragraphs = paragraphsWith.get(term);
+      if (!paragraphs) paragraphsWith.set(term, (paragraphs = new Set()));
+      paragraphs.add(sentence.paragraph);
+    }
+  }
+  const weight = (term: string): number =>
+    (1 + Math.log(counts.get(term) ?? 1)) * Math.log(1 + paragraphCount / (paragraphsWith.get(term)?.size ?? 1));
+
+  const earlyEnd = words.length / 10;
+  const scored = candidates.map((sentence): SummarySentence => {
+    const unique = [...new Set(sentence.terms)];
+    let score = unique.reduce((sum, term) => sum + weight(term), 0) / Math.sqrt(Math.max(1, unique.length));
+    if (sentence.firstInSection) score *= FIRST_IN_SECTION_BONUS;
+    else if (sentence.firstInParagraph) score *= FIRST_IN_PARAGRAPH_BONUS;
+    if (sentence.start < earlyEnd) score *= EARLY_BONUS;
+    return {
+      start: sentence.start,
+      end: sentence.end,
+      text: joinEngineTokens(words.slice(sentence.start, sentence.end + 1)),
+      score,
+    };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxSentences)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Sentences that can go in a summary, with their content words
+ */
+function splitSentences(words: string[], isHidden: (index: number) => boolean): Candidate[] {
+  const candidates: Candidate[] = [];
+  let paragraph = -1;
+  let afterHeading = true;
+
+  for (let lineStart = 0; lineStart < words.length; ) {
+    let lineEnd = lineStart;
+    while (lineEnd < words.length && words[lineEnd] !== '\n') lineEnd++;
+
+    if (lineEnd > lineStart) {
+      if (/^\[H\d\]/.test(words[lineStart])) {
+        afterHeading = true;
+      } else if (!MARKER_RE.test(words[lineStart])) {
+        paragraph++;
+        let first = true;
+        for (let start = lineStart; start < lineEnd; ) {
+          let end = start;
+          while (end < lineEnd - 1 && !/[.!?]["')\]]?$/.test(words[end])) end++;
+
+          const length = end - start + 1;
+          let hidden = false;
+          for (let i = start; i <= end && !hidden; i++) hidden = isHidden(i);
+          if (!hidden && length >= MIN_SENTENCE_WORDS && length <= MAX_SENTENCE_WORDS) {
+            candidates.push({
+              start,
+              end,
+              terms: words.slice(start, end + 1).map(toTerm).filter(isContentTerm),
+              paragraph,
+              firstInParagraph: first,
+              firstInSection: first && afterHeading,
+            });
+          }
+          first = false;
+          start = end + 1;
+        }
+        afterHeading = false;
+      }
+    }
+    lineStart = lineEnd + 1;
+  }
+  return candidates;
+}
+
+function toTerm(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function isContentTerm(term: string): boolean {
+  if (term.length < 3 || /^\d+$/.test(term)) return false;
+  const rank = getWordRank(term);
+  return rank < 0 || rank >= STOP_WORD_RANK;
+}
@@ -0,0 +1,135 @@
+/**
+ * FrontmatterOverrides - Per-note reading settings from YAML frontmatter
+ *
+ * PURPOSE
+ * ───────
+ * A note can ask to be read differently from the rest of the vault:
+ *
+ * ```yaml
+ * dashreader-wpm: 350
+ * dashreader-chunk-size: 2
+ * dashreader-micropause: false
+ * dashreader-skip-sections: [References, Changelog]
+ * dashreader-watch-terms: [BRCA1, TP53]
+ * dashreader-profile: Study
+ * ```
+ *
+ * The values apply to that load only; the saved plugin settings are never
+ * changed.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Read the dashreader-* keys from parsed frontmatter (metadata cache)
+ * - Accept the loose forms YAML produces ("350", "off", a single string
+ *   instead of a list)
+ * - Clamp values with the regular settings validation
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const cache = app.metadataCache.getFileCache(file);
+ * const overrides = readFrontmatterOverrides(cache?.frontmatter, settings.pacingProfiles);
+ * const effective = { ...settings, ...overrides.settings };
+ * ```
+ */
+
+import { DashReaderSettings, PacingProfile } from '../types';
+import { validateSettings } from './settings-validator';
+
+/** Frontmatter keys read by the reader */
+export const FRONTMATTER_KEYS = {
+  wpm: 'dashreader-wpm',
+  chunkSize: 'dashreader-chunk-size',
+  micropause: 'dashreader-micropause',
+  skipSections: 'dashreader-skip-sections',
+  watchTerms: 'dashreader-watch-terms',
+  profile: 'dashreader-profile',
+} as const;
+
+export interface ReadingOverrides {
+  /** Settings replaced for this load (desktop and mobile values alike) */
+  settings: Partial<DashReaderSettings>;
+  /** Headings whose sections are left out */
+  skipSections: string[];
+  /** Watch terms of this note (added to those of the settings) */
+  watchTerms: string[];
+}
+
+/**
+ * Reads the dashreader-* keys of a note's frontmatter
+ *
+ * @param frontmatter - Parsed frontmatter (undefined if the note has none)
+ * @param profiles - Pacing profiles `dashreader-profile` can name (by name or id)
+ * @returns Overrides, or null when the note sets none
+ */
+export function readFrontmatterOverrides(
+  frontmatter: Record<string, unknown> | undefined,
+  profiles: PacingProfile[]
+): ReadingOverrides | null {
+  if (!frontmatter) return null;
+
+  const raw: Partial<DashReaderSettings> = {};
+
+  // A profile is the base; the explicit keys below win over it
+  const profileName = toStringValue(frontmatter[FRONTMATTER_KEYS.profile]).toLowerCase();
+  const profile = profileName
+    ? profiles.find((p) => p.id === profileName || p.name.toLowerCase() === profileName)
+    : undefined;
+  if (profile) Object.assign(raw, JSON.parse(JSON.stringify(profile.values)) as PacingProfile['values']);
+
+  const wpm = toNumber(frontmatter[FRONTMATTER_KEYS.wpm]);
+  if (wpm !== null) {
+    raw.wpm = wpm;
+    raw.mobileWpm = wpm;
+  }
+
+  const chunkSize = toNumber(frontmatter[FRONTMATTER_KEYS.chunkSize]);
+  if (chunkSize !== null) {
+    raw.chunkSize = Math.round(chunkSize);
+    raw.mobileChunkSize = Math.round(chunkSize);
+  }
+
+  const micropause = toBoolean(frontmatter[FRONTMATTER_KEYS.micropause]);
+  if (micropause !== null) {
+    raw.enableMicropause = micropause;
+    raw.mobileEnableMicropause = micropause;
+  }
+
+  const skipSections = toStringList(frontmatter[FRONTMATTER_KEYS.skipSections]);
+  const watchTerms = toStringList(frontmatter[FRONTMATTER_KEYS.watchTerms]);
+
+  const keys = Object.keys(raw) as (keyof DashReaderSettings)[];
+  if (keys.length === 0 && skipSections.length === 0 && watchTerms.length === 0) return null;
+
+  // Same limits as the settings tab; keep only the keys the note set
+  const checked = validateSettings(raw);
+  const settings: Record<string, unknown> = {};
+  for (const key of keys) settings[key] = checked[key];
+
+  return { settings: settings as Partial<DashReaderSettings>, skipSections, watchTerms };
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+
+  const v = value.trim().toLowerCase();
+  if (v === 'true' || v === 'on' || v === 'yes') return true;
+  if (v === 'false' || v === 'off' || v === 'no') return false;
+  return null;
+}
+
+function toStringValue(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+/** A YAML list, or a single comma-separated string */
+function toStringList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(toStringValue) : toStringValue(value).split(',');
+  return items.map((s) => s.trim()).filter((s) => s.length > 0);
+}
@@ -0,0 +1,75 @@
+/**
+ * Interval training - Alternating sprint and recovery speeds
+ *
+ * PURPOSE
+ * ───────
+ * Speed-reading practice: read a stretch at a sprint speed, then a stretch
+ * at a recovery speed, and repeat. Stretches are measured in reading
+ * seconds or in paragraphs.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Tell the phase (sprint/recovery) and its speed at a point of a session
+ * - Used by the engine for both playback and the virtual timeline, so time
+ *   estimates and the progress tooltip follow the alternating schedule
+ *
+ * While interval training is on, it replaces the base speed and acceleration.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const phase = getIntervalPhase(settings, { elapsedSec: 45, paragraphsRead: 2 });
+ * // → { kind: 'recovery', wpm: 400, remaining: 15 } (30 s sprint / 30 s recovery)
+ * ```
+ */
+
+import { DashReaderSettings } from '../types';
+
+export type IntervalTrainingSettings = Pick<
+  DashReaderSettings,
+  | 'intervalTraining'
+  | 'intervalUnit'
+  | 'intervalSprintWpm'
+  | 'intervalSprintLength'
+  | 'intervalRecoveryWpm'
+  | 'intervalRecoveryLength'
+>;
+
+export interface IntervalProgress {
+  /** Reading seconds since playback started (pauses excluded) */
+  elapsedSec: number;
+  /** Paragraphs finished since playback started */
+  paragraphsRead: number;
+}
+
+export interface IntervalPhase {
+  kind: 'sprint' | 'recovery';
+  wpm: number;
+  /** Seconds or paragraphs left in this phase (see intervalUnit) */
+  remaining: number;
+}
+
+/**
+ * Phase of the session at the given progress
+ */
+export function getIntervalPhase(settings: IntervalTrainingSettings, progress: IntervalProgress): IntervalPhase {
+  const sprint = Math.max(1, settings.intervalSprintLength);
+  const recovery = Math.max(1, settings.intervalRecoveryLength);
+  const done = settings.intervalUnit === 'paragraphs' ? progress.paragraphsRead : Math.max(0, progress.elapsedSec);
+  const position = done % (sprint + recovery);
+
+  return position < sprint
+    ? { kind: 'sprint', wpm: settings.intervalSprintWpm, remaining: sprint - position }
+    : { kind: 'recovery', wpm: settings.intervalRecoveryWpm, remaining: sprint + recovery - position };
+}
+
+/**
+ * "Sprint 800 wpm · 12 s left" / "Recovery 400 wpm · 1 paragraph left"
+ */
+export function describeIntervalPhase(phase: IntervalPhase, unit: IntervalTrainingSettings['intervalUnit']): string {
+  const name = phase.kind === 'sprint' ? 'Sprint' : 'Recovery';
+  const left = unit === 'paragraphs'
+    ? `${Math.ceil(phase.remaining)} paragraph${Math.ceil(phase.remaining) === 1 ? '' : 's'}`
+    : `${Math.ceil(phase.remaining)} s`;
+  return `${name} ${phase.wpm} wpm · ${left} left`;
+}
@@ -0,0 +1,78 @@
+/**
+ * MicropauseRules - Matching for user-defined micropause rules
+ *
+ * PURPOSE
+ * ───────
+ * Users add their own pacing rules in the settings: a regular expression or
+ * a built-in token class (citations, acronyms/gene names, measurements…)
+ * mapped to a delay multiplier, or to "skip" for words that should not be
+ * shown at all. This module turns a stored rule into a word matcher.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Define the built-in token classes
+ * - Compile rules, reporting invalid regular expressions instead of throwing
+ * - Match words the way they are displayed (heading/callout markers removed)
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const matcher = compileMicropauseRule({ enabled: true, match: 'citation', pattern: '', action: 'skip', multiplier: 1 });
+ * matcher?.test('[12],'); // true
+ * ```
+ */
+
+import { MicropauseRule, MicropauseTokenClass } from '../types';
+
+/** Token classes shown in the settings, with their matching expression */
+export const MICROPAUSE_TOKEN_CLASSES: Record<MicropauseTokenClass, { label: string; regex: RegExp }> = {
+  // [12] [3,4] [5-7] [12; 14], with trailing punctuation
+  citation: { label: 'Numeric citations [12]', regex: /^\[\d+(?:\s*[,;\u2013-]\s*\d+)*\][.,;:]?$/ },
+  // DNA, BRCA1, TP53, IL-6, mRNA
+  acronym: { label: 'Acronyms and gene names', regex: /^\(?[a-z]?[A-Z][A-Z0-9]*(?:-?[A-Z0-9]+)+[a-z]?\)?[.,;:]?$/ },
+  // 5mg, 10µM, 37°C, 2.5%, 100mg/kg
+  measurement: { label: 'Measurements (5mg, 37°C)', regex: /^\(?[\d.,]*\d(?:[a-zA-Z\u00b5\u03bc\u00b0%]+(?:\/[a-zA-Z\u00b5\u03bc]+)?)\)?[.,;:]?$/ },
+  url: { label: 'Links (http…, www.)', regex: /^[(<]?(?:https?:\/\/|www\.)\S+$/ },
+  // First word of a parenthetical remark
+  parenthetical: { label: 'Opening parentheses', regex: /^\(/ },
+};
+
+/** Leading [H1] / [CALLOUT:type] markers glued to the first word */
+const MARKER_PREFIX_RE = /^(?:\[H\d\]|\[CALLOUT:[\w-]+\])+/;
+
+/**
+ * Compiles a rule into a matcher
+ *
+ * @returns null for a disabled rule or an invalid regular expression
+ */
+export function compileMicropauseRule(rule: MicropauseRule): RegExp | null {
+  if (!rule.enabled) return null;
+  if (rule.match !== 'regex') return MICROPAUSE_TOKEN_CLASSES[rule.match].regex;
+  return compileRulePattern(rule.pattern);
+}
+
+/**
+ * Compiles a user regular expression (null if empty or invalid)
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The word a rule is tested against: the token without heading/callout markers
+ */
+export function ruleSubject(word: string): string {
+  return word.trim().replace(MARKER_PREFIX_RE, '');
+}
+
+/**
+ * Does the token carry a heading or callout marker? Such tokens are never skipped.
+ */
+export function hasStructureMarker(word: string): boolean {
+  return MARKER_PREFIX_RE.test(word.trim());
+}
@@ -22,8 +22,12 @@
  * 5. Sentence punctuation (.,!?) - Full stops
  * 6. Other punctuation (;:,) - Lighter pauses
  * 7. Numbers (contains digits) - Dates, stats, years
- * 8. Long words (>8 chars) - Complex words need more time
+ * 8. Long words (>8 chars) - Complex words need more time, or, with lexical
+ *    pacing on, word difficulty (frequency + syllables) instead
  * 9. Paragraph breaks (\n) - Section separators
+ * 10. Block placeholders [BLOCK:kind:id] - Code/table/math blocks not read
+ * 11. User rules (regex or token class) - Custom multipliers, or words skipped
+ *     altogether (see isSkipped)
  *
  * USAGE
  * ─────
@@ -35,6 +39,8 @@
  */
 
 import { DashReaderSettings } from '../types';
+import { getWordDifficulty } from './word-difficulty';
+import { compileMicropauseRule, hasStructureMarker, ruleSubject } from './micropause-rules';
 
 /**
  * Strategy interface for micropause calculation
@@ -77,6 +83,21 @@ class CalloutStrategy implements MicropauseStrategy {
   }
 }
 
+/**
+ * Strategy for block placeholders [BLOCK:code:0] (skipped/replaced blocks)
+ */
+class BlockPlaceholderStrategy implements MicropauseStrategy {
+  constructor(private multiplier: number) {}
+
+  static matches(word: string): boolean {
+    return /^\[BLOCK:\w+:\d+\]/.test(word.trim());
+  }
+
+  getMultiplier(word: string): number {
+    return BlockPlaceholderStrategy.matches(word) ? this.multiplier : 1.0;
+  }
+}
+
 /**
  * Strategy for section markers (1., 2., I., II., a., etc.)
  */
@@ -145,6 +166,38 @@ class LongWordStrategy implements MicropauseStrategy {
   }
 }
 
+/**
+ * Strategy for lexical difficulty: rare words and words with many syllables
+ * get up to (1 + strength)x, everyday words 1.0x
+ */
+class LexicalDifficultyStrategy implements MicropauseStrategy {
+  private static readonly CACHE_LIMIT = 5000;
+  private cache = new Map<string, number>();
+
+  constructor(private strength: number) {}
+
+  getMultiplier(word: string): number {
+    let difficulty = this.cache.get(word);
+    if (difficulty === undefined) {
+      if (this.cache.size >= LexicalDifficultyStrategy.CACHE_LIMIT) this.cache.clear();
+      difficulty = getWordDifficulty(word);
+      this.cache.set(word, difficulty);
+    }
+    return 1.0 + this.strength * difficulty;
+  }
+}
+
+/**
+ * Strategy for a user-defined rule (regex or token class → multiplier)
+ */
+class UserRuleStrategy implements MicropauseStrategy {
+  constructor(private matcher: RegExp, private multiplier: number) {}
+
+  getMultiplier(word: string): number {
+    return this.matcher.test(ruleSubject(word)) ? this.multiplier : 1.0;
+  }
+}
+
 /**
  * Strategy for paragraph breaks (line breaks)
  */
@@ -160,25 +213,17 @@ class ParagraphBreakStrategy implements MicropauseStrategy {
  * MicropauseService orchestrates all micropause strategies
  */
 export class MicropauseService {
-  private strategies: MicropauseStrategy[];
+  private strategies: MicropauseStrategy[] = [];
+  /** A placeholder stands for a whole block: word-level strategies don't apply */
+  private placeholderStrategies: MicropauseStrategy[] = [];
+  /** Matchers of the user rules whose words are not shown */
+  private skipMatchers: RegExp[] = [];
   private enabled: boolean;
 
   constructor(settings: DashReaderSettings, enabledOverride?: boolean) {
     this.enabled = enabledOverride ?? settings.enableMicropause;
 
-    // Initialize all strategies in detection order
-    // Order matters: headings first, then callouts, then markers, etc.
-    this.strategies = [
-      new HeadingStrategy(),
-      new CalloutStrategy(settings.micropauseCallouts),
-      new SectionMarkerStrategy(settings.micropauseSectionMarkers),
-      new ListBulletStrategy(settings.micropauseListBullets),
-      new SentencePunctuationStrategy(settings.micropausePunctuation),
-      new OtherPunctuationStrategy(settings.micropauseOtherPunctuation),
-      new NumberStrategy(settings.micropauseNumbers),
-      new LongWordStrategy(settings.micropauseLongWords),
-      new ParagraphBreakStrategy(settings.micropauseParagraph)
-    ];
+    this.createStrategies(settings);
   }
 
   /**
@@ -203,8 +248,10 @@ export class MicropauseService {
 
     let totalMultiplier = 1.0;
 
+    const strategies = BlockPlaceholderStrategy.matches(word) ? this.placeholderStrategies : this.strategies;
+
     // Apply all strategies multiplicatively
-    for (const strategy of this.strategies) {
+    for (const strategy of strategies) {
       const strategyMultiplier = strategy.getMultiplier(word);
       totalMultiplier *= strategyMultiplier;
     }
@@ -212,6 +259,18 @@ export class MicropauseService {
     return totalMultiplier;
   }
 
+  /**
+   * Whether a user rule hides this word (playback passes over it with no delay)
+   * Placeholders and heading/callout words are always shown.
+   */
+  isSkipped(word: string): boolean {
+    if (!this.enabled || this.skipMatchers.length === 0) return false;
+    if (word === '\n' || BlockPlaceholderStrategy.matches(word) || hasStructureMarker(word)) return false;
+
+    const subject = ruleSubject(word);
+    return this.skipMatchers.some((matcher) => matcher.test(subject));
+  }
+
   /**
    * Updates service with new settings
    * Recreates strategies with updated multipliers
@@ -222,6 +281,15 @@ export class MicropauseService {
     this.enabled = enabledOverride ?? settings.enableMicropause;
 
     // Recreate strategies with new multipliers
+    this.createStrategies(settings);
+  }
+
+  /**
+   * Builds the strategies in detection order
+   * Order matters: headings first, then callouts, then markers, etc.
+   * Lexical pacing, when on, takes the place of the long-word rule.
+   */
+  private createStrategies(settings: DashReaderSettings): void {
     this.strategies = [
       new HeadingStrategy(),
       new CalloutStrategy(settings.micropauseCallouts),
@@ -230,8 +298,33 @@ export class MicropauseService {
       new SentencePunctuationStrategy(settings.micropausePunctuation),
       new OtherPunctuationStrategy(settings.micropauseOtherPunctuation),
       new NumberStrategy(settings.micropauseNumbers),
-      new LongWordStrategy(settings.micropauseLongWords),
+      settings.lexicalPacingStrength > 0
+        ? new LexicalDifficultyStrategy(settings.lexicalPacingStrength)
+        : new LongWordStrategy(settings.micropauseLongWords),
+      ...this.createUserRuleStrategies(settings),
       new ParagraphBreakStrategy(settings.micropauseParagraph)
     ];
+    this.placeholderStrategies = [
+      new BlockPlaceholderStrategy(settings.micropauseBlocks),
+      new ParagraphBreakStrategy(settings.micropauseParagraph)
+    ];
+  }
+
+  /**
+   * Pause rules become strategies; skip rules are kept apart for isSkipped()
+   * Disabled rules and invalid regular expressions are ignored.
+   */
+  private createUserRuleStrategies(settings: DashReaderSettings): MicropauseStrategy[] {
+    const strategies: MicropauseStrategy[] = [];
+    this.skipMatchers = [];
+
+    for (const rule of settings.micropauseRules) {
+      const matcher = compileMicropauseRule(rule);
+      if (!matcher) continue;
+      if (rule.action === 'skip') this.skipMatchers.push(matcher);
+      else strategies.push(new UserRuleStrategy(matcher, rule.multiplier));
+    }
+
+    return strategies;
   }
 }
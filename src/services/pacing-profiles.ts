@@ -0,0 +1,220 @@
+/**
+ * PacingProfileManager - Named pacing presets ("Skim", "Study", "Fiction")
+ *
+ * PURPOSE
+ * ───────
+ * Different kinds of text want different speed, chunking, micropauses and
+ * acceleration. A pacing profile bundles those settings under a name so the
+ * reader can switch in one step, and folders/tags can pick a profile for
+ * their files.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Apply a profile (copy its values into the settings)
+ * - Give a profile's values as a layer (folder/tag defaults: the view puts
+ *   them on top of the settings for one file, they are never saved)
+ * - Save the current settings as a new profile, or over an existing one
+ * - Find the default profile of a file from the folder/tag rules
+ * - Export profiles as JSON and import them back (merged by name)
+ *
+ * Profiles live in `settings.pacingProfiles`; applying one changes the
+ * regular settings, so the engine and timeline pick it up through the usual
+ * updateSettings path. A folder/tag default only lasts while its file is
+ * loaded, so it is read with getValues() and not applied.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const profiles = new PacingProfileManager(settings);
+ * profiles.apply('study');
+ * const json = profiles.exportProfiles();
+ * profiles.importProfiles(json); // → number of profiles added or replaced
+ * ```
+ */
+
+import { DashReaderSettings, PACING_PROFILE_KEYS, PacingProfile } from '../types';
+import { validatePacingProfiles } from './settings-validator';
+
+/** Marks exported JSON so unrelated files are rejected on import */
+const EXPORT_FORMAT = 'dashreader-pacing-profiles';
+
+export class PacingProfileManager {
+  private settings: DashReaderSettings;
+
+  constructor(settings: DashReaderSettings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: DashReaderSettings): void {
+    this.settings = settings;
+  }
+
+  getProfiles(): PacingProfile[] {
+    return this.settings.pacingProfiles;
+  }
+
+  getProfile(id: string): PacingProfile | null {
+    return this.settings.pacingProfiles.find((p) => p.id === id) ?? null;
+  }
+
+  /**
+   * Profile applied last, if it still exists
+   */
+  getActive(): PacingProfile | null {
+    return this.getProfile(this.settings.activePacingProfile);
+  }
+
+  /**
+   * Copies the profile's values into the settings and makes it the active one
+   *
+   * @returns false if there is no such profile
+   */
+  apply(id: string): boolean {
+    const profile = this.getProfile(id);
+    if (!profile) return false;
+
+    Object.assign(this.settings, clone(profile.values));
+    this.settings.activePacingProfile = profile.id;
+    return true;
+  }
+
+  /**
+   * Copy of the profile's values, to put on top of the settings without changing them
+   */
+  getValues(id: string): Partial<DashReaderSettings> | null {
+    const profile = this.getProfile(id);
+    return profile ? clone(profile.values) : null;
+  }
+
+  /**
+   * Saves the current pacing settings as a new profile (made active)
+   */
+  saveCurrentAs(name: string): PacingProfile {
+    const profile: PacingProfile = {
+      id: this.uniqueId(name),
+      name: name.trim() || 'Profile',
+      values: this.captureCurrent(),
+    };
+    this.settings.pacingProfiles.push(profile);
+    this.settings.activePacingProfile = profile.id;
+    return profile;
+  }
+
+  /**
+   * Overwrites a profile with the current pacing settings
+   */
+  updateFromCurrent(id: string): boolean {
+    const profile = this.getProfile(id);
+    if (!profile) return false;
+
+    profile.values = this.captureCurrent();
+    return true;
+  }
+
+  /**
+   * Deletes a profile and the folder/tag rules that point to it
+   */
+  delete(id: string): void {
+    this.settings.pacingProfiles = this.settings.pacingProfiles.filter((p) => p.id !== id);
+    this.settings.pacingProfileRules = this.settings.pacingProfileRules.filter((r) => r.profileId !== id);
+    if (this.settings.activePacingProfile === id) this.settings.activePacingProfile = '';
+  }
+
+  /**
+   * Default profile of a file: first folder/tag rule that matches
+   *
+   * @param filePath - Vault path of the file
+   * @param tags - Tags of the file, with their leading #
+   */
+  findDefaultProfile(filePath: string, tags: string[]): PacingProfile | null {
+    const fileTags = tags.map((t) => t.toLowerCase());
+
+    for (const rule of this.settings.pacingProfileRules) {
+      if (!rule.value) continue;
+
+      let matches = false;
+      if (rule.kind === 'folder') {
+        const folder = rule.value.replace(/^\/+|\/+$/g, '');
+        matches = folder === '' || filePath.startsWith(`${folder}/`);
+      } else {
+        const tag = `#${rule.value.replace(/^#+/, '')}`.toLowerCase();
+        matches = fileTags.some((t) => t === tag || t.startsWith(`${tag}/`));
+      }
+
+      if (matches) {
+        const profile = this.getProfile(rule.profileId);
+        if (profile) return profile;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * JSON of the given profiles (all by default), for sharing
+   */
+  exportProfiles(ids?: string[]): string {
+    const profiles = ids
+      ? this.settings.pacingProfiles.filter((p) => ids.indexOf(p.id) >= 0)
+      : this.settings.pacingProfiles;
+    return JSON.stringify({ format: EXPORT_FORMAT, version: 1, profiles }, null, 2);
+  }
+
+  /**
+   * Adds profiles from exported JSON; a profile with the name of an existing
+   * one replaces its values
+   *
+   * @returns Number of profiles added or replaced
+   * @throws Error if the text is not a profile export
+   */
+  importProfiles(json: string): number {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Not valid JSON');
+    }
+
+    // A bare array of profiles is accepted too
+    const rawProfiles = Array.isArray(data)
+      ? data
+      : data && typeof data === 'object' && (data as Record<string, unknown>).format === EXPORT_FORMAT
+        ? (data as Record<string, unknown>).profiles
+        : null;
+    if (!Array.isArray(rawProfiles)) throw new Error('Not a pacing profile export');
+
+    const imported = validatePacingProfiles(rawProfiles, []);
+    for (const profile of imported) {
+      const existing = this.settings.pacingProfiles.find(
+        (p) => p.name.toLowerCase() === profile.name.toLowerCase()
+      );
+      if (existing) {
+        existing.values = profile.values;
+      } else {
+        this.settings.pacingProfiles.push({ ...profile, id: this.uniqueId(profile.name) });
+      }
+    }
+
+    return imported.length;
+  }
+
+  private captureCurrent(): PacingProfile['values'] {
+    const values: Record<string, unknown> = {};
+    for (const key of PACING_PROFILE_KEYS) {
+      values[key] = clone(this.settings[key]);
+    }
+    return values as PacingProfile['values'];
+  }
+
+  private uniqueId(name: string): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+    let id = base;
+    for (let n = 2; this.getProfile(id); n++) id = `${base}-${n}`;
+    return id;
+  }
+}
+
+/** Deep copy of plain settings data (micropause rules are objects) */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
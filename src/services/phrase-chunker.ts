@@ -0,0 +1,182 @@
+/**
+ * Phrase chunker - Groups engine tokens into short meaningful units
+ *
+ * PURPOSE
+ * ───────
+ * Fixed chunking shows N tokens at a time, which splits phrases awkwardly
+ * ("New York | City", "in spite | of the"). Phrase chunking shows one unit
+ * at a time instead:
+ * - function words ride along with the content word that follows them
+ *   ("in the garden"; "The house | has been sold | for 5 kg | of gold")
+ * - numbers stay with what they count or measure ("12 km", "3 apples")
+ * - runs of capitalised words stay together ("New York City")
+ * - fixed expressions are one unit ("in spite of", "as well as")
+ * - a unit never grows past a maximum width in characters
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Compute, for every token, the last token of its phrase
+ * - Never cross line breaks, hidden tokens, headings/callouts or block
+ *   placeholders, and close a phrase after clause punctuation
+ *
+ * The engine keeps indexing on tokens (navigation, virtual timeline); only
+ * what is shown per tick changes. Function words and expressions are
+ * English; other languages fall back to numbers, capitals and punctuation.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const ends = buildPhraseEnds(['in', 'spite', 'of', 'the', 'rain'], 24, () => false);
+ * // → [4, 4, 4, 4, 4] ("in spite of the rain" is one phrase)
+ * ```
+ */
+
+import { hasStructureMarker, ruleSubject } from './micropause-rules';
+
+/** Words that attach to the next word (articles, prepositions, pronouns, auxiliaries…) */
+const FUNCTION_WORDS = new Set<string>((
+  'a an the and or but nor so yet if as at by for from in into of off on onto out over to up upon ' +
+  'with within without about above across after against along among around before behind below ' +
+  'beneath beside between beyond during except inside near since through toward towards under until ' +
+  'via than that this these those my your his her its our their i we you he she it they me us him ' +
+  'them is am are was were be been being has have had do does did will would shall should can could ' +
+  'may might must not no very too such some any each every all both either neither which who whom ' +
+  'whose what when where why how there here then'
+).split(' '));
+
+/** Fixed expressions shown as one unit (they attach to the next word, like function words) */
+const EXPRESSIONS: string[][] = [
+  'in spite of', 'because of', 'instead of', 'in front of', 'on top of', 'out of', 'such as',
+  'as well as', 'in order to', 'according to', 'rather than', 'due to', 'prior to', 'as soon as',
+  'as long as', 'even though', 'so that', 'at least', 'at most', 'of course', 'each other',
+  'in addition to', 'in terms of', 'by means of', 'on behalf of', 'with respect to', 'as if',
+].map((e) => e.split(' '));
+
+/** Closes a phrase: clause punctuation, optionally followed by closing quotes/brackets */
+const CLAUSE_END_RE = /[.,;:!?\u2026]["'\u201D\u2019)\]]*$/;
+
+/** A dash standing on its own ("word — word") */
+const DASH_RE = /^[-\u2013\u2014]+$/;
+
+/** Numbers, amounts and ordinals ("12", "3.5", "$20", "10:30", "50%", "2nd") */
+const NUMBER_RE = /^[-+\u00B1~\u2248$\u20AC\u00A3\u00A5]?\d[\d.,:/]*(%|st|nd|rd|th|s)?$/i;
+
+const BLOCK_RE = /^\[BLOCK:\w+:\d+\]$/;
+
+type UnitKind = 'attach' | 'content' | 'standalone';
+
+/**
+ * Last token of the phrase each token belongs to
+ *
+ * @param words - Engine tokens (with '\n' tokens)
+ * @param maxChars - Maximum width of a phrase (a single longer token stays alone)
+ * @param isHidden - Whether playback passes over the token at an index (besides '\n'); hidden tokens end a phrase
+ * @returns Array parallel to `words`
+ */
+export function buildPhraseEnds(
+  words: string[],
+  maxChars: number,
+  isHidden: (index: number) => boolean
+): number[] {
+  const ends = new Array<number>(words.length);
+  let start = 0;
+
+  while (start < words.length) {
+    const end = findPhraseEnd(words, start, maxChars, isHidden);
+    for (let i = start; i <= end; i++) ends[i] = end;
+    start = end + 1;
+  }
+
+  return ends;
+}
+
+function findPhraseEnd(
+  words: string[],
+  start: number,
+  maxChars: number,
+  isHidden: (index: number) => boolean
+): number {
+  let end = start;
+  let width = 0;
+  let prevKind: UnitKind | null = null;
+  let prevWord = '';
+  let i = start;
+
+  while (i < words.length && words[i] !== '\n' && !isHidden(i)) {
+    const length = expressionLength(words, i, isHidden);
+    const unitWords = words.slice(i, i + length);
+    const kind: UnitKind = length > 1 ? 'attach' : classify(words[i]);
+    const unitWidth = unitWords.reduce((sum, w) => sum + ruleSubject(w).length, 0) + length - 1;
+
+    if (prevKind !== null) {
+      if (!joins(prevKind, prevWord, kind, words[i])) break;
+      if (width + 1 + unitWidth > maxChars) break;
+      width += 1;
+    }
+
+    width += unitWidth;
+    end = i + length - 1;
+    prevKind = kind;
+    prevWord = words[end];
+    i += length;
+  }
+
+  return end;
+}
+
+/**
+ * Does the next unit continue the phrase that ends with `prevWord`?
+ */
+function joins(prevKind: UnitKind, prevWord: string, nextKind: UnitKind, nextWord: string): boolean {
+  if (prevKind === 'standalone' || nextKind === 'standalone') return false;
+  if (hasStructureMarker(nextWord)) return false;
+  if (CLAUSE_END_RE.test(prevWord)) return false;
+
+  // Function words, numbers and "pre-" style halves lean on what follows
+  if (prevKind === 'attach' || prevWord.endsWith('-')) return true;
+
+  // Proper-noun runs
+  return isCapitalized(prevWord) && isCapitalized(nextWord);
+}
+
+function classify(word: string): UnitKind {
+  if (BLOCK_RE.test(word) || DASH_RE.test(word)) return 'standalone';
+
+  const core = coreWord(word);
+  if (NUMBER_RE.test(core) || FUNCTION_WORDS.has(core.toLowerCase())) return 'attach';
+  return 'content';
+}
+
+/**
+ * Number of tokens of the fixed expression starting at `index` (1 if none)
+ */
+function expressionLength(words: string[], index: number, isHidden: (index: number) => boolean): number {
+  const first = coreWord(words[index]).toLowerCase();
+
+  for (const expression of EXPRESSIONS) {
+    if (expression[0] !== first || index + expression.length > words.length) continue;
+
+    const matches = expression.every((part, k) => {
+      const word = words[index + k];
+      if (isHidden(index + k) || (k > 0 && hasStructureMarker(word))) return false;
+      // Punctuation may only close the expression
+      if (k < expression.length - 1 && CLAUSE_END_RE.test(word)) return false;
+      return coreWord(word).toLowerCase() === part;
+    });
+    if (matches) return expression.length;
+  }
+
+  return 1;
+}
+
+/** Token without markers, surrounding quotes/brackets and trailing punctuation */
+function coreWord(word: string): string {
+  return ruleSubject(word)
+    .replace(/^["'\u201C\u2018([]+/, '')
+    .replace(/["'\u201D\u2019)\].,;:!?\u2026]+$/, '');
+}
+
+function isCapitalized(word: string): boolean {
+  const ch = coreWord(word).charAt(0);
+  return ch !== '' && ch !== ch.toLowerCase();
+}
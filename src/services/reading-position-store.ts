@@ -0,0 +1,179 @@
+/**
+ * ReadingPositionStore - Remembers where each file was left off
+ *
+ * PURPOSE
+ * ───────
+ * Long notes and PDFs are rarely read in one sitting. This service keeps the
+ * last engine index per vault path so the reader can offer to resume when the
+ * same file is loaded again.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Save positions keyed by vault path, tagged with the file's mtime/size
+ *   (same identity PdfViewIntegration uses for its narrative cache)
+ * - Markdown: reuse the saved index while the file version matches; after
+ *   an edit, find the saved word again by the words around it, or by its
+ *   offset in the source when its context is gone
+ * - PDF: store a layout anchor and re-resolve it against the fresh narrative
+ *   index, so positions survive extraction changes
+ * - Forget files that were read to the end
+ *
+ * Positions live in `settings.readingPositions`, so they are persisted with
+ * the rest of data.json by the regular settings save.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const store = new ReadingPositionStore(settings);
+ * store.save(source, index, tokens, engine.getSourceOffset(index));
+ * const resumeIndex = store.resolve(source, tokens, (offset) => engine.getTokenAtSourceOffset(offset));
+ * ```
+ */
+
+import { DashReaderSettings, ReadingPosition, TextSource } from '../types';
+import { createAnchorFromTokenIndex, resolveAnchor } from '../pdf';
+import { createTextAnchor, resolveTextAnchor } from './text-anchor';
+
+/** Maximum number of files remembered (least recently updated dropped first) */
+const MAX_ENTRIES = 200;
+
+export class ReadingPositionStore {
+  private settings: DashReaderSettings;
+
+  constructor(settings: DashReaderSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Point the store at a new settings object (after a settings reload)
+   */
+  updateSettings(settings: DashReaderSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether a source is eligible for position tracking
+   * Only whole-file loads carry a filePath.
+   */
+  isTracked(source: TextSource | null | undefined): source is TextSource & { filePath: string } {
+    return !!source?.filePath && this.settings.rememberReadingPosition;
+  }
+
+  /**
+   * Get the raw saved entry for a path
+   */
+  get(filePath: string): ReadingPosition | null {
+    return this.settings.readingPositions[filePath] ?? null;
+  }
+
+  /**
+   * Save the current position for a source
+   *
+   * Positions at the very start are not worth resuming, and positions at the
+   * end mean the file was finished: both clear the entry instead.
+   *
+   * @param words - Engine tokens of the loaded text
+   * @param sourceOffset - Offset of the word in the source Markdown, if known
+   * @returns True if the stored data changed
+   */
+  save(
+    source: TextSource | null | undefined,
+    wordIndex: number,
+    words: string[],
+    sourceOffset: number | null = null
+  ): boolean {
+    if (!this.isTracked(source)) return false;
+
+    const totalWords = words.length;
+    if (totalWords <= 0 || wordIndex <= 0 || wordIndex >= totalWords - 1) {
+      return this.clear(source.filePath);
+    }
+
+    const position: ReadingPosition = {
+      wordIndex,
+      totalWords,
+      mtime: source.fileMtime ?? 0,
+      size: source.fileSize ?? 0,
+      updatedAt: Date.now(),
+    };
+
+    if (source.pdfIndex) {
+      const anchor = createAnchorFromTokenIndex(source.pdfIndex, wordIndex);
+      if (anchor) position.pdfAnchor = anchor;
+    } else {
+      const anchor = createTextAnchor(words, wordIndex);
+      if (anchor) position.textAnchor = sourceOffset !== null ? { ...anchor, sourceOffset } : anchor;
+    }
+
+    this.settings.readingPositions[source.filePath] = position;
+    this.prune();
+    return true;
+  }
+
+  /**
+   * Resolve the saved position for a freshly loaded source
+   *
+   * @param source - Source of the text that was just loaded
+   * @param words - Engine tokens of the loaded text
+   * @param tokenAtSourceOffset - Token at a source Markdown offset (source map), if known
+   * @returns Word index to offer for resuming, or null if none is valid
+   */
+  resolve(
+    source: TextSource | null | undefined,
+    words: string[],
+    tokenAtSourceOffset?: (offset: number) => number | null
+  ): number | null {
+    if (!this.isTracked(source)) return null;
+
+    const totalWords = words.length;
+    const saved = this.get(source.filePath);
+    if (!saved || totalWords <= 0) return null;
+
+    let index: number | null = null;
+
+    if (source.pdfIndex && saved.pdfAnchor) {
+      index = resolveAnchor(source.pdfIndex, saved.pdfAnchor);
+    }
+
+    if (index === null) {
+      const sameVersion =
+        saved.mtime === (source.fileMtime ?? 0) &&
+        saved.size === (source.fileSize ?? 0) &&
+        saved.totalWords === totalWords;
+      if (sameVersion) {
+        index = saved.wordIndex;
+      } else if (!source.pdfIndex && saved.textAnchor) {
+        // Same place relative to the length, to choose between equal matches
+        const expected = (saved.wordIndex / Math.max(1, saved.totalWords)) * totalWords;
+        index = resolveTextAnchor(words, saved.textAnchor, expected, tokenAtSourceOffset);
+      }
+    }
+
+    if (index === null || index <= 0 || index >= totalWords - 1) return null;
+    return index;
+  }
+
+  /**
+   * Forget the position for a path
+   *
+   * @returns True if an entry was removed
+   */
+  clear(filePath: string): boolean {
+    if (!(filePath in this.settings.readingPositions)) return false;
+    delete this.settings.readingPositions[filePath];
+    return true;
+  }
+
+  /**
+   * Drop the least recently updated entries beyond MAX_ENTRIES
+   */
+  private prune(): void {
+    const entries = Object.entries(this.settings.readingPositions);
+    if (entries.length <= MAX_ENTRIES) return;
+
+    entries.sort((a, b) => b[1].updatedAt - a[1].updatedAt);
+    for (const [path] of entries.slice(MAX_ENTRIES)) {
+      delete this.settings.readingPositions[path];
+    }
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * ReadingQueue - Notes and PDFs waiting to be read back-to-back
+ *
+ * PURPOSE
+ * ───────
+ * Lets the reader line up several files (a folder, search results, notes
+ * tagged for later) and play them one after the other. When a queued text
+ * reaches its end, the next file is taken from the front of the queue.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Keep an ordered list of vault paths without duplicates
+ * - Add, remove, reorder, clear
+ * - Hand out the next path (removing it from the queue)
+ *
+ * The queue lives in `settings.readingQueue`, so it is persisted with the
+ * rest of data.json by the regular settings save.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const queue = new ReadingQueue(settings);
+ * queue.add(['Inbox/Article.md', 'Papers/Study.pdf']);
+ * const next = queue.takeNext(); // 'Inbox/Article.md'
+ * ```
+ */
+
+import { DashReaderSettings } from '../types';
+
+/** File extensions the reader can load from the queue */
+export const QUEUEABLE_EXTENSIONS = ['md', 'pdf'];
+
+export class ReadingQueue {
+  private settings: DashReaderSettings;
+
+  constructor(settings: DashReaderSettings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: DashReaderSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Queued vault paths, next first
+   */
+  getItems(): string[] {
+    return this.settings.readingQueue;
+  }
+
+  get length(): number {
+    return this.settings.readingQueue.length;
+  }
+
+  /**
+   * Appends paths that are not queued yet
+   *
+   * @returns Number of paths added
+   */
+  add(paths: string[]): number {
+    const queue = this.settings.readingQueue;
+    let added = 0;
+    for (const path of paths) {
+      if (!path || queue.indexOf(path) >= 0) continue;
+      queue.push(path);
+      added++;
+    }
+    return added;
+  }
+
+  remove(path: string): void {
+    this.settings.readingQueue = this.settings.readingQueue.filter((p) => p !== path);
+  }
+
+  /**
+   * Moves the item at `index` by `delta` places (clamped to the queue)
+   */
+  move(index: number, delta: number): void {
+    const queue = this.settings.readingQueue;
+    const target = Math.max(0, Math.min(queue.length - 1, index + delta));
+    if (index < 0 || index >= queue.length || target === index) return;
+
+    const [item] = queue.splice(index, 1);
+    queue.splice(target, 0, item);
+  }
+
+  clear(): void {
+    this.settings.readingQueue = [];
+  }
+
+  /**
+   * Removes and returns the next path for which `exists` holds; paths of
+   * deleted/renamed files are dropped on the way
+   */
+  takeNext(exists: (path: string) => boolean): string | null {
+    const queue = this.settings.readingQueue;
+    while (queue.length > 0) {
+      const path = queue.shift() as string;
+      if (exists(path)) return path;
+    }
+    return null;
+  }
+}
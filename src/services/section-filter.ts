@@ -0,0 +1,124 @@
+/**
+ * Section filter - Which sections of a document are read
+ *
+ * PURPOSE
+ * ───────
+ * Reading only "Results" and "Discussion" of a paper, or everything except
+ * the appendix. Sections are picked by heading (in the sections dialog, or
+ * with a heading pattern); the engine then passes over the tokens of the
+ * skipped sections. Token indices do not change, so progress, seeking,
+ * bookmarks and breadcrumbs still refer to the whole document.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Subsections of a heading (the following headings of a lower level)
+ * - Headings to skip for a pattern: matching sections, or all but them
+ * - Token ranges to pass over for a set of skipped headings
+ *
+ * A skipped heading hides its own text, up to the next heading of any
+ * level; skipping a whole section means skipping its subsections too (the
+ * pattern helpers and the dialog do). Headings are identified by their word
+ * index; callouts are not sections.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const headings = engine.getHeadings();
+ * const skipped = matchSkippedHeadings(headings, 'references|acknowledg', 'skip');
+ * engine.setHiddenRanges(getSkippedRanges(headings, skipped, engine.getTotalWords()));
+ * ```
+ */
+
+import { HeadingInfo } from '../types';
+
+/** Token indices [start, end], end included */
+export interface TokenRange {
+  start: number;
+  end: number;
+}
+
+/** Stands for the text before the first heading in a set of skipped headings */
+export const PREAMBLE_KEY = -1;
+
+/**
+ * Headings that start sections (callouts excluded), in document order
+ */
+export function getSectionHeadings(headings: HeadingInfo[]): HeadingInfo[] {
+  return headings.filter((h) => h.level >= 1).sort((a, b) => a.wordIndex - b.wordIndex);
+}
+
+/**
+ * A heading and its subsections' headings (until a heading of the same or a higher level)
+ */
+export function getSubsectionHeadings(headings: HeadingInfo[], heading: HeadingInfo): HeadingInfo[] {
+  const sections = getSectionHeadings(headings);
+  const result: HeadingInfo[] = [heading];
+  for (let k = sections.indexOf(heading) + 1; k > 0 && k < sections.length && sections[k].level > heading.level; k++) {
+    result.push(sections[k]);
+  }
+  return result;
+}
+
+/**
+ * Headings to skip for a pattern tested against heading text (case-insensitive)
+ *
+ * @param mode - 'skip' skips matching sections, 'only' skips everything else
+ *               (the text before the first heading included)
+ * @returns Word indices of the skipped headings; empty for an empty or invalid pattern
+ */
+export function matchSkippedHeadings(headings: HeadingInfo[], pattern: string, mode: 'skip' | 'only'): Set<number> {
+  if (!pattern.trim()) return new Set();
+
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern, 'i');
+  } catch {
+    return new Set();
+  }
+
+  const matched = new Set<number>();
+  for (const heading of getSectionHeadings(headings)) {
+    if (!re.test(heading.text)) continue;
+    for (const h of getSubsectionHeadings(headings, heading)) matched.add(h.wordIndex);
+  }
+  if (mode === 'skip') return matched;
+
+  const skipped = new Set<number>([PREAMBLE_KEY]);
+  for (const heading of getSectionHeadings(headings)) {
+    if (!matched.has(heading.wordIndex)) skipped.add(heading.wordIndex);
+  }
+  return skipped;
+}
+
+/**
+ * Token ranges of the skipped headings' text, sorted and merged
+ *
+ * @param headings - All headings of the document
+ * @param skipped - Word indices of the skipped headings (PREAMBLE_KEY for the text before the first one)
+ * @param totalWords - Number of tokens of the document
+ */
+export function getSkippedRanges(
+  headings: HeadingInfo[],
+  skipped: ReadonlySet<number>,
+  totalWords: number
+): TokenRange[] {
+  const sections = getSectionHeadings(headings);
+  const ranges: TokenRange[] = [];
+
+  if (skipped.has(PREAMBLE_KEY) && sections.length > 0 && sections[0].wordIndex > 0) {
+    ranges.push({ start: 0, end: sections[0].wordIndex - 1 });
+  }
+  sections.forEach((heading, k) => {
+    if (!skipped.has(heading.wordIndex)) return;
+    const next = sections[k + 1];
+    ranges.push({ start: heading.wordIndex, end: (next ? next.wordIndex : totalWords) - 1 });
+  });
+
+  const merged: TokenRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
@@ -0,0 +1,160 @@
+/**
+ * SessionDigest - Markdown digest of a finished reading session
+ *
+ * PURPOSE
+ * ───────
+ * Optional export written when a session ends: a short note entry listing the
+ * sections that were read (with links back to the source), time spent per
+ * section, effective WPM and the passages re-read after a rewind.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Group per-word reading time into sections (headings or PDF pages)
+ * - Render the user template ({{placeholder}} substitution)
+ * - Append the entry to the digest note, creating note and folder if missing
+ *   (same append/create approach as the PDF extraction report)
+ *
+ * The caller supplies the source-specific parts (section lookup, passage
+ * text, links), so this module knows nothing about the engine or the vault
+ * layout beyond the target path.
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const done = tracker.finish();
+ * const entry = buildSessionDigest(done, { template, fileName, fileLink, sectionAt, passageText });
+ * await appendDigestEntry(app, 'Reading log/Note.md', entry, '# Note reading log\n');
+ * ```
+ */
+
+import { App, normalizePath, TFile } from 'obsidian';
+import { CompletedSession } from './session-tracker';
+import { formatDuration, formatWordCount, toDateKey } from './stats-formatter';
+
+/**
+ * Section a word belongs to
+ */
+export interface DigestSection {
+  /** Grouping key (same key = same section) */
+  key: string;
+  /** Display title */
+  title: string;
+  /** Wikilink to the section, or null when the text has no vault file */
+  link: string | null;
+}
+
+export interface DigestContext {
+  /** Template with {{placeholders}} */
+  template: string;
+  /** Display name of the source */
+  fileName: string;
+  /** Wikilink to the source file, or null (selections) */
+  fileLink: string | null;
+  /** Section of a token index */
+  sectionAt: (index: number) => DigestSection;
+  /** Readable text of tokens [start, end] */
+  passageText: (start: number, end: number) => string;
+}
+
+/** Maximum characters quoted per rewound passage */
+const MAX_PASSAGE_LENGTH = 200;
+
+/**
+ * Characters Obsidian does not accept inside a link subpath or alias
+ */
+export function sanitizeLinkText(text: string): string {
+  return text.replace(/[[\]#|^]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Renders a finished session with the digest template
+ */
+export function buildSessionDigest(done: CompletedSession, ctx: DigestContext): string {
+  const { session } = done;
+  const started = new Date(session.startedAt);
+  const time = `${String(started.getHours()).padStart(2, '0')}:${String(started.getMinutes()).padStart(2, '0')}`;
+
+  const values: Record<string, string> = {
+    file: ctx.fileName,
+    link: ctx.fileLink ?? ctx.fileName,
+    date: toDateKey(session.startedAt),
+    time,
+    duration: formatDuration(session.readingSeconds),
+    words: formatWordCount(session.wordsRead),
+    wpm: String(session.effectiveWpm),
+    pauses: String(session.pauses),
+    sections: renderSections(done, ctx),
+    rewinds: renderRewinds(done, ctx),
+  };
+
+  return ctx.template.replace(/\{\{(\w+)\}\}/g, (match: string, name: string) => values[name] ?? match);
+}
+
+/**
+ * One bullet per section in reading order: link, time and words
+ */
+function renderSections(done: CompletedSession, ctx: DigestContext): string {
+  const sections = new Map<string, { section: DigestSection; seconds: number; words: number }>();
+  const indices = Array.from(done.secondsByIndex.keys()).sort((a, b) => a - b);
+
+  for (const index of indices) {
+    const section = ctx.sectionAt(index);
+    const entry = sections.get(section.key) ?? { section, seconds: 0, words: 0 };
+    entry.seconds += done.secondsByIndex.get(index) ?? 0;
+    entry.words += 1;
+    sections.set(section.key, entry);
+  }
+
+  if (sections.size === 0) return '- None';
+
+  return Array.from(sections.values())
+    .map(({ section, seconds, words }) => {
+      const wpm = seconds > 0 ? Math.round(words / (seconds / 60)) : 0;
+      return `- ${section.link ?? section.title} — ${formatDuration(seconds)} · ${formatWordCount(words)} words · ${wpm} wpm`;
+    })
+    .join('\n');
+}
+
+/**
+ * One quoted bullet per rewind: the passage that was read again
+ */
+function renderRewinds(done: CompletedSession, ctx: DigestContext): string {
+  if (done.rewindPassages.length === 0) return '- None';
+
+  return done.rewindPassages
+    .map(({ fromIndex, toIndex }) => {
+      let text = ctx.passageText(toIndex, fromIndex);
+      if (text.length > MAX_PASSAGE_LENGTH) {
+        text = `${text.slice(0, MAX_PASSAGE_LENGTH - 1).trimEnd()}…`;
+      }
+      const section = ctx.sectionAt(toIndex);
+      return `- “${text}” (${section.link ?? section.title})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Appends an entry to a vault note, creating the note (and its folder) if missing
+ *
+ * @param header - Initial content of a newly created note
+ * @throws If the path exists but is not a file
+ */
+export async function appendDigestEntry(app: App, path: string, entry: string, header: string): Promise<void> {
+  const notePath = normalizePath(path);
+  const existing = app.vault.getAbstractFileByPath(notePath);
+
+  if (existing instanceof TFile) {
+    await app.vault.append(existing, `\n${entry}`);
+    return;
+  }
+  if (existing) {
+    // Name exists but isn't a file (e.g., folder) -> don't overwrite
+    throw new Error(`${notePath} exists but is not a file`);
+  }
+
+  const folder = notePath.includes('/') ? notePath.slice(0, notePath.lastIndexOf('/')) : '';
+  if (folder && !app.vault.getAbstractFileByPath(folder)) {
+    await app.vault.createFolder(folder);
+  }
+  await app.vault.create(notePath, `${header}\n${entry}`);
+}
@@ -0,0 +1,161 @@
+/**
+ * SessionTracker - Records reading sessions into the persistent session log
+ *
+ * PURPOSE
+ * ───────
+ * Turns what happens in the reader (words played, pauses, rewinds) into
+ * `ReadingSession` entries stored in `settings.readingSessions`, which the
+ * statistics view aggregates into daily totals, streaks and speed trends.
+ *
+ * SESSION MODEL
+ * ─────────────
+ * - A session starts lazily with the first word played after a text is loaded
+ * - It ends when another text is loaded or the reader closes
+ * - Loads that were never played produce no entry
+ * - Reading time comes from the engine's virtual timeline, so effective WPM
+ *   reflects micropauses/slow start/acceleration, not time spent paused
+ * - Per-word time and rewound passages are kept for the session digest note;
+ *   sessions are recorded when either statistics or the digest is enabled
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const tracker = new SessionTracker(settings);
+ * tracker.recordWord(source, chunk.index, totalWords, virtualSeconds);
+ * tracker.recordPause();
+ * const done = tracker.finish();
+ * if (done?.logged) saveSettings();
+ * ```
+ */
+
+import { DashReaderSettings, ReadingSession, RewindPassage, TextSource } from '../types';
+
+/** Maximum number of sessions kept in data.json (oldest dropped first) */
+const MAX_SESSIONS = 2000;
+
+/**
+ * A finished session with the detail needed to build a digest
+ */
+export interface CompletedSession {
+  session: ReadingSession;
+  /** Virtual reading seconds per token index (re-read words accumulate) */
+  secondsByIndex: Map<number, number>;
+  /** Passages re-read after a rewind, in order */
+  rewindPassages: RewindPassage[];
+  /** Whether the session was appended to the session log */
+  logged: boolean;
+}
+
+export class SessionTracker {
+  private settings: DashReaderSettings;
+  private current: ReadingSession | null = null;
+  private secondsByIndex = new Map<number, number>();
+  private rewindPassages: RewindPassage[] = [];
+
+  constructor(settings: DashReaderSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Point the tracker at a new settings object (after a settings reload)
+   */
+  updateSettings(settings: DashReaderSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Record one word displayed during playback
+   *
+   * @param source - Source of the loaded text
+   * @param index - Token index of the word
+   * @param totalWords - Token count of the loaded text
+   * @param virtualSeconds - Virtual-timeline time of the word
+   */
+  recordWord(source: TextSource | null, index: number, totalWords: number, virtualSeconds: number): void {
+    if (!this.isRecording()) return;
+
+    const now = Date.now();
+    if (!this.current) {
+      this.current = {
+        fileName: source?.fileName,
+        filePath: source?.filePath,
+        startedAt: now,
+        endedAt: now,
+        startIndex: index,
+        endIndex: index,
+        totalWords,
+        wordsRead: 0,
+        readingSeconds: 0,
+        effectiveWpm: 0,
+        pauses: 0,
+        rewinds: 0,
+      };
+    }
+
+    this.current.endedAt = now;
+    this.current.endIndex = index;
+    this.current.wordsRead += 1;
+    this.current.readingSeconds += Math.max(0, virtualSeconds);
+    this.secondsByIndex.set(index, (this.secondsByIndex.get(index) ?? 0) + Math.max(0, virtualSeconds));
+  }
+
+  /**
+   * Count a user pause in the running session
+   */
+  recordPause(): void {
+    if (this.current) this.current.pauses += 1;
+  }
+
+  /**
+   * Count a rewind in the running session
+   *
+   * @param passage - Span that will be re-read (from the engine's rewind)
+   */
+  recordRewind(passage: RewindPassage | null): void {
+    if (!this.current) return;
+    this.current.rewinds += 1;
+    if (passage) this.rewindPassages.push(passage);
+  }
+
+  /**
+   * Whether a session is in progress
+   */
+  isActive(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * End the running session and append it to the session log
+   *
+   * @returns The finished session (null if nothing was read); `logged` is
+   *          true if an entry was added and settings need saving
+   */
+  finish(): CompletedSession | null {
+    const session = this.current;
+    const secondsByIndex = this.secondsByIndex;
+    const rewindPassages = this.rewindPassages;
+    this.current = null;
+    this.secondsByIndex = new Map();
+    this.rewindPassages = [];
+    if (!session || session.wordsRead === 0) return null;
+
+    session.readingSeconds = Math.round(session.readingSeconds * 10) / 10;
+    session.effectiveWpm = session.readingSeconds > 0
+      ? Math.round(session.wordsRead / (session.readingSeconds / 60))
+      : 0;
+
+    const logged = this.settings.trackReadingStats;
+    if (logged) {
+      const log = this.settings.readingSessions;
+      log.push(session);
+      if (log.length > MAX_SESSIONS) {
+        log.splice(0, log.length - MAX_SESSIONS);
+      }
+    }
+    return { session, secondsByIndex, rewindPassages, logged };
+  }
+
+  private isRecording(): boolean {
+    return this.settings.trackReadingStats || this.settings.writeSessionDigest;
+  }
+}
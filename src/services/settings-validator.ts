@@ -23,7 +23,25 @@
  * ```
  */
 
-import { DashReaderSettings, DEFAULT_SETTINGS } from '../types';
+import {
+  AccelerationCurve,
+  Bookmark,
+  ChunkingMode,
+  PresentationMode,
+  DashReaderSettings,
+  IntervalUnit,
+  DEFAULT_SETTINGS,
+  MicropauseRule,
+  PACING_PROFILE_KEYS,
+  PacingProfile,
+  PacingProfileRule,
+  ReadingPosition,
+  ReadingSession,
+  TextAnchor,
+} from '../types';
+import type { BlockPolicy } from '../markdown';
+import type { PdfAnchor } from '../pdf';
+import { compileRulePattern } from './micropause-rules';
 
 /**
  * Validation limits for numeric settings
@@ -31,15 +49,24 @@ import { DashReaderSettings, DEFAULT_SETTINGS } from '../types';
 const LIMITS = {
   wpm: { min: 50, max: 5000 },
   chunkSize: { min: 1, max: 10 },
+  phraseMaxChars: { min: 8, max: 60 },
   fontSize: { min: 12, max: 120 },
   autoStartDelay: { min: 0, max: 60 },
   accelerationDuration: { min: 1, max: 300 },
   accelerationTargetWpm: { min: 50, max: 5000 },
+  accelerationRampWords: { min: 50, max: 10000 },
+  accelerationStepSentences: { min: 1, max: 100 },
+  accelerationStepWpm: { min: 5, max: 500 },
+  intervalLength: { min: 1, max: 600 },
   micropauseMultiplier: { min: 1.0, max: 10.0 },
+  lexicalPacingStrength: { min: 0, max: 2 },
+  micropauseRuleMultiplier: { min: 0.1, max: 10.0 },
   contextLines: { min: 0, max: 10 },
   contextFontSize: { min: 10, max: 32 },
   // minimum font size for shrinking long single tokens
-  minTokenFontSize: { min: 8, max: 120 }
+  minTokenFontSize: { min: 8, max: 120 },
+  embedDepth: { min: 1, max: 5 },
+  summarySentences: { min: 1, max: 20 }
 } as const;
 
 /**
@@ -97,6 +124,270 @@ function validateString(value: unknown, defaultValue: string): string {
   return defaultValue;
 }
 
+/**
+ * Validates a string against a fixed set of options
+ */
+function validateOption<T extends string>(value: unknown, options: readonly T[], defaultValue: T): T {
+  return options.indexOf(value as T) >= 0 ? value as T : defaultValue;
+}
+
+const BLOCK_POLICIES: readonly BlockPolicy[] = ['read', 'skip', 'placeholder', 'panel'];
+
+const CHUNKING_MODES: readonly ChunkingMode[] = ['fixed', 'phrase'];
+
+const PRESENTATION_MODES: readonly PresentationMode[] = ['word', 'sentence', 'line', 'pacer'];
+
+const ACCELERATION_CURVES: readonly AccelerationCurve[] = ['linear', 'ease-in', 'steps', 'sine', 'words'];
+
+const INTERVAL_UNITS: readonly IntervalUnit[] = ['seconds', 'paragraphs'];
+
+const MICROPAUSE_RULE_MATCHES: readonly MicropauseRule['match'][] = [
+  'regex', 'citation', 'acronym', 'measurement', 'url', 'parenthetical'
+];
+const MICROPAUSE_RULE_ACTIONS: readonly MicropauseRule['action'][] = ['pause', 'skip'];
+const PACING_PROFILE_RULE_KINDS: readonly PacingProfileRule['kind'][] = ['folder', 'tag'];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validates a stored PDF anchor; returns undefined if any field is malformed
+ */
+function validatePdfAnchor(value: unknown): PdfAnchor | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const a = value as Record<string, unknown>;
+  if (!isFiniteNumber(a.pageIndex) || !isFiniteNumber(a.columnIndex)) return undefined;
+  if (typeof a.blockSignature !== 'string' || typeof a.tokenKey !== 'string') return undefined;
+
+  const contextKeys = Array.isArray(a.contextKeys)
+    ? a.contextKeys.filter((k): k is string => typeof k === 'string')
+    : [];
+
+  return {
+    pageIndex: a.pageIndex,
+    columnIndex: a.columnIndex,
+    blockSignature: a.blockSignature,
+    tokenKey: a.tokenKey,
+    contextKeys,
+    tokenIndex: isFiniteNumber(a.tokenIndex) ? a.tokenIndex : undefined,
+  };
+}
+
+/**
+ * Validates a stored Markdown word anchor; returns undefined without a word key
+ */
+function validateTextAnchor(value: unknown): TextAnchor | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const a = value as Record<string, unknown>;
+  if (typeof a.key !== 'string' || !a.key) return undefined;
+
+  const keys = (v: unknown): string[] => (Array.isArray(v) ? v.filter((k): k is string => typeof k === 'string') : []);
+  const anchor: TextAnchor = { key: a.key, before: keys(a.before), after: keys(a.after) };
+  if (isFiniteNumber(a.sourceOffset)) anchor.sourceOffset = Math.max(0, Math.floor(a.sourceOffset));
+  return anchor;
+}
+
+/**
+ * Validates the saved reading positions map
+ * Drops malformed entries (pruning is left to ReadingPositionStore)
+ */
+function validateReadingPositions(value: unknown): Record<string, ReadingPosition> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const positions: Record<string, ReadingPosition> = {};
+  for (const [path, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!path || !raw || typeof raw !== 'object') continue;
+    const p = raw as Record<string, unknown>;
+    if (!isFiniteNumber(p.wordIndex) || !isFiniteNumber(p.totalWords)) continue;
+
+    const position: ReadingPosition = {
+      wordIndex: Math.max(0, Math.floor(p.wordIndex)),
+      totalWords: Math.max(0, Math.floor(p.totalWords)),
+      mtime: isFiniteNumber(p.mtime) ? p.mtime : 0,
+      size: isFiniteNumber(p.size) ? p.size : 0,
+      updatedAt: isFiniteNumber(p.updatedAt) ? p.updatedAt : 0,
+    };
+    const anchor = validatePdfAnchor(p.pdfAnchor);
+    if (anchor) position.pdfAnchor = anchor;
+    const textAnchor = validateTextAnchor(p.textAnchor);
+    if (textAnchor) position.textAnchor = textAnchor;
+
+    positions[path] = position;
+  }
+
+  return positions;
+}
+
+/**
+ * Validates the reading session log
+ * Drops malformed entries and restores chronological order
+ */
+function validateReadingSessions(value: unknown): ReadingSession[] {
+  if (!Array.isArray(value)) return [];
+
+  const sessions: ReadingSession[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const s = raw as Record<string, unknown>;
+    if (!isFiniteNumber(s.startedAt) || !isFiniteNumber(s.endedAt)) continue;
+    if (!isFiniteNumber(s.wordsRead) || s.wordsRead <= 0) continue;
+
+    const count = (v: unknown): number => (isFiniteNumber(v) ? Math.max(0, Math.floor(v)) : 0);
+    const session: ReadingSession = {
+      startedAt: s.startedAt,
+      endedAt: Math.max(s.startedAt, s.endedAt),
+      startIndex: count(s.startIndex),
+      endIndex: count(s.endIndex),
+      totalWords: count(s.totalWords),
+      wordsRead: count(s.wordsRead),
+      readingSeconds: isFiniteNumber(s.readingSeconds) ? Math.max(0, s.readingSeconds) : 0,
+      effectiveWpm: isFiniteNumber(s.effectiveWpm) ? Math.max(0, s.effectiveWpm) : 0,
+      pauses: count(s.pauses),
+      rewinds: count(s.rewinds),
+    };
+    if (typeof s.fileName === 'string') session.fileName = s.fileName;
+    if (typeof s.filePath === 'string') session.filePath = s.filePath;
+
+    sessions.push(session);
+  }
+
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Validates the bookmarks map (vault path → bookmarks in reading order)
+ */
+function validateBookmarks(value: unknown): Record<string, Bookmark[]> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const bookmarks: Record<string, Bookmark[]> = {};
+  for (const [path, rawList] of Object.entries(value as Record<string, unknown>)) {
+    if (!path || !Array.isArray(rawList)) continue;
+
+    const list: Bookmark[] = [];
+    for (const raw of rawList) {
+      if (!raw || typeof raw !== 'object') continue;
+      const b = raw as Record<string, unknown>;
+      if (!isFiniteNumber(b.wordIndex)) continue;
+
+      const bookmark: Bookmark = {
+        wordIndex: Math.max(0, Math.floor(b.wordIndex)),
+        headingPath: Array.isArray(b.headingPath)
+          ? b.headingPath.filter((h): h is string => typeof h === 'string')
+          : [],
+        sentence: typeof b.sentence === 'string' ? b.sentence : '',
+        createdAt: isFiniteNumber(b.createdAt) ? b.createdAt : 0,
+      };
+      if (isFiniteNumber(b.sourceLine) && b.sourceLine >= 1) bookmark.sourceLine = Math.floor(b.sourceLine);
+      const textAnchor = validateTextAnchor(b.textAnchor);
+      if (textAnchor) bookmark.textAnchor = textAnchor;
+
+      list.push(bookmark);
+    }
+
+    if (list.length > 0) {
+      bookmarks[path] = list.sort((a, b) => a.wordIndex - b.wordIndex);
+    }
+  }
+
+  return bookmarks;
+}
+
+/**
+ * Validates the user micropause rules
+ * Regex rules with an invalid pattern are kept (so they can be fixed) but disabled
+ */
+function validateMicropauseRules(value: unknown): MicropauseRule[] {
+  if (!Array.isArray(value)) return [];
+
+  const rules: MicropauseRule[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const r = raw as Record<string, unknown>;
+
+    const rule: MicropauseRule = {
+      enabled: validateBoolean(r.enabled, true),
+      match: validateOption(r.match, MICROPAUSE_RULE_MATCHES, 'regex'),
+      pattern: validateString(r.pattern, ''),
+      action: validateOption(r.action, MICROPAUSE_RULE_ACTIONS, 'pause'),
+      multiplier: validateNumber(
+        r.multiplier,
+        1.5,
+        LIMITS.micropauseRuleMultiplier.min,
+        LIMITS.micropauseRuleMultiplier.max
+      ),
+    };
+    if (rule.match === 'regex' && !compileRulePattern(rule.pattern)) rule.enabled = false;
+
+    rules.push(rule);
+  }
+
+  return rules;
+}
+
+/**
+ * Validates pacing profiles (also used for imported ones)
+ * Profile values go through the regular settings validation; settings a
+ * profile doesn't carry stay absent. Ids are made unique.
+ *
+ * @param value - Stored or imported profiles
+ * @param defaults - Returned when `value` is not an array
+ */
+export function validatePacingProfiles(
+  value: unknown,
+  defaults: PacingProfile[] = DEFAULT_SETTINGS.pacingProfiles
+): PacingProfile[] {
+  if (!Array.isArray(value)) return JSON.parse(JSON.stringify(defaults)) as PacingProfile[];
+
+  const profiles: PacingProfile[] = [];
+  const ids = new Set<string>();
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const p = raw as Record<string, unknown>;
+    const name = typeof p.name === 'string' ? p.name.trim() : '';
+    if (!name) continue;
+
+    const rawValues = p.values && typeof p.values === 'object' ? p.values as Record<string, unknown> : {};
+    const checked = validateSettings(rawValues as Partial<DashReaderSettings>);
+    const values: Record<string, unknown> = {};
+    for (const key of PACING_PROFILE_KEYS) {
+      if (key in rawValues) values[key] = checked[key];
+    }
+
+    let id = typeof p.id === 'string' && p.id ? p.id : name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    for (let n = 2; ids.has(id); n++) id = `${id.replace(/-\d+$/, '')}-${n}`;
+    ids.add(id);
+
+    profiles.push({ id, name, values: values as PacingProfile['values'] });
+  }
+
+  return profiles;
+}
+
+/**
+ * Validates the folder/tag default profile rules (rules of unknown profiles are dropped)
+ */
+function validatePacingProfileRules(value: unknown, profiles: PacingProfile[]): PacingProfileRule[] {
+  if (!Array.isArray(value)) return [];
+
+  const rules: PacingProfileRule[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const r = raw as Record<string, unknown>;
+    const profileId = validateString(r.profileId, '');
+    if (!profiles.some((p) => p.id === profileId)) continue;
+
+    rules.push({
+      kind: validateOption(r.kind, PACING_PROFILE_RULE_KINDS, 'folder'),
+      value: validateString(r.value, '').trim(),
+      profileId,
+    });
+  }
+
+  return rules;
+}
+
 /**
  * Validates and sanitizes DashReader settings
  *
@@ -111,11 +402,15 @@ function validateString(value: unknown, defaultValue: string): string {
  * ```
  */
 export function validateSettings(partial: Partial<DashReaderSettings> | null | undefined): DashReaderSettings {
-  // Handle null/undefined by returning defaults
+  // Handle null/undefined by validating an empty object (fresh copies of
+  // nested defaults, so the DEFAULT_SETTINGS maps are never mutated)
   if (!partial || typeof partial !== 'object') {
-    return { ...DEFAULT_SETTINGS };
+    partial = {};
   }
 
+  const pacingProfiles = validatePacingProfiles(partial.pacingProfiles);
+  const activePacingProfile = validateString(partial.activePacingProfile, '');
+
   return {
     // Numeric settings with range validation
     wpm: validateNumber(
@@ -130,6 +425,16 @@ export function validateSettings(partial: Partial<DashReaderSettings> | null | u
       LIMITS.chunkSize.min,
       LIMITS.chunkSize.max
     ),
+    chunkingMode: validateOption(partial.chunkingMode, CHUNKING_MODES, DEFAULT_SETTINGS.chunkingMode),
+    phraseMaxChars: validateNumber(
+      partial.phraseMaxChars,
+      DEFAULT_SETTINGS.phraseMaxChars,
+      LIMITS.phraseMaxChars.min,
+      LIMITS.phraseMaxChars.max
+    ),
+    skimMode: validateBoolean(partial.skimMode, DEFAULT_SETTINGS.skimMode),
+    skimLastSentence: validateBoolean(partial.skimLastSentence, DEFAULT_SETTINGS.skimLastSentence),
+    presentationMode: validateOption(partial.presentationMode, PRESENTATION_MODES, DEFAULT_SETTINGS.presentationMode),
     fontSize: validateNumber(
       partial.fontSize,
       DEFAULT_SETTINGS.fontSize,
@@ -154,6 +459,51 @@ export function validateSettings(partial: Partial<DashReaderSettings> | null | u
       LIMITS.accelerationTargetWpm.min,
       LIMITS.accelerationTargetWpm.max
     ),
+    accelerationCurve: validateOption(partial.accelerationCurve, ACCELERATION_CURVES, DEFAULT_SETTINGS.accelerationCurve),
+    accelerationRampWords: validateNumber(
+      partial.accelerationRampWords,
+      DEFAULT_SETTINGS.accelerationRampWords,
+      LIMITS.accelerationRampWords.min,
+      LIMITS.accelerationRampWords.max
+    ),
+    accelerationStepSentences: validateNumber(
+      partial.accelerationStepSentences,
+      DEFAULT_SETTINGS.accelerationStepSentences,
+      LIMITS.accelerationStepSentences.min,
+      LIMITS.accelerationStepSentences.max
+    ),
+    accelerationStepWpm: validateNumber(
+      partial.accelerationStepWpm,
+      DEFAULT_SETTINGS.accelerationStepWpm,
+      LIMITS.accelerationStepWpm.min,
+      LIMITS.accelerationStepWpm.max
+    ),
+    intervalTraining: validateBoolean(partial.intervalTraining, DEFAULT_SETTINGS.intervalTraining),
+    intervalUnit: validateOption(partial.intervalUnit, INTERVAL_UNITS, DEFAULT_SETTINGS.intervalUnit),
+    intervalSprintWpm: validateNumber(
+      partial.intervalSprintWpm,
+      DEFAULT_SETTINGS.intervalSprintWpm,
+      LIMITS.wpm.min,
+      LIMITS.wpm.max
+    ),
+    intervalSprintLength: validateNumber(
+      partial.intervalSprintLength,
+      DEFAULT_SETTINGS.intervalSprintLength,
+      LIMITS.intervalLength.min,
+      LIMITS.intervalLength.max
+    ),
+    intervalRecoveryWpm: validateNumber(
+      partial.intervalRecoveryWpm,
+      DEFAULT_SETTINGS.intervalRecoveryWpm,
+      LIMITS.wpm.min,
+      LIMITS.wpm.max
+    ),
+    intervalRecoveryLength: validateNumber(
+      partial.intervalRecoveryLength,
+      DEFAULT_SETTINGS.intervalRecoveryLength,
+      LIMITS.intervalLength.min,
+      LIMITS.intervalLength.max
+    ),
 
     // Micropause multipliers
     micropausePunctuation: validateNumber(
@@ -174,6 +524,13 @@ export function validateSettings(partial: Partial<DashReaderSettings> | null | u
       LIMITS.micropauseMultiplier.min,
       LIMITS.micropauseMultiplier.max
     ),
+    lexicalPacingStrength: validateNumber(
+      partial.lexicalPacingStrength,
+      DEFAULT_SETTINGS.lexicalPacingStrength,
+      LIMITS.lexicalPacingStrength.min,
+      LIMITS.lexicalPacingStrength.max
+    ),
+    micropauseRules: validateMicropauseRules(partial.micropauseRules),
     micropauseParagraph: validateNumber(
       partial.micropauseParagraph,
       DEFAULT_SETTINGS.micropauseParagraph,
@@ -204,6 +561,30 @@ export function validateSettings(partial: Partial<DashReaderSettings> | null | u
       LIMITS.micropauseMultiplier.min,
       LIMITS.micropauseMultiplier.max
     ),
+    micropauseBlocks: validateNumber(
+      partial.micropauseBlocks,
+      DEFAULT_SETTINGS.micropauseBlocks,
+      LIMITS.micropauseMultiplier.min,
+      LIMITS.micropauseMultiplier.max
+    ),
+    embedDepth: validateNumber(
+      partial.embedDepth,
+      DEFAULT_SETTINGS.embedDepth,
+      LIMITS.embedDepth.min,
+      LIMITS.embedDepth.max
+    ),
+    watchTermPause: validateNumber(
+      partial.watchTermPause,
+      DEFAULT_SETTINGS.watchTermPause,
+      LIMITS.micropauseMultiplier.min,
+      LIMITS.micropauseMultiplier.max
+    ),
+    summarySentences: validateNumber(
+      partial.summarySentences,
+      DEFAULT_SETTINGS.summarySentences,
+      LIMITS.summarySentences.min,
+      LIMITS.summarySentences.max
+    ),
     mobileFontSize: validateNumber(
       partial.mobileFontSize,
       DEFAULT_SETTINGS.mobileFontSize,
@@ -266,6 +647,9 @@ export function validateSettings(partial: Partial<DashReaderSettings> | null | u
     hotkeyIncrementWpm: validateString(partial.hotkeyIncrementWpm, DEFAULT_SETTINGS.hotkeyIncrementWpm),
     hotkeyDecrementWpm: validateString(partial.hotkeyDecrementWpm, DEFAULT_SETTINGS.hotkeyDecrementWpm),
     hotkeyQuit: validateString(partial.hotkeyQuit, DEFAULT_SETTINGS.hotkeyQuit),
+    codeBlockPolicy: validateOption(partial.codeBlockPolicy, BLOCK_POLICIES, DEFAULT_SETTINGS.codeBlockPolicy),
+    tablePolicy: validateOption(partial.tablePolicy, BLOCK_POLICIES, DEFAULT_SETTINGS.tablePolicy),
+    mathBlockPolicy: validateOption(partial.mathBlockPolicy, BLOCK_POLICIES, DEFAULT_SETTINGS.mathBlockPolicy),
 
     // Boolean settings
     showContext: validateBoolean(partial.showContext, DEFAULT_SETTINGS.showContext),
@@ -279,5 +663,28 @@ export function validateSettings(partial: Partial<DashReaderSettings> | null | u
     mobileShowBreadcrumb: validateBoolean(partial.mobileShowBreadcrumb, DEFAULT_SETTINGS.mobileShowBreadcrumb),
     mobileEnableSlowStart: validateBoolean(partial.mobileEnableSlowStart, DEFAULT_SETTINGS.mobileEnableSlowStart),
     mobileEnableMicropause: validateBoolean(partial.mobileEnableMicropause, DEFAULT_SETTINGS.mobileEnableMicropause),
+    rememberReadingPosition: validateBoolean(partial.rememberReadingPosition, DEFAULT_SETTINGS.rememberReadingPosition),
+    syncCursorOnClose: validateBoolean(partial.syncCursorOnClose, DEFAULT_SETTINGS.syncCursorOnClose),
+    expandEmbeds: validateBoolean(partial.expandEmbeds, DEFAULT_SETTINGS.expandEmbeds),
+    trackReadingStats: validateBoolean(partial.trackReadingStats, DEFAULT_SETTINGS.trackReadingStats),
+
+    // Persisted reader data
+    readingPositions: validateReadingPositions(partial.readingPositions),
+    readingSessions: validateReadingSessions(partial.readingSessions),
+    bookmarks: validateBookmarks(partial.bookmarks),
+    writeSessionDigest: validateBoolean(partial.writeSessionDigest, DEFAULT_SETTINGS.writeSessionDigest),
+    digestFolder: validateString(partial.digestFolder, DEFAULT_SETTINGS.digestFolder),
+    digestTemplate: validateString(partial.digestTemplate, DEFAULT_SETTINGS.digestTemplate) || DEFAULT_SETTINGS.digestTemplate,
+    readingQueue: Array.isArray(partial.readingQueue)
+      ? partial.readingQueue.filter((p): p is string => typeof p === 'string' && p.length > 0)
+      : [],
+    sectionSkipPattern: validateString(partial.sectionSkipPattern, DEFAULT_SETTINGS.sectionSkipPattern),
+    summaryPreview: validateBoolean(partial.summaryPreview, DEFAULT_SETTINGS.summaryPreview),
+    watchTerms: validateString(partial.watchTerms, DEFAULT_SETTINGS.watchTerms),
+    watchTermColor: validateColor(partial.watchTermColor, DEFAULT_SETTINGS.watchTermColor),
+    queueTag: validateString(partial.queueTag, DEFAULT_SETTINGS.queueTag).trim() || DEFAULT_SETTINGS.queueTag,
+    pacingProfiles,
+    activePacingProfile: pacingProfiles.some((p) => p.id === activePacingProfile) ? activePacingProfile : '',
+    pacingProfileRules: validatePacingProfileRules(partial.pacingProfileRules, pacingProfiles),
   };
 }
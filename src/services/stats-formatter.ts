@@ -0,0 +1,174 @@
+/**
+ * StatsFormatter - Aggregates and formats reading statistics
+ *
+ * PURPOSE
+ * ───────
+ * Pure functions over the session log (`settings.readingSessions`) used by
+ * the statistics view. Nothing here touches the DOM or mutates settings.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Summaries (ReadingStats) for any subset of sessions
+ * - Daily totals keyed by local calendar date
+ * - Reading streaks (consecutive days with at least one session)
+ * - Average speed trend (recent period vs the one before it)
+ * - Human-readable durations
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const overall = summarizeSessions(settings.readingSessions);
+ * const days = getDailyStats(settings.readingSessions, 14);
+ * const streak = getReadingStreak(settings.readingSessions);
+ * ```
+ */
+
+import { DailyReadingStats, ReadingSession, ReadingStats } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar date key (YYYY-MM-DD) for an epoch timestamp
+ */
+export function toDateKey(timestamp: number): string {
+  const d = new Date(timestamp);
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * Start of the local day containing the timestamp
+ */
+function startOfDay(timestamp: number): number {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+/**
+ * Sums a set of sessions into ReadingStats
+ * averageWpm is weighted by reading time (total words / total minutes).
+ */
+export function summarizeSessions(sessions: ReadingSession[]): ReadingStats {
+  let wordsRead = 0;
+  let timeSpent = 0;
+  for (const s of sessions) {
+    wordsRead += s.wordsRead;
+    timeSpent += s.readingSeconds;
+  }
+
+  return {
+    wordsRead,
+    timeSpent: Math.round(timeSpent),
+    sessionsCount: sessions.length,
+    averageWpm: timeSpent > 0 ? Math.round(wordsRead / (timeSpent / 60)) : 0,
+  };
+}
+
+/**
+ * Daily totals for the last `days` days (oldest first, today last)
+ * Days without sessions are included with zero values.
+ */
+export function getDailyStats(
+  sessions: ReadingSession[],
+  days: number,
+  now: number = Date.now()
+): DailyReadingStats[] {
+  const byDay = new Map<string, ReadingSession[]>();
+  for (const s of sessions) {
+    const key = toDateKey(s.startedAt);
+    const list = byDay.get(key);
+    if (list) list.push(s);
+    else byDay.set(key, [s]);
+  }
+
+  const result: DailyReadingStats[] = [];
+  const today = startOfDay(now);
+  for (let i = days - 1; i >= 0; i--) {
+    // Go through noon so DST shifts never land on the wrong date
+    const key = toDateKey(today - i * DAY_MS + DAY_MS / 2);
+    result.push({ date: key, ...summarizeSessions(byDay.get(key) ?? []) });
+  }
+  return result;
+}
+
+/**
+ * Current and longest streak of consecutive reading days
+ * The current streak stays alive until the end of today, so a streak that
+ * ended yesterday still counts.
+ */
+export function getReadingStreak(
+  sessions: ReadingSession[],
+  now: number = Date.now()
+): { current: number; longest: number } {
+  const dayIndex = (timestamp: number) => Math.round(startOfDay(timestamp) / DAY_MS);
+  const days = Array.from(new Set(sessions.map((s) => dayIndex(s.startedAt)))).sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = dayIndex(now);
+  const last = days[days.length - 1];
+  const current = last === today || last === today - 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Average speed of the last `days` days compared with the `days` before
+ *
+ * @returns Both averages (0 when there is no data) and the difference
+ */
+export function getWpmTrend(
+  sessions: ReadingSession[],
+  days: number,
+  now: number = Date.now()
+): { recentWpm: number; previousWpm: number; delta: number } {
+  const recentStart = startOfDay(now) - (days - 1) * DAY_MS;
+  const previousStart = recentStart - days * DAY_MS;
+
+  const recent = summarizeSessions(sessions.filter((s) => s.startedAt >= recentStart));
+  const previous = summarizeSessions(
+    sessions.filter((s) => s.startedAt >= previousStart && s.startedAt < recentStart)
+  );
+
+  const delta = recent.averageWpm > 0 && previous.averageWpm > 0
+    ? recent.averageWpm - previous.averageWpm
+    : 0;
+
+  return { recentWpm: recent.averageWpm, previousWpm: previous.averageWpm, delta };
+}
+
+/**
+ * Formats a duration for stats display
+ *
+ * @example
+ * ```typescript
+ * formatDuration(45)   // "45s"
+ * formatDuration(754)  // "12m"
+ * formatDuration(3900) // "1h 05m"
+ * ```
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  if (total < 60) return `${total}s`;
+
+  const mins = Math.floor(total / 60);
+  if (mins < 60) return `${mins}m`;
+
+  const hours = Math.floor(mins / 60);
+  return `${hours}h ${String(mins % 60).padStart(2, '0')}m`;
+}
+
+/**
+ * Formats a word count with thousands separators
+ */
+export function formatWordCount(words: number): string {
+  return Math.round(words).toLocaleString();
+}
@@ -0,0 +1,106 @@
+/**
+ * Text anchor - A word found again after its text was edited
+ *
+ * PURPOSE
+ * ───────
+ * Reading positions and bookmarks of a note are word indices, and any edit
+ * above them shifts those. An anchor keeps the word with a few words on
+ * each side (as search keys) and its offset in the source Markdown, so the
+ * word can be found again in the edited text.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Build the anchor of a word from the engine tokens
+ * - Find it again: best matching context first, source offset as fallback
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const anchor = createTextAnchor(tokens, index);
+ * const found = resolveTextAnchor(editedTokens, anchor, index, (offset) => engine.getTokenAtSourceOffset(offset));
+ * ```
+ */
+
+import { TextAnchor } from '../types';
+import { toSearchKey } from './text-search';
+
+/** Words kept on each side of the anchored word */
+const ANCHOR_CONTEXT_WORDS = 6;
+/** Share of the context words that must still surround the word for a match */
+const MIN_CONTEXT_MATCH = 0.5;
+
+/**
+ * The word at `wordIndex` with the words around it; null on a line break
+ * or block placeholder
+ */
+export function createTextAnchor(words: string[], wordIndex: number): TextAnchor | null {
+  const key = toSearchKey(words[wordIndex] ?? '');
+  if (!key) return null;
+
+  return {
+    key,
+    before: collectKeys(words, wordIndex, -1, ANCHOR_CONTEXT_WORDS),
+    after: collectKeys(words, wordIndex, 1, ANCHOR_CONTEXT_WORDS),
+  };
+}
+
+/**
+ * Where an anchored word is in an edited text: the occurrence of the word
+ * whose surroundings match the saved ones best (nearest to `expected` on a
+ * tie), else the token at the saved source offset
+ *
+ * @param expected - Index the word is most likely at (e.g. its old index)
+ * @param tokenAtSourceOffset - Token at a source Markdown offset (source map), if known
+ */
+export function resolveTextAnchor(
+  words: string[],
+  anchor: TextAnchor,
+  expected: number,
+  tokenAtSourceOffset?: (offset: number) => number | null
+): number | null {
+  const contextSize = anchor.before.length + anchor.after.length;
+
+  let best: number | null = null;
+  let bestScore = -1;
+  for (let i = 0; i < words.length; i++) {
+    if (toSearchKey(words[i]) !== anchor.key) continue;
+
+    const score =
+      countContextMatches(anchor.before, collectKeys(words, i, -1, anchor.before.length + 1)) +
+      countContextMatches(anchor.after, collectKeys(words, i, 1, anchor.after.length + 1));
+    const nearer = best !== null && Math.abs(i - expected) < Math.abs(best - expected);
+    if (score > bestScore || (score === bestScore && nearer)) {
+      best = i;
+      bestScore = score;
+    }
+  }
+
+  if (best !== null && bestScore >= contextSize * MIN_CONTEXT_MATCH) return best;
+  if (anchor.sourceOffset !== undefined && tokenAtSourceOffset) return tokenAtSourceOffset(anchor.sourceOffset);
+  return null;
+}
+
+/**
+ * Keys of up to `count` words from `index` in one direction (nearest first),
+ * line breaks and placeholders left out
+ */
+function collectKeys(words: string[], index: number, step: 1 | -1, count: number): string[] {
+  const keys: string[] = [];
+  for (let i = index + step; i >= 0 && i < words.length && keys.length < count; i += step) {
+    const key = toSearchKey(words[i]);
+    if (key) keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Saved context words found again, each one place off at most (a word
+ * added or removed next to the anchor does not shift the rest out)
+ */
+function countContextMatches(saved: string[], current: string[]): number {
+  let matches = 0;
+  saved.forEach((key, k) => {
+    if (current.slice(Math.max(0, k - 1), k + 2).includes(key)) matches += 1;
+  });
+  return matches;
+}
@@ -0,0 +1,120 @@
+/**
+ * Text search - Finding a phrase in the loaded text
+ *
+ * PURPOSE
+ * ───────
+ * Search inside the reader, without closing it: the query is matched
+ * against the engine's token stream, so every hit is a word index the
+ * engine can jump to, whatever the source (note, selection, PDF).
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Normalise tokens like PDF anchors do (normaliseTokenKey: case and
+ *   surrounding punctuation ignored; heading/callout markers dropped)
+ * - Match query words in sequence, across line breaks; the last query word
+ *   matches the start of a word, so results follow typing
+ * - Give each hit a short snippet from its line
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const index = createSearchIndex(tokens);           // once per text
+ * const hits = searchText(index, 'dark mat');
+ * // → [{ start: 40, end: 41, before: 'We found', match: 'dark matter', after: 'in the halo.' }]
+ * ```
+ */
+
+import { joinEngineTokens } from '../rsvp-engine';
+import { normaliseTokenKey } from '../pdf/utils';
+import { TokenRange } from './section-filter';
+
+export interface SearchIndex {
+  words: string[];
+  /** Normalised token keys ('' for line breaks and block placeholders) */
+  keys: string[];
+}
+
+export interface SearchHit extends TokenRange {
+  /** Snippet text before the hit (same line) */
+  before: string;
+  match: string;
+  /** Snippet text after the hit (same line) */
+  after: string;
+}
+
+/** Words of the line shown on each side of a hit */
+const SNIPPET_WORDS = 8;
+const MAX_HITS = 500;
+
+/**
+ * Search keys of a text; build it once per loaded text
+ *
+ * @param words - Engine tokens ('\n' included)
+ */
+export function createSearchIndex(words: string[]): SearchIndex {
+  return { words, keys: words.map(toSearchKey) };
+}
+
+/**
+ * Search key of one engine token ('' for line breaks and block placeholders)
+ */
+export function toSearchKey(word: string): string {
+  return word === '\n' || /^\[BLOCK:\w+:\d+\]$/.test(word)
+    ? ''
+    : normaliseTokenKey(word.replace(/^\[H\d\]/, '').replace(/^\[CALLOUT:[\w-]+\]/, ''));
+}
+
+/**
+ * Hits of the query, in reading order (at most 500)
+ *
+ * @param isExcluded - Tokens not to search (e.g. skipped sections); a hit may not touch any
+ */
+export function searchText(
+  index: SearchIndex,
+  query: string,
+  isExcluded: (i: number) => boolean = () => false
+): SearchHit[] {
+  const terms = query.split(/\s+/).map(normaliseTokenKey).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const { words, keys } = index;
+  const hits: SearchHit[] = [];
+  for (let i = 0; i < keys.length && hits.length < MAX_HITS; i++) {
+    if (!keys[i] || isExcluded(i)) continue;
+
+    let j = i;
+    let matched = true;
+    for (let k = 0; k < terms.length && matched; k++) {
+      while (k > 0 && j < keys.length && words[j] === '\n') j++;
+      const key = keys[j] ?? '';
+      matched = !isExcluded(j) && (k === terms.length - 1 ? key.startsWith(terms[k]) : key === terms[k]);
+      if (matched && k < terms.length - 1) j++;
+    }
+    if (!matched) continue;
+
+    hits.push({ start: i, end: j, ...getSnippet(words, i, j) });
+    i = j;
+  }
+  return hits;
+}
+
+/**
+ * Hit text with a few words of its line around it ('…' where the line goes on)
+ */
+function getSnippet(words: string[], start: number, end: number): Pick<SearchHit, 'before' | 'match' | 'after'> {
+  let from = start;
+  while (from > 0 && start - from < SNIPPET_WORDS && words[from - 1] !== '\n') from--;
+  let to = end;
+  while (to < words.length - 1 && to - end < SNIPPET_WORDS && words[to + 1] !== '\n') to++;
+
+  const before = joinEngineTokens(words.slice(from, start));
+  const after = joinEngineTokens(words.slice(end + 1, to + 1));
+  const cutBefore = from > 0 && words[from - 1] !== '\n';
+  const cutAfter = to < words.length - 1 && words[to + 1] !== '\n';
+
+  return {
+    before: cutBefore && before ? `…${before}` : before,
+    match: joinEngineTokens(words.slice(start, end + 1)),
+    after: cutAfter && after ? `${after}…` : after,
+  };
+}
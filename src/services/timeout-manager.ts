@@ -39,10 +39,22 @@
  * @author DashReader Team
  */
 
+import { Clock, systemClock } from './clock';
+
 export class TimeoutManager {
   private timeouts = new Map<number, number>();
   private intervals = new Map<number, number>();
 
+  /** Time source and scheduler; the engine reads the time from it too */
+  readonly clock: Clock;
+
+  /**
+   * @param clock - Scheduler to use (a FakeClock for headless playback)
+   */
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
   /**
    * Create a timeout that will be automatically tracked
    *
@@ -58,7 +70,7 @@ export class TimeoutManager {
    * ```
    */
   setTimeout(callback: () => void, delay: number): number {
-    const id = window.setTimeout(() => {
+    const id = this.clock.setTimeout(() => {
       callback();
       this.timeouts.delete(id);
     }, delay);
@@ -81,7 +93,7 @@ export class TimeoutManager {
    * ```
    */
   setInterval(callback: () => void, delay: number): number {
-    const id = window.setInterval(callback, delay);
+    const id = this.clock.setInterval(callback, delay);
     this.intervals.set(id, id);
     return id;
   }
@@ -98,7 +110,7 @@ export class TimeoutManager {
    * ```
    */
   clearTimeout(id: number): void {
-    window.clearTimeout(id);
+    this.clock.clearTimeout(id);
     this.timeouts.delete(id);
   }
 
@@ -114,7 +126,7 @@ export class TimeoutManager {
    * ```
    */
   clearInterval(id: number): void {
-    window.clearInterval(id);
+    this.clock.clearInterval(id);
     this.intervals.delete(id);
   }
 
@@ -133,11 +145,11 @@ export class TimeoutManager {
    */
   clearAll(): void {
     // Clear all timeouts
-    this.timeouts.forEach(id => window.clearTimeout(id));
+    this.timeouts.forEach(id => this.clock.clearTimeout(id));
     this.timeouts.clear();
 
     // Clear all intervals
-    this.intervals.forEach(id => window.clearInterval(id));
+    this.intervals.forEach(id => this.clock.clearInterval(id));
     this.intervals.clear();
   }
 
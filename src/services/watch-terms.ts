@@ -0,0 +1,123 @@
+/**
+ * Watch terms - Words to spot while reading
+ *
+ * PURPOSE
+ * ───────
+ * In technical reading a few names matter more than the rest: a project,
+ * a gene symbol, a drug. Watch terms (from the settings and the note's
+ * `dashreader-watch-terms` frontmatter) are highlighted in the focus band
+ * and the context panels, can get an extra pause, and can be jumped between.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Parse a term list ("Apollo, BRCA1, dark matter")
+ * - Find the token ranges of the terms in the engine's token stream
+ * - Find the terms in rendered text (context panels)
+ *
+ * Terms may span several words (not across a line break). Matching ignores
+ * the punctuation around a word and a trailing possessive; a term written
+ * in lowercase matches any case, one with a capital matches exactly (TP53
+ * does not match "tp53" in a URL slug, apollo matches "Apollo").
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * const terms = parseWatchTerms(settings.watchTerms);
+ * const hits = findWatchTermHits(engineTokens, terms);   // → [{ start: 40, end: 41 }, ...]
+ * const spans = findWatchTermSpans('We used dark matter.', terms); // → [{ start: 8, end: 19 }]
+ * ```
+ */
+
+import { TokenRange } from './section-filter';
+
+/** Character offsets [start, end), end excluded */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Terms of a comma- or newline-separated list, without duplicates
+ */
+export function parseWatchTerms(list: string | string[]): string[] {
+  const items = Array.isArray(list) ? list : list.split(/[,\n]/);
+  const terms = items.map((s) => s.trim().replace(/\s+/g, ' ')).filter((s) => s.length > 0);
+  return [...new Set(terms)];
+}
+
+/**
+ * Token ranges of the terms, in order; where hits overlap the first (longest) wins
+ *
+ * @param words - Engine tokens ('\n' included)
+ */
+export function findWatchTermHits(words: string[], terms: string[]): TokenRange[] {
+  const patterns = terms
+    .map((term) => ({ words: term.split(' ').map(toKey), exact: isExact(term) }))
+    .filter((p) => p.words.every(Boolean))
+    .map((p) => ({ ...p, words: p.exact ? p.words : p.words.map((w) => w.toLowerCase()) }))
+    .sort((a, b) => b.words.length - a.words.length);
+  if (patterns.length === 0) return [];
+
+  const keys = words.map(toKey);
+  const lowerKeys = keys.map((k) => k.toLowerCase());
+
+  const hits: TokenRange[] = [];
+  for (let i = 0; i < words.length; i++) {
+    if (!keys[i]) continue;
+    for (const pattern of patterns) {
+      const source = pattern.exact ? keys : lowerKeys;
+      const n = pattern.words.length;
+      let matched = i + n <= words.length;
+      for (let k = 0; k < n && matched; k++) matched = source[i + k] === pattern.words[k];
+      if (!matched) continue;
+
+      hits.push({ start: i, end: i + n - 1 });
+      i += n - 1;
+      break;
+    }
+  }
+  return hits;
+}
+
+/**
+ * Character spans of the terms in a rendered text, sorted and not overlapping
+ */
+export function findWatchTermSpans(text: string, terms: string[]): TextSpan[] {
+  const spans: TextSpan[] = [];
+  for (const term of terms) {
+    const body = term.split(' ').map(escapeRegExp).join('[ \\t]+');
+    const re = new RegExp(`(^|[^\\p{L}\\p{N}])(${body})(?=[^\\p{L}\\p{N}]|$)`, isExact(term) ? 'gu' : 'giu');
+    for (let m = re.exec(text); m; m = re.exec(text)) {
+      const start = m.index + m[1].length;
+      spans.push({ start, end: start + m[2].length });
+      re.lastIndex = start + m[2].length;
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: TextSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (!last || span.start >= last.end) merged.push(span);
+  }
+  return merged;
+}
+
+/** Word of a token without markers, surrounding punctuation and possessive ('' for '\n') */
+function toKey(token: string): string {
+  return token
+    .replace(/^\[H\d\]/, '')
+    .replace(/^\[CALLOUT:[\w-]+\]/, '')
+    .replace(/^[^\p{L}\p{N}]+/u, '')
+    .replace(/[^\p{L}\p{N}]+$/u, '')
+    .replace(/['’]s$/u, '');
+}
+
+/** Terms with a capital letter match case-sensitively */
+function isExact(term: string): boolean {
+  return term !== term.toLowerCase();
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
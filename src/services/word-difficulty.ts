@@ -0,0 +1,256 @@
+/**
+ * Word difficulty - Lexical difficulty of a word from frequency and syllables
+ *
+ * PURPOSE
+ * ───────
+ * A rare word takes longer to recognise than a common one, whatever its
+ * length ("ylem" vs "understanding"). This module rates each word between
+ * 0 (everyday word) and 1 (rare, many syllables) so the micropause service
+ * can give difficult words more time.
+ *
+ * KEY RESPONSIBILITIES
+ * ────────────────────
+ * - Bundled list of about 1000 frequent English words, by rank
+ * - Look words up with their inflections removed (-s, -ed, -ing, -ly…) and
+ *   contractions undone (don't, I'm, we've…)
+ * - Estimate syllables with vowel-group counting
+ * - Combine both into a 0..1 difficulty score
+ *
+ * Words outside the Latin script, numbers and markers are rated 0: the list
+ * is English-only and other strategies already cover digits and markers.
+ * Other languages in Latin letters cannot be told apart from rare English
+ * words, so most of their words rate as unknown (the setting says so).
+ *
+ * USAGE
+ * ─────
+ * ```typescript
+ * getWordDifficulty('the');           // 0
+ * getWordDifficulty('ylem');          // 0.7 (unknown, one syllable)
+ * getWordDifficulty('understanding'); // ~0.3 (listed, four syllables)
+ * ```
+ */
+
+/**
+ * Most frequent English words, most frequent first
+ * (rank = position; built from general-purpose corpus frequency lists)
+ */
+const COMMON_WORDS = (
+  'the of and to a in is it you that he was for on are with as i his they be at one have this ' +
+  'from or had by not word but what some we can out other were all there when up use your how said ' +
+  'an each she which do their time if will way about many then them write would like so these her ' +
+  'long make thing see him two has look more day could go come did number sound no most people my ' +
+  'over know water than call first who may down side been now find any new work part take get place ' +
+  'made live where after back little only round man year came show every good me give our under name ' +
+  'very through just form sentence great think say help low line differ turn cause much mean before ' +
+  'move right boy old too same tell does set three want air well also play small end put home read ' +
+  'hand port large spell add even land here must big high such follow act why ask men change went ' +
+  'light kind off need house picture try us again animal point mother world near build self earth ' +
+  'father head stand own page should country found answer school grow study still learn plant cover ' +
+  'food sun four between state keep eye never last let thought city tree cross farm hard start might ' +
+  'story saw far sea draw left late run while press close night real life few north open seem ' +
+  'together next white children begin got walk example ease paper group always music those both mark ' +
+  'often letter until mile river car feet care second book carry took science eat room friend began ' +
+  'idea fish mountain stop once base hear horse cut sure watch color face wood main enough plain girl ' +
+  'usual young ready above ever red list though feel talk bird soon body dog family direct pose leave ' +
+  'song measure door product black short numeral class wind question happen complete ship area half ' +
+  'rock order fire south problem piece told knew pass since top whole king space heard best hour better ' +
+  'true during hundred five remember step early hold west ground interest reach fast verb sing listen ' +
+  'six table travel less morning ten simple several vowel toward war lay against pattern slow center ' +
+  'love person money serve appear road map rain rule govern pull cold notice voice unit power town fine ' +
+  'certain fly fall lead cry dark machine note wait plan figure star box noun field rest correct able ' +
+  'pound done beauty drive stood contain front teach week final gave green oh quick develop ocean warm ' +
+  'free minute strong special mind behind clear tail produce fact street inch multiply nothing course ' +
+  'stay wheel full force blue object decide surface deep moon island foot system busy test record boat ' +
+  'common gold possible plane stead dry wonder laugh thousand ago ran check game shape equate hot miss ' +
+  'brought heat snow tire bring yes distant fill east paint language among grand ball yet wave drop ' +
+  'heart am present heavy dance engine position arm wide sail material size vary settle speak weight ' +
+  'general ice matter circle pair include divide syllable felt perhaps pick sudden count square reason ' +
+  'length represent art subject region energy hunt probable bed brother egg ride cell believe fraction ' +
+  'forest sit race window store summer train sleep prove lone leg exercise wall catch mount wish sky ' +
+  'board joy winter sat written wild instrument kept glass grass cow job edge sign visit past soft fun ' +
+  'bright gas weather month million bear finish happy hope flower clothe strange gone jump baby eight ' +
+  'village meet root buy raise solve metal whether push seven paragraph third shall held hair describe ' +
+  'cook floor either result burn hill safe cat century consider type law bit coast copy phrase silent ' +
+  'tall sand soil roll temperature finger industry value fight lie beat excite natural view sense ear ' +
+  'else quite broke case middle kill son lake moment scale loud spring observe child straight consonant ' +
+  'nation dictionary milk speed method organ pay age section dress cloud surprise quiet stone tiny climb ' +
+  'cool design poor lot experiment bottom key iron single stick flat twenty skin smile crease hole trade ' +
+  'melody trip office receive row mouth exact symbol die least trouble shout except wrote seed tone join ' +
+  'suggest clean break lady yard rise bad blow oil blood touch grew cent mix team wire cost lost brown ' +
+  'wear garden equal sent choose fell fit flow fair bank collect save control decimal gentle woman ' +
+  'captain practice separate difficult doctor please protect noon whose locate ring character insect ' +
+  'caught period indicate radio spoke atom human history effect electric expect crop modern element hit ' +
+  'student corner party supply bone rail imagine provide agree thus capital chair danger fruit rich ' +
+  'thick soldier process operate guess necessary sharp wing create neighbor wash bat rather crowd corn ' +
+  'compare poem string bell depend meat rub tube famous dollar stream fear sight thin triangle planet ' +
+  'hurry chief colony clock mine tie enter major fresh search send yellow gun allow print dead spot ' +
+  'desert suit current lift rose continue block chart hat sell success company subtract event particular ' +
+  'deal swim term opposite wife shoe shoulder spread arrange camp invent cotton born determine quart ' +
+  'nine truck noise level chance gather shop stretch throw shine property column molecule select wrong ' +
+  'gray repeat require broad prepare salt nose plural anger claim continent oxygen sugar death pretty ' +
+  'skill women season solution magnet silver thank branch match suffix especially fig afraid huge sister ' +
+  'steel discuss forward similar guide experience score apple bought led pitch coat mass card band rope ' +
+  'slip win dream evening condition feed tool total basic smell valley nor double seat arrive master ' +
+  'track parent shore division sheet substance favor connect post spend chord fat glad original share ' +
+  'station dad bread charge proper bar offer segment slave duck instant market degree populate chick ' +
+  'dear enemy reply drink occur support speech nature range steam motion path liquid log meant quotient ' +
+  'teeth shell neck'
+).split(' ');
+
+/**
+ * Frequent words of non-fiction and notes missing above, and inflected
+ * forms the stemming misses; ranked as SUPPLEMENT_RANK
+ */
+const SUPPLEMENT_WORDS = (
+  'government understand information however although research policy service ' +
+  'important business program report social economic political public health data ' +
+  'local national international development community ' +
+  'according available american association director education environment ' +
+  'individual management performance population president production professional ' +
+  'relationship security significant situation society technology within without yourself itself ' +
+  'himself herself themselves myself something anything everything someone anyone everyone ' +
+  'because another around almost already across actually probably really today tomorrow ' +
+  'yesterday usually maybe later upon whom via per being having ' +
+  'dying lying into different difference sometimes therefore neither basically simply sort ' +
+  'tonight given taken become became along whatever whenever wherever nobody somebody ' +
+  'everybody anybody somewhere anywhere everywhere nowhere towards'
+).split(' ');
+
+/** Negations whose base is not the word without n't */
+const IRREGULAR_NEGATIONS: Map<string, string> = new Map([
+  ["won't", 'will'],
+  ["can't", 'can'],
+  ["shan't", 'shall'],
+]);
+
+const LIST_SIZE = COMMON_WORDS.length;
+
+/** Ranks below this are everyday words with no extra time at all */
+const EVERYDAY_RANK = 150;
+
+const SUPPLEMENT_RANK = 300;
+
+/** Frequency difficulty of a listed word at the very end of the list (unlisted words: 1) */
+const LISTED_MAX = 0.5;
+
+/** Rank (0 = most frequent) of each listed word */
+const RANKS: Map<string, number> = new Map();
+COMMON_WORDS.forEach((word, rank) => {
+  if (!RANKS.has(word)) RANKS.set(word, rank);
+});
+SUPPLEMENT_WORDS.forEach((word) => {
+  if (!RANKS.has(word)) RANKS.set(word, SUPPLEMENT_RANK);
+});
+
+const FREQUENCY_WEIGHT = 0.7;
+const SYLLABLE_WEIGHT = 0.3;
+
+/** Leading [H1] / [CALLOUT:type] / [BLOCK:…] markers glued to the word */
+const MARKER_PREFIX_RE = /^(\[[^\]]*\])+/;
+
+/** Latin letters (including accented ones) and apostrophes */
+const LATIN_WORD_RE = /^[a-z\u00c0-\u024f']+$/;
+
+/**
+ * Forms of a word with common inflections removed, most likely first
+ */
+function stemCandidates(word: string): string[] {
+  const out = [word];
+  const add = (stem: string) => {
+    if (stem.length >= 2) out.push(stem);
+  };
+
+  // Contractions: don't -> do, I'm -> i, we'll -> we
+  if (word.endsWith("n't")) out.push(IRREGULAR_NEGATIONS.get(word) ?? word.slice(0, -3));
+  const contraction = /'(?:m|re|ve|ll|d)$/.exec(word);
+  if (contraction && contraction.index > 0) out.push(word.slice(0, contraction.index));
+
+  if (word.endsWith("'s")) add(word.slice(0, -2));
+  if (word.endsWith('ies')) add(`${word.slice(0, -3)}y`);
+  if (word.endsWith('es')) add(word.slice(0, -2));
+  if (word.endsWith('s') && !word.endsWith('ss')) add(word.slice(0, -1));
+  if (word.endsWith('ied')) add(`${word.slice(0, -3)}y`);
+  if (word.endsWith('ed')) {
+    add(word.slice(0, -2));
+    add(word.slice(0, -1));
+  }
+  if (word.endsWith('ing')) {
+    const stem = word.slice(0, -3);
+    add(stem);
+    add(`${stem}e`);
+    // running -> run
+    if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2]) add(stem.slice(0, -1));
+  }
+  if (word.endsWith('ly')) add(word.slice(0, -2));
+  if (word.endsWith('ily')) add(`${word.slice(0, -3)}y`);
+  if (word.endsWith('er')) {
+    add(word.slice(0, -2));
+    add(word.slice(0, -1));
+  }
+  if (word.endsWith('est')) add(word.slice(0, -3));
+  if (word.endsWith('ness')) add(word.slice(0, -4));
+  if (word.endsWith('ment')) add(word.slice(0, -4));
+  // different -> differ, difference -> differ
+  if (word.endsWith('ent')) add(word.slice(0, -3));
+  if (word.endsWith('ence')) add(word.slice(0, -4));
+  return out;
+}
+
+/**
+ * Frequency rank of a word or its stem (-1 if not in the list)
+ */
+export function getWordRank(word: string): number {
+  let best = -1;
+  for (const candidate of stemCandidates(word)) {
+    const rank = RANKS.get(candidate);
+    if (rank !== undefined && (best < 0 || rank < best)) best = rank;
+  }
+  return best;
+}
+
+/**
+ * Estimated syllable count (vowel groups, silent final e)
+ */
+export function estimateSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length === 0) return 0;
+  if (w.length <= 3) return 1;
+
+  const trimmed = w
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, (m) => m.charAt(0))
+    .replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+/**
+ * Lexical difficulty of a displayed word
+ *
+ * @param word - Token as shown by the reader (punctuation and markers allowed)
+ * @returns 0 (everyday word) to 1 (rare word with many syllables)
+ */
+export function getWordDifficulty(word: string): number {
+  const text = word.trim().replace(MARKER_PREFIX_RE, '');
+  if (/\d/.test(text)) return 0;
+
+  const clean = text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/^[^a-z\u00c0-\u024f]+|[^a-z\u00c0-\u024f]+$/g, '');
+  if (clean.length === 0 || !LATIN_WORD_RE.test(clean)) return 0;
+
+  const rank = getWordRank(clean);
+  let frequency: number;
+  if (rank < 0) {
+    frequency = 1;
+  } else if (rank < EVERYDAY_RANK) {
+    frequency = 0;
+  } else {
+    frequency = (LISTED_MAX * Math.log(rank / EVERYDAY_RANK)) / Math.log(LIST_SIZE / EVERYDAY_RANK);
+  }
+
+  // 1-2 syllables: no extra time; 5 and more: full
+  const syllables = Math.min(1, Math.max(0, (estimateSyllables(clean) - 2) / 3));
+
+  return FREQUENCY_WEIGHT * frequency + SYLLABLE_WEIGHT * syllables;
+}
@@ -1,6 +1,12 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import DashReaderPlugin from '../main';
 import { getInstalledFontFamilies } from './services/font-family';
+import { AccelerationCurve, ChunkingMode, DEFAULT_SETTINGS, IntervalUnit, MicropauseRule, PacingProfile, PacingProfileRule, PresentationMode } from './types';
+import { compileRulePattern, MICROPAUSE_TOKEN_CLASSES } from './services/micropause-rules';
+import { PacingProfileManager } from './services/pacing-profiles';
+import { previewAccelerationCurve } from './services/acceleration-curve';
+import { PacingProfileImportModal } from './pacing-profile-modal';
+import type { BlockPolicy } from './markdown';
 
 function cssQuoteFont(name: string): string {
   const t = name.trim();
@@ -257,6 +263,324 @@ export class DashReaderSettingTab extends PluginSettingTab {
   /**
    * Helper method to create a slider with an editable numeric display
    */
+  /**
+   * Pacing profiles: switcher, saved profiles, folder/tag defaults, sharing
+   */
+  private displayPacingProfiles(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+    const profiles = new PacingProfileManager(settings);
+
+    new Setting(containerEl).setName("Pacing profiles").setHeading();
+
+    const profileOptions: Record<string, string> = {};
+    for (const profile of profiles.getProfiles()) {
+      profileOptions[profile.id] = profile.name;
+    }
+
+    new Setting(containerEl)
+      .setName('Active profile')
+      .setDesc('Applies the speed, chunk size, slow start, acceleration and micropause settings of a profile. Also available in the reader\'s inline settings.')
+      .addDropdown(dropdown => dropdown
+        .addOption('', 'Custom')
+        .addOptions(profileOptions)
+        .setValue(settings.activePacingProfile)
+        .onChange(async (value) => {
+          if (value) profiles.apply(value);
+          else settings.activePacingProfile = '';
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    for (const profile of profiles.getProfiles()) {
+      new Setting(containerEl)
+        .setName(profile.name)
+        .setDesc(this.describePacingProfile(profile))
+        .addExtraButton(button => button
+          .setIcon('save')
+          .setTooltip('Update from current settings')
+          .onClick(async () => {
+            profiles.updateFromCurrent(profile.id);
+            await this.plugin.saveSettings();
+            new Notice(`Saved current settings to "${profile.name}"`);
+            this.display();
+          }))
+        .addExtraButton(button => button
+          .setIcon('copy')
+          .setTooltip('Copy as JSON')
+          .onClick(() => this.copyPacingProfiles(profiles.exportProfiles([profile.id]))))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete profile')
+          .onClick(async () => {
+            profiles.delete(profile.id);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    }
+
+    let newProfileName = '';
+    new Setting(containerEl)
+      .setName('Save current settings as profile')
+      .addText(text => text
+        .setPlaceholder('Profile name')
+        .onChange((value) => {
+          newProfileName = value;
+        }))
+      .addButton(button => button
+        .setButtonText('Save')
+        .onClick(async () => {
+          if (!newProfileName.trim()) {
+            new Notice('Enter a name for the profile');
+            return;
+          }
+          profiles.saveCurrentAs(newProfileName);
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName('Share profiles')
+      .setDesc('Copy all profiles as JSON for teammates, or import profiles they shared.')
+      .addButton(button => button
+        .setButtonText('Copy all')
+        .onClick(() => this.copyPacingProfiles(profiles.exportProfiles())))
+      .addButton(button => button
+        .setButtonText('Import')
+        .onClick(() => {
+          new PacingProfileImportModal(this.app, (json) => {
+            const count = profiles.importProfiles(json);
+            void this.plugin.saveSettings().then(() => this.display());
+            return count;
+          }).open();
+        }));
+
+    new Setting(containerEl)
+      .setName('Folder and tag defaults')
+      .setDesc('Loading a file from a folder (subfolders included) or with a tag applies its profile to that file only. The first matching rule wins.')
+      .addButton(button => button
+        .setButtonText('Add rule')
+        .setDisabled(profiles.getProfiles().length === 0)
+        .onClick(async () => {
+          settings.pacingProfileRules.push({ kind: 'folder', value: '', profileId: profiles.getProfiles()[0].id });
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    settings.pacingProfileRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(`Default ${index + 1}`)
+        .addDropdown(dropdown => dropdown
+          .addOptions({ folder: 'Folder', tag: 'Tag' })
+          .setValue(rule.kind)
+          .onChange(async (value) => {
+            rule.kind = value as PacingProfileRule['kind'];
+            await this.plugin.saveSettings();
+            this.display();
+          }))
+        .addText(text => text
+          .setPlaceholder(rule.kind === 'folder' ? 'Papers/2024' : '#fiction')
+          .setValue(rule.value)
+          .onChange(async (value) => {
+            rule.value = value.trim();
+            await this.plugin.saveSettings();
+          }))
+        .addDropdown(dropdown => dropdown
+          .addOptions(profileOptions)
+          .setValue(rule.profileId)
+          .onChange(async (value) => {
+            rule.profileId = value;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete rule')
+          .onClick(async () => {
+            settings.pacingProfileRules.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+  }
+
+  private async saveAccelerationSetting(previewEl: HTMLElement): Promise<void> {
+    this.renderAccelerationPreview(previewEl);
+    await this.plugin.saveSettings();
+  }
+
+  /**
+   * Small WPM-over-time chart of the acceleration curve (desktop base speed,
+   * plain words without micropauses)
+   */
+  private renderAccelerationPreview(el: HTMLElement): void {
+    el.empty();
+
+    const settings = this.plugin.settings;
+    const points = previewAccelerationCurve(settings, settings.wpm);
+    const endSec = Math.max(1, points[points.length - 1]?.seconds ?? 1);
+    const wpms = points.map((p) => p.wpm);
+    const minWpm = Math.min(...wpms, settings.wpm, settings.accelerationTargetWpm);
+    const maxWpm = Math.max(...wpms, settings.wpm, settings.accelerationTargetWpm);
+    const range = Math.max(1, maxWpm - minWpm);
+
+    const width = 300;
+    const height = 80;
+    const pad = 4;
+    const x = (sec: number) => pad + (sec / endSec) * (width - 2 * pad);
+    const y = (wpm: number) => height - pad - ((wpm - minWpm) / range) * (height - 2 * pad);
+
+    const svg = el.createSvg('svg', {
+      cls: 'dashreader-accel-preview-chart',
+      attr: { viewBox: `0 0 ${width} ${height}`, preserveAspectRatio: 'none' },
+    });
+    svg.createSvg('polyline', {
+      cls: 'dashreader-accel-preview-line',
+      attr: { points: points.map((p) => `${x(p.seconds).toFixed(1)},${y(p.wpm).toFixed(1)}`).join(' ') },
+    });
+
+    el.createDiv({
+      cls: 'dashreader-accel-preview-caption',
+      text: `${minWpm}–${maxWpm} wpm over ${Math.round(endSec)} s`
+        + (settings.enableAcceleration ? '' : ' (acceleration is off)'),
+    });
+  }
+
+  /**
+   * One-line summary of what a profile sets: "800 wpm · 2 words · accelerates to 1000 wpm"
+   */
+  private describePacingProfile(profile: PacingProfile): string {
+    const v = profile.values;
+    const parts: string[] = [];
+    if (v.wpm !== undefined) parts.push(`${v.wpm} wpm`);
+    if (v.chunkingMode === 'phrase') parts.push('phrases');
+    else if (v.chunkSize !== undefined) parts.push(`${v.chunkSize} word${v.chunkSize === 1 ? '' : 's'}`);
+    if (v.skimMode) parts.push('skim');
+    if (v.enableAcceleration) {
+      const curve = v.accelerationCurve && v.accelerationCurve !== 'linear' ? ` (${v.accelerationCurve})` : '';
+      parts.push(`accelerates to ${v.accelerationTargetWpm ?? DEFAULT_SETTINGS.accelerationTargetWpm} wpm${curve}`);
+    }
+    if (v.intervalTraining) parts.push(`intervals ${v.intervalSprintWpm ?? DEFAULT_SETTINGS.intervalSprintWpm}/${v.intervalRecoveryWpm ?? DEFAULT_SETTINGS.intervalRecoveryWpm} wpm`);
+    if (v.enableMicropause === false) parts.push('no micropause');
+    if (v.lexicalPacingStrength) parts.push(`lexical pacing ${v.lexicalPacingStrength}`);
+    if (v.micropauseRules && v.micropauseRules.length > 0) {
+      parts.push(`${v.micropauseRules.length} custom rule${v.micropauseRules.length === 1 ? '' : 's'}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'No settings saved';
+  }
+
+  private copyPacingProfiles(json: string): void {
+    navigator.clipboard.writeText(json).then(
+      () => new Notice('Pacing profiles copied to the clipboard'),
+      (err) => {
+        console.error('[DashReader] Could not copy pacing profiles', err);
+        new Notice('Could not copy to the clipboard');
+      }
+    );
+  }
+
+  /**
+   * Custom micropause rules: one row per rule, plus an add button
+   */
+  private displayMicropauseRules(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Custom rules')
+      .setDesc('Your own pauses: words matching a regular expression (case-sensitive) or a word class get a multiplier, or are not shown at all. Rules stack with the pauses above.')
+      .addButton(button => button
+        .setButtonText('Add rule')
+        .onClick(async () => {
+          this.plugin.settings.micropauseRules.push({
+            enabled: true,
+            match: 'citation',
+            pattern: '',
+            action: 'pause',
+            multiplier: 1.5,
+          });
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    const matchOptions: Record<string, string> = { regex: 'Regular expression' };
+    for (const [key, cls] of Object.entries(MICROPAUSE_TOKEN_CLASSES)) {
+      matchOptions[key] = cls.label;
+    }
+
+    this.plugin.settings.micropauseRules.forEach((rule, index) => {
+      const setting = new Setting(containerEl)
+        .setName(`Rule ${index + 1}`)
+        .setClass('dashreader-micropause-rule');
+
+      setting.addDropdown(dropdown => dropdown
+        .addOptions(matchOptions)
+        .setValue(rule.match)
+        .onChange(async (value) => {
+          rule.match = value as MicropauseRule['match'];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+      if (rule.match === 'regex') {
+        setting.addText(text => {
+          const markValidity = () => {
+            const valid = compileRulePattern(rule.pattern) !== null;
+            text.inputEl.toggleClass('dashreader-invalid-input', !valid);
+            text.inputEl.title = valid ? '' : 'Not a valid regular expression; the rule is ignored';
+          };
+          text
+            .setPlaceholder('^[A-Z]{2,}\\d*$')
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              rule.pattern = value;
+              markValidity();
+              await this.plugin.saveSettings();
+            });
+          markValidity();
+        });
+      }
+
+      setting.addDropdown(dropdown => dropdown
+        .addOptions({ pause: 'Pause', skip: 'Skip word' })
+        .setValue(rule.action)
+        .onChange(async (value) => {
+          rule.action = value as MicropauseRule['action'];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+      if (rule.action === 'pause') {
+        setting.addText(text => {
+          text.inputEl.type = 'number';
+          text.inputEl.step = '0.1';
+          text.inputEl.addClass('dashreader-slider-input');
+          text
+            .setValue(rule.multiplier.toString())
+            .onChange(async (value) => {
+              const multiplier = parseFloat(value);
+              if (isNaN(multiplier)) return;
+              rule.multiplier = Math.max(0.1, Math.min(10, multiplier));
+              await this.plugin.saveSettings();
+            });
+        });
+        setting.controlEl.createSpan({ text: 'x', cls: 'dashreader-slider-unit' });
+      }
+
+      setting
+        .addToggle(toggle => toggle
+          .setTooltip('Enabled')
+          .setValue(rule.enabled)
+          .onChange(async (value) => {
+            rule.enabled = value;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete rule')
+          .onClick(async () => {
+            this.plugin.settings.micropauseRules.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+  }
+
   private createSliderWithInput(
     setting: Setting,
     min: number,
@@ -419,6 +743,62 @@ export class DashReaderSettingTab extends PluginSettingTab {
       }
     );
 
+    new Setting(containerEl)
+      .setName('Chunking')
+      .setDesc('Fixed shows the number of words set above. Phrases groups words into short units: small words stay with the word they lead to, numbers with their unit, names together.')
+      .addDropdown(dropdown => dropdown
+        .addOptions({ fixed: 'Fixed number of words', phrase: 'Phrases' })
+        .setValue(this.plugin.settings.chunkingMode)
+        .onChange(async (value) => {
+          this.plugin.settings.chunkingMode = value as ChunkingMode;
+          await this.plugin.saveSettings();
+        }));
+
+    const phraseWidthSetting = new Setting(containerEl)
+      .setName('Maximum phrase width')
+      .setDesc('Longest phrase shown at once, in characters (8–60). A single longer word is still shown whole.');
+    this.createSliderWithInput(
+      phraseWidthSetting,
+      8, 60, 1,
+      this.plugin.settings.phraseMaxChars,
+      '',
+      async (value) => {
+        this.plugin.settings.phraseMaxChars = value;
+        await this.plugin.saveSettings();
+      }
+    );
+
+    new Setting(containerEl)
+      .setName('Presentation')
+      .setDesc('Words flashes one word or chunk at a time. Sentence and line show the whole sentence or wrapped line and move a highlight across it at the reading speed. Pacer shows the text itself, scrolling by paragraph, with a bar moving over the words.')
+      .addDropdown(dropdown => dropdown
+        .addOptions({ word: 'Words', sentence: 'Sentence', line: 'Line', pacer: 'Pacer' })
+        .setValue(this.plugin.settings.presentationMode)
+        .onChange(async (value) => {
+          this.plugin.settings.presentationMode = value as PresentationMode;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Skim')
+      .setDesc('Play headings and the first sentence of each paragraph, jumping over the other sentences. Skipped parts are striped on the progress bar. Click one to read it in full.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.skimMode)
+        .onChange(async (value) => {
+          this.plugin.settings.skimMode = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Skim: last sentence too')
+      .setDesc('Also play the last sentence of each paragraph while skimming.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.skimLastSentence)
+        .onChange(async (value) => {
+          this.plugin.settings.skimLastSentence = value;
+          await this.plugin.saveSettings();
+        }));
+
     const minTokenFontSizeSetting = new Setting(containerEl)
       .setName('Minimum Token Font Size')
       .setDesc('Lowest font size used when a single long token is shrunk to fit (8–48px).');
@@ -502,7 +882,7 @@ export class DashReaderSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Enable Acceleration')
-      .setDesc('Gradually increase reading speed over time.')
+      .setDesc('Gradually change reading speed from the base speed to the target speed.')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.enableAcceleration)
         .onChange(async (value) => {
@@ -510,9 +890,27 @@ export class DashReaderSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    const accelerationCurves: Record<AccelerationCurve, string> = {
+      linear: 'Linear',
+      'ease-in': 'Ease in (slow, then faster)',
+      steps: 'Step up every few sentences',
+      sine: 'Sine wave (interval training)',
+      words: 'Linear over words read',
+    };
+    new Setting(containerEl)
+      .setName('Acceleration curve')
+      .setDesc('How speed moves towards the target. Time estimates follow the same curve.')
+      .addDropdown(dropdown => dropdown
+        .addOptions(accelerationCurves)
+        .setValue(this.plugin.settings.accelerationCurve)
+        .onChange(async (value) => {
+          this.plugin.settings.accelerationCurve = value as AccelerationCurve;
+          await this.saveAccelerationSetting(previewEl);
+        }));
+
     const accelDurationSetting = new Setting(containerEl)
       .setName('Acceleration Duration')
-      .setDesc('Duration to reach target speed (seconds).');
+      .setDesc('Seconds to reach the target speed (linear, ease in), or length of one wave (sine).');
     this.createSliderWithInput(
       accelDurationSetting,
       10, 120, 5,
@@ -520,7 +918,7 @@ export class DashReaderSettingTab extends PluginSettingTab {
       's',
       async (value) => {
         this.plugin.settings.accelerationDuration = value;
-        await this.plugin.saveSettings();
+        await this.saveAccelerationSetting(previewEl);
       }
     );
 
@@ -534,6 +932,217 @@ export class DashReaderSettingTab extends PluginSettingTab {
       '',
       async (value) => {
         this.plugin.settings.accelerationTargetWpm = value;
+        await this.saveAccelerationSetting(previewEl);
+      }
+    );
+
+    const rampWordsSetting = new Setting(containerEl)
+      .setName('Words to reach the target')
+      .setDesc('Length of the ramp for the words read curve.');
+    this.createSliderWithInput(
+      rampWordsSetting,
+      50, 5000, 50,
+      this.plugin.settings.accelerationRampWords,
+      '',
+      async (value) => {
+        this.plugin.settings.accelerationRampWords = value;
+        await this.saveAccelerationSetting(previewEl);
+      }
+    );
+
+    const stepSentencesSetting = new Setting(containerEl)
+      .setName('Sentences per step')
+      .setDesc('The step curve speeds up after this many sentences.');
+    this.createSliderWithInput(
+      stepSentencesSetting,
+      1, 50, 1,
+      this.plugin.settings.accelerationStepSentences,
+      '',
+      async (value) => {
+        this.plugin.settings.accelerationStepSentences = value;
+        await this.saveAccelerationSetting(previewEl);
+      }
+    );
+
+    const stepWpmSetting = new Setting(containerEl)
+      .setName('Speed added per step')
+      .setDesc('Words per minute added at each step of the step curve.');
+    this.createSliderWithInput(
+      stepWpmSetting,
+      5, 200, 5,
+      this.plugin.settings.accelerationStepWpm,
+      '',
+      async (value) => {
+        this.plugin.settings.accelerationStepWpm = value;
+        await this.saveAccelerationSetting(previewEl);
+      }
+    );
+
+    const previewEl = containerEl.createDiv({ cls: 'dashreader-accel-preview' });
+    this.renderAccelerationPreview(previewEl);
+
+    // Section: Interval training
+    new Setting(containerEl).setName('Interval training').setHeading();
+
+    new Setting(containerEl)
+      .setName('Enable interval training')
+      .setDesc('Alternate a sprint speed and a recovery speed. Replaces the base speed and acceleration while on; the current phase is shown next to the word count.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.intervalTraining)
+        .onChange(async (value) => {
+          this.plugin.settings.intervalTraining = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Interval unit')
+      .setDesc('Measure sprints and recoveries in reading seconds or in paragraphs.')
+      .addDropdown(dropdown => dropdown
+        .addOptions({ seconds: 'Seconds', paragraphs: 'Paragraphs' })
+        .setValue(this.plugin.settings.intervalUnit)
+        .onChange(async (value) => {
+          this.plugin.settings.intervalUnit = value as IntervalUnit;
+          await this.plugin.saveSettings();
+        }));
+
+    const addIntervalSliders = (
+      phase: string,
+      wpmKey: 'intervalSprintWpm' | 'intervalRecoveryWpm',
+      lengthKey: 'intervalSprintLength' | 'intervalRecoveryLength'
+    ) => {
+      const wpmSetting = new Setting(containerEl)
+        .setName(`${phase} speed`)
+        .setDesc(`Words per minute during ${phase.toLowerCase()} phases.`);
+      this.createSliderWithInput(wpmSetting, 50, 2000, 25, this.plugin.settings[wpmKey], '', async (value) => {
+        this.plugin.settings[wpmKey] = value;
+        await this.plugin.saveSettings();
+      });
+
+      const lengthSetting = new Setting(containerEl)
+        .setName(`${phase} length`)
+        .setDesc('In seconds or paragraphs, depending on the interval unit.');
+      this.createSliderWithInput(lengthSetting, 1, 300, 1, this.plugin.settings[lengthKey], '', async (value) => {
+        this.plugin.settings[lengthKey] = value;
+        await this.plugin.saveSettings();
+      });
+    };
+    addIntervalSliders('Sprint', 'intervalSprintWpm', 'intervalSprintLength');
+    addIntervalSliders('Recovery', 'intervalRecoveryWpm', 'intervalRecoveryLength');
+
+    // Section: Markdown blocks
+    new Setting(containerEl).setName("Code, tables, math and embeds").setHeading();
+
+    const blockPolicies: Record<BlockPolicy, string> = {
+      read: 'Read',
+      skip: 'Skip',
+      placeholder: 'Placeholder',
+      panel: 'Pause and show in a panel',
+    };
+    const addBlockPolicySetting = (
+      name: string,
+      desc: string,
+      key: 'codeBlockPolicy' | 'tablePolicy' | 'mathBlockPolicy'
+    ) => {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addDropdown(dropdown => dropdown
+          .addOptions(blockPolicies)
+          .setValue(this.plugin.settings[key])
+          .onChange(async (value) => {
+            this.plugin.settings[key] = value as BlockPolicy;
+            await this.plugin.saveSettings();
+          }));
+    };
+
+    addBlockPolicySetting(
+      'Code blocks',
+      'Skip leaves a short marker, placeholder reads "[code block: 12 lines]", panel pauses and shows the code. Applies to notes loaded afterwards.',
+      'codeBlockPolicy'
+    );
+    addBlockPolicySetting('Tables', 'Read cell by cell, skip, or replace with "[table: 4 rows]".', 'tablePolicy');
+    addBlockPolicySetting('Math blocks', 'Handling of $$ display math blocks.', 'mathBlockPolicy');
+
+    new Setting(containerEl)
+      .setName('Read embedded notes')
+      .setDesc('Read embeds of other notes, headings and blocks in place, each introduced like a callout.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.expandEmbeds)
+        .onChange(async (value) => {
+          this.plugin.settings.expandEmbeds = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const embedDepthSetting = new Setting(containerEl)
+      .setName('Embed depth')
+      .setDesc('How many levels of embeds inside embedded notes are read (1-5).');
+    this.createSliderWithInput(
+      embedDepthSetting,
+      1, 5, 1,
+      this.plugin.settings.embedDepth,
+      '',
+      async (value) => {
+        this.plugin.settings.embedDepth = value;
+        await this.plugin.saveSettings();
+      }
+    );
+
+    new Setting(containerEl)
+      .setName('Skip sections matching')
+      .setDesc('Regular expression tested against headings (case-insensitive). Matching sections and their subsections are skipped when a note is loaded; the sections dialog can bring them back. Example: references|acknowledg')
+      .addText(text => text
+        .setPlaceholder('Appendix|references')
+        .setValue(this.plugin.settings.sectionSkipPattern)
+        .onChange(async (value) => {
+          this.plugin.settings.sectionSkipPattern = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Watch terms')
+      .setDesc('Comma-separated terms highlighted in the reading band and the context (project names, gene symbols...). Lowercase terms match any case; terms with a capital match exactly. Notes can add their own with dashreader-watch-terms in the frontmatter. N / Shift+N jump to the next / previous one.')
+      .addTextArea(text => text
+        .setPlaceholder('Apollo, dark matter')
+        .setValue(this.plugin.settings.watchTerms)
+        .onChange(async (value) => {
+          this.plugin.settings.watchTerms = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const watchPauseSetting = new Setting(containerEl)
+      .setName('Watch term pause')
+      .setDesc('Pause multiplier after a watch term (1.0 = no extra pause, up to 10.0).');
+    this.createSliderWithInput(
+      watchPauseSetting,
+      1.0, 10.0, 0.1,
+      this.plugin.settings.watchTermPause,
+      'x',
+      async (value) => {
+        this.plugin.settings.watchTermPause = value;
+        await this.plugin.saveSettings();
+      }
+    );
+
+    new Setting(containerEl)
+      .setName('Play a summary first')
+      .setDesc('When reading a text from its start, first play its key sentences (picked locally from word weights and position), then the full text. The summary list jumps to any of them.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.summaryPreview)
+        .onChange(async (value) => {
+          this.plugin.settings.summaryPreview = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const summarySentencesSetting = new Setting(containerEl)
+      .setName('Summary sentences')
+      .setDesc('Number of sentences in the summary (1-20).');
+    this.createSliderWithInput(
+      summarySentencesSetting,
+      1, 20, 1,
+      this.plugin.settings.summarySentences,
+      '',
+      async (value) => {
+        this.plugin.settings.summarySentences = value;
         await this.plugin.saveSettings();
       }
     );
@@ -563,6 +1172,17 @@ export class DashReaderSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Watch term color')
+      .setDesc('Color of highlighted watch terms. Leave blank to use the theme accent (maps to --dashreader-watch-color).')
+      .addText(text => text
+        .setPlaceholder('#e5a50a')
+        .setValue(this.plugin.settings.watchTermColor)
+        .onChange(async (value) => {
+          this.plugin.settings.watchTermColor = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Background Color')
       .setDesc('Leave blank to use theme/CSS (Maps to --dashreader-background-color.).')
@@ -714,6 +1334,20 @@ export class DashReaderSettingTab extends PluginSettingTab {
       }
     );
 
+    const lexicalSetting = new Setting(containerEl)
+      .setName('Lexical pacing')
+      .setDesc('Extra time for rare words and words with many syllables, from a bundled word-frequency list. The rarest words get up to 1 + strength times as long. The list only knows one language: in notes in other languages most words count as rare. Replaces the long-word pause; 0 turns it off (0-2).');
+    this.createSliderWithInput(
+      lexicalSetting,
+      0, 2.0, 0.1,
+      this.plugin.settings.lexicalPacingStrength,
+      'x',
+      async (value) => {
+        this.plugin.settings.lexicalPacingStrength = value;
+        await this.plugin.saveSettings();
+      }
+    );
+
     const paragraphSetting = new Setting(containerEl)
       .setName('Paragraph Pause')
       .setDesc('Pause multiplier for paragraph breaks (1.0-5.0).');
@@ -784,6 +1418,25 @@ export class DashReaderSettingTab extends PluginSettingTab {
       }
     );
 
+    const blocksSetting = new Setting(containerEl)
+      .setName('Block placeholder pause')
+      .setDesc('Pause multiplier for skipped or replaced code blocks, tables and math (1.0-5.0).');
+    this.createSliderWithInput(
+      blocksSetting,
+      1.0, 5.0, 0.1,
+      this.plugin.settings.micropauseBlocks,
+      'x',
+      async (value) => {
+        this.plugin.settings.micropauseBlocks = value;
+        await this.plugin.saveSettings();
+      }
+    );
+
+    this.displayMicropauseRules(containerEl);
+
+    // Section: Pacing profiles
+    this.displayPacingProfiles(containerEl);
+
     // Section: Auto-start
     new Setting(containerEl).setName("Auto-start").setHeading();
 
@@ -811,6 +1464,144 @@ export class DashReaderSettingTab extends PluginSettingTab {
       }
     );
 
+    // Section: Reading position
+    new Setting(containerEl).setName("Reading position").setHeading();
+
+    new Setting(containerEl)
+      .setName('Remember reading position')
+      .setDesc('Save where you stopped in each note or PDF and offer to resume when it is loaded again.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.rememberReadingPosition)
+        .onChange(async (value) => {
+          this.plugin.settings.rememberReadingPosition = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Sync editor cursor on close')
+      .setDesc('When the reader closes, move the cursor of the note being read to the last word shown, so you can continue reading normally from there.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.syncCursorOnClose)
+        .onChange(async (value) => {
+          this.plugin.settings.syncCursorOnClose = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const savedCount = Object.keys(this.plugin.settings.readingPositions).length;
+    new Setting(containerEl)
+      .setName('Saved positions')
+      .setDesc(`${savedCount} file${savedCount === 1 ? '' : 's'} remembered.`)
+      .addButton(button => button
+        .setButtonText('Clear')
+        .setDisabled(savedCount === 0)
+        .onClick(async () => {
+          this.plugin.settings.readingPositions = {};
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    // Section: Statistics
+    new Setting(containerEl).setName("Statistics").setHeading();
+
+    new Setting(containerEl)
+      .setName('Track reading sessions')
+      .setDesc('Log words read, speed, pauses and rewinds per session. Open the statistics view from the command palette.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.trackReadingStats)
+        .onChange(async (value) => {
+          this.plugin.settings.trackReadingStats = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const sessionCount = this.plugin.settings.readingSessions.length;
+    new Setting(containerEl)
+      .setName('Session history')
+      .setDesc(`${sessionCount} session${sessionCount === 1 ? '' : 's'} recorded.`)
+      .addButton(button => button
+        .setButtonText('Clear')
+        .setWarning()
+        .setDisabled(sessionCount === 0)
+        .onClick(async () => {
+          this.plugin.settings.readingSessions = [];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    // Section: Session digest
+    new Setting(containerEl).setName("Session digest").setHeading();
+
+    new Setting(containerEl)
+      .setName('Write a digest note')
+      .setDesc('When a reading session ends, append the sections read, time per section, speed and rewound passages to a note named after the source.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.writeSessionDigest)
+        .onChange(async (value) => {
+          this.plugin.settings.writeSessionDigest = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Digest folder')
+      .setDesc('Vault folder for digest notes. Created if missing; leave blank for the vault root.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.digestFolder)
+        .setValue(this.plugin.settings.digestFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.digestFolder = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Digest template')
+      .setDesc('Placeholders: {{file}}, {{link}}, {{date}}, {{time}}, {{duration}}, {{words}}, {{wpm}}, {{pauses}}, {{sections}}, {{rewinds}}.')
+      .addTextArea(text => {
+        text
+          .setValue(this.plugin.settings.digestTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.digestTemplate = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.addClass('dashreader-digest-template');
+        text.inputEl.rows = 10;
+      })
+      .addExtraButton(button => button
+        .setIcon('reset')
+        .setTooltip('Restore default template')
+        .onClick(async () => {
+          this.plugin.settings.digestTemplate = DEFAULT_SETTINGS.digestTemplate;
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    // Section: Reading queue
+    new Setting(containerEl).setName("Reading queue").setHeading();
+
+    new Setting(containerEl)
+      .setName('Queue tag')
+      .setDesc('Notes with this tag (or a nested tag below it) are added by the "add tagged notes to reading queue" command.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_SETTINGS.queueTag)
+        .setValue(this.plugin.settings.queueTag)
+        .onChange(async (value) => {
+          const tag = value.trim().replace(/^#*/, '#');
+          this.plugin.settings.queueTag = tag.length > 1 ? tag : DEFAULT_SETTINGS.queueTag;
+          await this.plugin.saveSettings();
+        }));
+
+    const queued = this.plugin.settings.readingQueue.length;
+    new Setting(containerEl)
+      .setName('Queued files')
+      .setDesc(`${queued} file${queued === 1 ? '' : 's'} waiting. Reorder them with the "show reading queue" command.`)
+      .addButton(button => button
+        .setButtonText('Clear')
+        .setWarning()
+        .setDisabled(queued === 0)
+        .onClick(async () => {
+          this.plugin.settings.readingQueue = [];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
     // Section: Hotkeys
     new Setting(containerEl).setName("Keyboard Shortcuts").setHeading();
     containerEl.createEl('p', {
@@ -0,0 +1,146 @@
+/**
+ * ReadingStatsModal - Reading statistics view
+ *
+ * Responsibilities:
+ * - Overall totals (words, time, sessions, average speed)
+ * - Current and longest reading streak
+ * - Daily totals for the last two weeks (bar list)
+ * - Average speed trend (last 7 days vs the 7 before)
+ * - Most recent sessions
+ *
+ * All numbers come from the session log via services/stats-formatter.ts.
+ */
+
+import { App, Modal } from 'obsidian';
+import { DashReaderSettings, ReadingSession } from './types';
+import {
+  formatDuration,
+  formatWordCount,
+  getDailyStats,
+  getReadingStreak,
+  getWpmTrend,
+  summarizeSessions,
+} from './services/stats-formatter';
+
+/** Number of days shown in the daily totals */
+const DAILY_RANGE_DAYS = 14;
+/** Period (days) compared by the speed trend */
+const TREND_PERIOD_DAYS = 7;
+/** Number of sessions listed under "Recent sessions" */
+const RECENT_SESSIONS = 10;
+
+export class ReadingStatsModal extends Modal {
+  private settings: DashReaderSettings;
+
+  constructor(app: App, settings: DashReaderSettings) {
+    super(app);
+    this.settings = settings;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('dashreader-stats-modal');
+    this.setTitle('Reading statistics');
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const sessions = this.settings.readingSessions;
+    if (sessions.length === 0) {
+      contentEl.createDiv({
+        cls: 'dashreader-stats-empty',
+        text: this.settings.trackReadingStats
+          ? 'No reading sessions yet. Sessions are recorded when you play text in the reader.'
+          : 'Session tracking is turned off in the plugin settings.',
+      });
+      return;
+    }
+
+    this.renderSummary(contentEl, sessions);
+    this.renderDaily(contentEl, sessions);
+    this.renderRecent(contentEl, sessions);
+  }
+
+  private renderSummary(parent: HTMLElement, sessions: ReadingSession[]): void {
+    const overall = summarizeSessions(sessions);
+    const streak = getReadingStreak(sessions);
+    const trend = getWpmTrend(sessions, TREND_PERIOD_DAYS);
+
+    const grid = parent.createDiv({ cls: 'dashreader-stats-summary' });
+    const addCard = (label: string, value: string, detail?: string) => {
+      const card = grid.createDiv({ cls: 'dashreader-stats-card' });
+      card.createDiv({ cls: 'dashreader-stats-card-value', text: value });
+      card.createDiv({ cls: 'dashreader-stats-card-label', text: label });
+      if (detail) card.createDiv({ cls: 'dashreader-stats-card-detail', text: detail });
+    };
+
+    addCard('Words read', formatWordCount(overall.wordsRead), `${overall.sessionsCount} sessions`);
+    addCard('Reading time', formatDuration(overall.timeSpent));
+    addCard('Average speed', `${overall.averageWpm} wpm`, this.describeTrend(trend));
+    addCard(
+      'Streak',
+      `${streak.current} day${streak.current === 1 ? '' : 's'}`,
+      `Longest: ${streak.longest} day${streak.longest === 1 ? '' : 's'}`
+    );
+  }
+
+  private describeTrend(trend: { recentWpm: number; previousWpm: number; delta: number }): string {
+    if (trend.recentWpm === 0) return `No reading in the last ${TREND_PERIOD_DAYS} days`;
+    if (trend.previousWpm === 0) return `Last ${TREND_PERIOD_DAYS} days: ${trend.recentWpm} wpm`;
+    const sign = trend.delta > 0 ? '+' : '';
+    return `Last ${TREND_PERIOD_DAYS} days: ${trend.recentWpm} wpm (${sign}${trend.delta})`;
+  }
+
+  private renderDaily(parent: HTMLElement, sessions: ReadingSession[]): void {
+    const days = getDailyStats(sessions, DAILY_RANGE_DAYS);
+    const maxWords = Math.max(1, ...days.map((d) => d.wordsRead));
+
+    parent.createDiv({ cls: 'dashreader-stats-section-title', text: `Last ${DAILY_RANGE_DAYS} days` });
+    const list = parent.createDiv({ cls: 'dashreader-stats-daily' });
+
+    for (const day of days.slice().reverse()) {
+      const row = list.createDiv({ cls: 'dashreader-stats-day' });
+      row.toggleClass('is-empty', day.wordsRead === 0);
+      row.createSpan({ cls: 'dashreader-stats-day-date', text: day.date });
+
+      const track = row.createDiv({ cls: 'dashreader-stats-bar' });
+      const fill = track.createDiv({ cls: 'dashreader-stats-bar-fill' });
+      fill.style.setProperty('--dashreader-stats-bar-width', `${(day.wordsRead / maxWords) * 100}%`);
+
+      row.createSpan({
+        cls: 'dashreader-stats-day-value',
+        text: day.wordsRead > 0
+          ? `${formatWordCount(day.wordsRead)} words · ${formatDuration(day.timeSpent)} · ${day.averageWpm} wpm`
+          : '—',
+      });
+    }
+  }
+
+  private renderRecent(parent: HTMLElement, sessions: ReadingSession[]): void {
+    parent.createDiv({ cls: 'dashreader-stats-section-title', text: 'Recent sessions' });
+    const list = parent.createDiv({ cls: 'dashreader-stats-sessions' });
+
+    for (const s of sessions.slice(-RECENT_SESSIONS).reverse()) {
+      const row = list.createDiv({ cls: 'dashreader-stats-session' });
+      row.createSpan({
+        cls: 'dashreader-stats-session-when',
+        text: new Date(s.startedAt).toLocaleString(),
+      });
+      row.createSpan({ cls: 'dashreader-stats-session-file', text: s.fileName ?? 'Selection' });
+
+      const details = [
+        `${formatWordCount(s.wordsRead)} words`,
+        `${s.effectiveWpm} wpm`,
+      ];
+      if (s.pauses > 0) details.push(`${s.pauses} pause${s.pauses === 1 ? '' : 's'}`);
+      if (s.rewinds > 0) details.push(`${s.rewinds} rewind${s.rewinds === 1 ? '' : 's'}`);
+      row.createSpan({ cls: 'dashreader-stats-session-details', text: details.join(' · ') });
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * SummaryModal - Lists the key sentences of the text
+ *
+ * Responsibilities:
+ * - Show the summary sentences in reading order, with their place in the text
+ * - Clicking a sentence jumps there in the full text
+ * - Play the summary, then carry on with the text
+ *
+ * The sentences come from services/extractive-summary.ts.
+ */
+
+import { App, Modal } from 'obsidian';
+import { SummarySentence } from './services/extractive-summary';
+
+export class SummaryModal extends Modal {
+  private sentences: SummarySentence[];
+  private totalWords: number;
+  private onJump: (index: number) => void;
+  private onPlay: () => void;
+
+  constructor(
+    app: App,
+    sentences: SummarySentence[],
+    totalWords: number,
+    onJump: (index: number) => void,
+    onPlay: () => void
+  ) {
+    super(app);
+    this.sentences = sentences;
+    this.totalWords = totalWords;
+    this.onJump = onJump;
+    this.onPlay = onPlay;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('dashreader-summary-modal');
+    this.setTitle('Summary');
+
+    const { contentEl } = this;
+    if (this.sentences.length === 0) {
+      contentEl.createDiv({ cls: 'dashreader-summary-empty', text: 'This text is too short to summarize.' });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: 'dashreader-summary-list' });
+    for (const sentence of this.sentences) {
+      const row = list.createDiv({ cls: 'dashreader-summary-item', attr: { tabindex: '0' } });
+      const percent = Math.round((sentence.start / Math.max(1, this.totalWords)) * 100);
+      row.createSpan({ cls: 'dashreader-summary-position', text: `${percent}%` });
+      row.createSpan({ text: sentence.text });
+
+      const jump = () => {
+        this.close();
+        this.onJump(sentence.start);
+      };
+      row.addEventListener('click', jump);
+      row.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') jump();
+      });
+    }
+
+    const actions = contentEl.createDiv({ cls: 'dashreader-summary-actions' });
+    const playBtn = actions.createEl('button', { text: 'Play summary, then the text', cls: 'mod-cta' });
+    playBtn.addEventListener('click', () => {
+      this.close();
+      this.onPlay();
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
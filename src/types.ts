@@ -1,6 +1,22 @@
+import type { BlockPolicy } from './markdown';
+import type { PdfAnchor, PdfNarrativeIndex } from './pdf';
+
 export interface DashReaderSettings {
   wpm: number;
   chunkSize: number;
+  /** 'fixed' shows chunkSize words at a time, 'phrase' groups words into short phrases */
+  chunkingMode: ChunkingMode;
+  /** Maximum width of a phrase in characters (phrase chunking) */
+  phraseMaxChars: number;
+  /** Skim: play headings and the first sentence of each paragraph only */
+  skimMode: boolean;
+  /** Skim: also play the last sentence of each paragraph */
+  skimLastSentence: boolean;
+  /**
+   * 'word' flashes words (RSVP), 'sentence' / 'line' show a whole sentence or wrapped line
+   * with a moving highlight, 'pacer' shows the text itself with a highlight bar
+   */
+  presentationMode: PresentationMode;
   fontSize: number;
   highlightColor: string;
   backgroundColor: string;
@@ -12,11 +28,39 @@ export interface DashReaderSettings {
   micropausePunctuation: number;
   micropauseOtherPunctuation: number;
   micropauseLongWords: number;
+  /** Lexical pacing: extra time for rare / many-syllable words (0 = off, uses micropauseLongWords) */
+  lexicalPacingStrength: number;
+  /** User-defined micropause rules, applied on top of the built-in ones */
+  micropauseRules: MicropauseRule[];
   micropauseParagraph: number;
   micropauseNumbers: number;
   micropauseSectionMarkers: number;
   micropauseListBullets: number;
   micropauseCallouts: number;
+  /** Pause on the token standing in for a skipped/placeholder/panel block */
+  micropauseBlocks: number;
+  /** Markdown code blocks: read, skip, placeholder or panel */
+  codeBlockPolicy: BlockPolicy;
+  /** Markdown tables */
+  tablePolicy: BlockPolicy;
+  /** Markdown $$ math blocks */
+  mathBlockPolicy: BlockPolicy;
+  /** Read embedded notes (![[note]], ![[note#Heading]], ![[note#^block]]) in place */
+  expandEmbeds: boolean;
+  /** Levels of embeds inside embedded notes that are expanded (1 = direct embeds only) */
+  embedDepth: number;
+  /** Sections whose heading matches this regex (case-insensitive) are skipped on load ('' = none) */
+  sectionSkipPattern: string;
+  /** Terms highlighted while reading, comma- or newline-separated (see services/watch-terms.ts) */
+  watchTerms: string;
+  /** Pause multiplier on the last word of a watch term (1 = none) */
+  watchTermPause: number;
+  /** Watch term colour ('' = theme accent) */
+  watchTermColor: string;
+  /** Play a summary (key sentences of the text) before reading from the start */
+  summaryPreview: boolean;
+  /** Number of sentences in the summary */
+  summarySentences: number;
   autoStart: boolean;
   autoStartDelay: number;
   showProgress: boolean;
@@ -28,8 +72,25 @@ export interface DashReaderSettings {
   hotkeyQuit: string;
   enableSlowStart: boolean;
   enableAcceleration: boolean;
+  /** Shape of the speed change (see services/acceleration-curve.ts) */
+  accelerationCurve: AccelerationCurve;
+  /** Seconds to reach the target (linear, ease-in) or of one cycle (sine) */
   accelerationDuration: number;
   accelerationTargetWpm: number;
+  /** Words to reach the target (words curve) */
+  accelerationRampWords: number;
+  /** Sentences between speed steps (steps curve) */
+  accelerationStepSentences: number;
+  /** WPM added per step (steps curve) */
+  accelerationStepWpm: number;
+  /** Interval training: alternate sprint and recovery speeds (replaces base speed and acceleration) */
+  intervalTraining: boolean;
+  /** Whether interval lengths are reading seconds or paragraphs */
+  intervalUnit: IntervalUnit;
+  intervalSprintWpm: number;
+  intervalSprintLength: number;
+  intervalRecoveryWpm: number;
+  intervalRecoveryLength: number;
   mobileFontSize: number;
   /** Minimum font size (px) when shrinking a single long token to fit */
   minTokenFontSize: number;
@@ -47,11 +108,104 @@ export interface DashReaderSettings {
   // Context font size (px), separate profiles
   contextFontSize: number;
   mobileContextFontSize: number;
+  /** Offer to resume files from where the last session stopped */
+  rememberReadingPosition: boolean;
+  /** Move the note's editor cursor to the last word read when the reader closes */
+  syncCursorOnClose: boolean;
+  /** Saved reading positions keyed by vault path */
+  readingPositions: Record<string, ReadingPosition>;
+  /** Record reading sessions for the statistics view */
+  trackReadingStats: boolean;
+  /** Session log, oldest first */
+  readingSessions: ReadingSession[];
+  /** Bookmarks keyed by vault path, in reading order */
+  bookmarks: Record<string, Bookmark[]>;
+  /** Append a digest of each session to a note when it ends */
+  writeSessionDigest: boolean;
+  /** Vault folder of the digest notes (one note per source) */
+  digestFolder: string;
+  /** Digest entry template ({{placeholder}} substitution) */
+  digestTemplate: string;
+  /** Vault paths queued for reading, next first */
+  readingQueue: string[];
+  /** Tag picked up by the "add tagged notes to the reading queue" command */
+  queueTag: string;
+  /** Named bundles of pacing settings (presets) */
+  pacingProfiles: PacingProfile[];
+  /** Id of the profile applied last ('' = none) */
+  activePacingProfile: string;
+  /** Folder/tag → profile applied when a matching file is loaded, first match wins */
+  pacingProfileRules: PacingProfileRule[];
+}
+
+/** Settings a pacing profile can carry */
+export const PACING_PROFILE_KEYS = [
+  'wpm',
+  'mobileWpm',
+  'chunkSize',
+  'mobileChunkSize',
+  'chunkingMode',
+  'phraseMaxChars',
+  'skimMode',
+  'skimLastSentence',
+  'enableSlowStart',
+  'mobileEnableSlowStart',
+  'enableAcceleration',
+  'accelerationCurve',
+  'accelerationDuration',
+  'accelerationTargetWpm',
+  'accelerationRampWords',
+  'accelerationStepSentences',
+  'accelerationStepWpm',
+  'intervalTraining',
+  'intervalUnit',
+  'intervalSprintWpm',
+  'intervalSprintLength',
+  'intervalRecoveryWpm',
+  'intervalRecoveryLength',
+  'enableMicropause',
+  'mobileEnableMicropause',
+  'micropausePunctuation',
+  'micropauseOtherPunctuation',
+  'micropauseLongWords',
+  'lexicalPacingStrength',
+  'micropauseParagraph',
+  'micropauseNumbers',
+  'micropauseSectionMarkers',
+  'micropauseListBullets',
+  'micropauseCallouts',
+  'micropauseBlocks',
+  'micropauseRules',
+] as const;
+
+export type PacingProfileKey = typeof PACING_PROFILE_KEYS[number];
+
+/**
+ * Named pacing preset ("Skim", "Study"…). Only the settings present in
+ * `values` are changed when the profile is applied.
+ */
+export interface PacingProfile {
+  id: string;
+  name: string;
+  values: Partial<Pick<DashReaderSettings, PacingProfileKey>>;
+}
+
+/** Default profile for the files of a folder or with a tag */
+export interface PacingProfileRule {
+  kind: 'folder' | 'tag';
+  /** Vault folder path, or tag with its leading # */
+  value: string;
+  profileId: string;
 }
 
 export const DEFAULT_SETTINGS: DashReaderSettings = {
   wpm: 600, // Increased from 300 (inspired by Stutter: 400-800 range)
   chunkSize: 1,
+  chunkingMode: 'fixed',
+  phraseMaxChars: 24,
+  presentationMode: 'word',
+  skimMode: false,
+  skimLastSentence: false,
   fontSize: 48,
   mobileFontSize: 32,
   minTokenFontSize: 12,
@@ -75,11 +229,25 @@ export const DEFAULT_SETTINGS: DashReaderSettings = {
   micropausePunctuation: 2.5, // Sentence-ending punctuation (.,!?) - Stutter-inspired
   micropauseOtherPunctuation: 1.5, // Other punctuation (;:,) - lighter pause
   micropauseLongWords: 1.4, // Words >8 chars - Stutter-inspired
+  lexicalPacingStrength: 0, // Off: rarest words would get 1 + strength
+  micropauseRules: [],
   micropauseParagraph: 2.5, // Paragraph breaks - better section separation
   micropauseNumbers: 1.8, // Numbers and dates - comprehension aid
   micropauseSectionMarkers: 2.0, // Section numbers (1., I., etc.)
   micropauseListBullets: 1.8, // List bullets (-, *, +, •)
   micropauseCallouts: 2.0, // Obsidian callouts
+  micropauseBlocks: 3.0, // Block placeholders ([code block: 12 lines])
+  codeBlockPolicy: 'read',
+  tablePolicy: 'read',
+  mathBlockPolicy: 'read',
+  expandEmbeds: true,
+  embedDepth: 3,
+  sectionSkipPattern: '',
+  watchTerms: '',
+  watchTermPause: 1.0,
+  watchTermColor: '',
+  summaryPreview: false,
+  summarySentences: 5,
   autoStart: false,
   autoStartDelay: 3,
   showProgress: true,
@@ -91,10 +259,138 @@ export const DEFAULT_SETTINGS: DashReaderSettings = {
   hotkeyQuit: 'Escape',
   enableSlowStart: true, // Enable slow start by default
   enableAcceleration: false,
+  accelerationCurve: 'linear',
   accelerationDuration: 30,
-  accelerationTargetWpm: 600 // Increased from 450 (Stutter suggests 600-800)
+  accelerationTargetWpm: 600, // Increased from 450 (Stutter suggests 600-800)
+  accelerationRampWords: 500,
+  accelerationStepSentences: 5,
+  accelerationStepWpm: 25,
+  intervalTraining: false,
+  intervalUnit: 'seconds',
+  intervalSprintWpm: 800,
+  intervalSprintLength: 30,
+  intervalRecoveryWpm: 400,
+  intervalRecoveryLength: 30,
+  rememberReadingPosition: true,
+  syncCursorOnClose: false,
+  readingPositions: {},
+  trackReadingStats: true,
+  readingSessions: [],
+  bookmarks: {},
+  writeSessionDigest: false,
+  digestFolder: 'Reading log',
+  digestTemplate: [
+    '## {{date}} {{time}}',
+    '',
+    'Read {{words}} words of {{link}} in {{duration}} ({{wpm}} wpm, {{pauses}} pauses).',
+    '',
+    '### Sections',
+    '{{sections}}',
+    '',
+    '### Rewound passages',
+    '{{rewinds}}',
+    '',
+  ].join('\n'),
+  readingQueue: [],
+  queueTag: '#toread',
+  pacingProfiles: [
+    {
+      id: 'skim',
+      name: 'Skim',
+      values: {
+        wpm: 800,
+        mobileWpm: 700,
+        chunkSize: 2,
+        mobileChunkSize: 1,
+        enableSlowStart: false,
+        mobileEnableSlowStart: false,
+        enableAcceleration: true,
+        accelerationDuration: 20,
+        accelerationTargetWpm: 1000,
+        enableMicropause: true,
+        mobileEnableMicropause: true,
+        micropausePunctuation: 1.5,
+        micropauseOtherPunctuation: 1.2,
+        micropauseParagraph: 1.8,
+        lexicalPacingStrength: 0,
+      },
+    },
+    {
+      id: 'study',
+      name: 'Study',
+      values: {
+        wpm: 350,
+        mobileWpm: 300,
+        chunkSize: 1,
+        mobileChunkSize: 1,
+        enableSlowStart: true,
+        mobileEnableSlowStart: true,
+        enableAcceleration: false,
+        enableMicropause: true,
+        mobileEnableMicropause: true,
+        micropausePunctuation: 3.0,
+        micropauseOtherPunctuation: 1.8,
+        micropauseParagraph: 3.0,
+        micropauseNumbers: 2.2,
+        lexicalPacingStrength: 1.0,
+      },
+    },
+    {
+      id: 'fiction',
+      name: 'Fiction',
+      values: {
+        wpm: 550,
+        mobileWpm: 500,
+        chunkSize: 1,
+        mobileChunkSize: 1,
+        enableSlowStart: true,
+        mobileEnableSlowStart: true,
+        enableAcceleration: true,
+        accelerationDuration: 60,
+        accelerationTargetWpm: 650,
+        enableMicropause: true,
+        mobileEnableMicropause: true,
+        micropausePunctuation: 2.2,
+        micropauseOtherPunctuation: 1.4,
+        micropauseParagraph: 2.0,
+        lexicalPacingStrength: 0.3,
+      },
+    },
+  ],
+  activePacingProfile: '',
+  pacingProfileRules: [],
 };
 
+/** Built-in word classes a micropause rule can target instead of a regex */
+/** Shape of acceleration from the base WPM to the target WPM */
+export type AccelerationCurve = 'linear' | 'ease-in' | 'steps' | 'sine' | 'words';
+
+/** Unit of interval training lengths */
+export type IntervalUnit = 'seconds' | 'paragraphs';
+
+/** How words are grouped on screen (see services/phrase-chunker.ts) */
+export type ChunkingMode = 'fixed' | 'phrase';
+
+/** What is on screen while reading: one word/chunk, a sentence or line swept by a highlight, or the text (pacer) */
+export type PresentationMode = 'word' | 'sentence' | 'line' | 'pacer';
+
+export type MicropauseTokenClass = 'citation' | 'acronym' | 'measurement' | 'url' | 'parenthetical';
+
+/**
+ * User-defined micropause rule: words matching a regex or a token class get
+ * a delay multiplier, or are not shown at all
+ */
+export interface MicropauseRule {
+  enabled: boolean;
+  /** 'regex' uses `pattern`; otherwise a built-in token class */
+  match: 'regex' | MicropauseTokenClass;
+  /** Regular expression tested against each word (case-sensitive) */
+  pattern: string;
+  action: 'pause' | 'skip';
+  /** Delay multiplier of matching words (action 'pause') */
+  multiplier: number;
+}
+
 export interface HeadingInfo {
   /** Heading level (1-6), or 0 for callouts */
   level: number;
@@ -116,15 +412,119 @@ export interface HeadingContext {
 export interface WordChunk {
   text: string;
   index: number;
+  /** Last token shown (phrase chunking); the chunk covers index..endIndex */
+  endIndex?: number;
+  /** Watch terms: for each word of `text`, whether it belongs to a hit (unset without terms) */
+  watchTerms?: boolean[];
   delay: number;
   isEnd: boolean;
   /** Current heading context (breadcrumb) - optional */
   headingContext?: HeadingContext;
 }
 
+/**
+ * Where a text handed to the reader came from.
+ * File metadata is only set when the whole file was loaded (not a selection),
+ * which is what makes the text eligible for position tracking.
+ */
+export interface TextSource {
+  fileName?: string;
+  lineNumber?: number;
+  /** Raw cursor offset (Markdown) or start token index (plain/PDF text) */
+  cursorPosition?: number;
+  /** Vault path of the loaded file */
+  filePath?: string;
+  fileMtime?: number;
+  fileSize?: number;
+  /** Narrative index the plain text was built from (PDF loads only) */
+  pdfIndex?: PdfNarrativeIndex;
+  /** Loaded from the reading queue: the next queued file follows at the end */
+  fromQueue?: boolean;
+}
+
+/**
+ * Last known reading position for a file.
+ * mtime/size identify the file version the index belongs to.
+ */
+export interface ReadingPosition {
+  wordIndex: number;
+  totalWords: number;
+  mtime: number;
+  size: number;
+  /** Epoch ms of the last save (used for pruning) */
+  updatedAt: number;
+  /** PDF only: layout anchor, re-resolved against a fresh index */
+  pdfAnchor?: PdfAnchor;
+  /** Markdown only: the saved word in its context, found again after the note is edited */
+  textAnchor?: TextAnchor;
+}
+
+/** A word and the words around it, as search keys (see services/text-search.ts) */
+export interface TextAnchor {
+  key: string;
+  /** Keys of the words before it, nearest first (line breaks not counted) */
+  before: string[];
+  /** Keys of the words after it, nearest first */
+  after: string[];
+  /** Character offset of the word in the source Markdown, when known */
+  sourceOffset?: number;
+}
+
+/** A position flagged during playback */
+export interface Bookmark {
+  wordIndex: number;
+  /** Heading breadcrumb texts at the bookmark, outermost first */
+  headingPath: string[];
+  /** Sentence containing the bookmarked word */
+  sentence: string;
+  /** 1-based line in the source note (whole-note Markdown loads only) */
+  sourceLine?: number;
+  /** Markdown only: the bookmarked word in its context, found again after the note is edited */
+  textAnchor?: TextAnchor;
+  /** Epoch ms when the bookmark was created */
+  createdAt: number;
+}
+
+/** Span re-read after a rewind: playback jumped from fromIndex back to toIndex */
+export interface RewindPassage {
+  fromIndex: number;
+  toIndex: number;
+}
+
 export interface ReadingStats {
   wordsRead: number;
+  /** Reading time in seconds */
   timeSpent: number;
   sessionsCount: number;
   averageWpm: number;
 }
+
+/** Aggregated stats for one calendar day (local time) */
+export interface DailyReadingStats extends ReadingStats {
+  /** Local date key (YYYY-MM-DD) */
+  date: string;
+}
+
+/**
+ * One reading session: everything played between loading a text and
+ * loading another one (or closing the reader).
+ */
+export interface ReadingSession {
+  fileName?: string;
+  filePath?: string;
+  /** Epoch ms of the first word played */
+  startedAt: number;
+  /** Epoch ms of the last word played */
+  endedAt: number;
+  startIndex: number;
+  endIndex: number;
+  totalWords: number;
+  /** Words displayed during playback */
+  wordsRead: number;
+  /** Virtual-timeline time of the words read, in seconds */
+  readingSeconds: number;
+  /** wordsRead / readingSeconds, in words per minute */
+  effectiveWpm: number;
+  pauses: number;
+  rewinds: number;
+}
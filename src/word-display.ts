@@ -6,6 +6,8 @@
  * - Handle heading display with dynamic font sizes
  * - Handle callout display with icons
  * - Show visual separators before headings
+ * - Display a sentence or line with a moving highlight (passage presentation)
+ * - Display paragraphs of the text with a moving highlight bar (pacer)
  * - Escape HTML to prevent XSS
  */
 
@@ -13,6 +15,17 @@ import { DashReaderSettings } from './types';
 import { HEADING_MULTIPLIERS, ICONS } from './constants';
 import { setIcon } from "obsidian";
 
+/** One paragraph of the pacer */
+export interface PacerBlock {
+  /** Token index of the paragraph's first token */
+  start: number;
+  /** Display text of each token from `start` on ('' = not shown) */
+  words: string[];
+  /** Heading level (1-6) or 0 */
+  headingLevel: number;
+  calloutType?: string;
+}
+
 export class WordDisplay {
   private wordEl: HTMLElement;
   private settings: DashReaderSettings;
@@ -21,6 +34,14 @@ export class WordDisplay {
   private focusDashesEl: HTMLElement;
   private baseFontSizePx: number;
   private baseChunkSize: number;
+  private passageKey: string | null = null;
+  private passageWordEls: HTMLElement[] = [];
+  private pacerKey: string | null = null;
+  private pacerEl: HTMLElement | null = null;
+  private pacerWordEls = new Map<number, HTMLElement>();
+  private pacerBlockEls: Array<{ start: number; end: number; el: HTMLElement }> = [];
+  private pacerActiveEls: HTMLElement[] = [];
+  private pacerBlockStart: number | null = null;
 
   /**
    * Callout icon mapping
@@ -37,7 +58,8 @@ export class WordDisplay {
     danger: '⚡',
     bug: '🐛',
     example: '📋',
-    quote: '💬'
+    quote: '💬',
+    embed: '🔗'
   };
 
   constructor(wordEl: HTMLElement, settings: DashReaderSettings, baseFontSizePx: number, baseChunkSize: number) {
@@ -85,8 +107,15 @@ export class WordDisplay {
    * @param headingLevel - Heading level (1-6) or 0 for normal text/callouts
    * @param showSeparator - Whether to show separator line before heading/callout
    * @param calloutType - Callout type (note, abstract, info, etc.) if this is a callout
+   * @param watchTerms - For each word, whether it is a watch term (highlighted)
    */
-  displayWord(word: string, headingLevel: number, showSeparator: boolean = false, calloutType?: string): void {
+  displayWord(
+    word: string,
+    headingLevel: number,
+    showSeparator: boolean = false,
+    calloutType?: string,
+    watchTerms?: boolean[]
+  ): void {
     // Calculate font size based on heading level or callout
     let fontSizeMultiplier = 1.0;
     let fontWeight = 'normal';
@@ -138,6 +167,7 @@ export class WordDisplay {
       .forEach(el => el.remove());
 
     // Clear and rebuild using DOM API (not innerHTML)
+    this.leavePassageMode();
     this.contentEl.empty();
 
     // Add separator if needed
@@ -165,8 +195,8 @@ export class WordDisplay {
 
     const chunkMode = (this.baseChunkSize || 1) > 1;
     const orpEl = (chunkMode && /\s/.test(cleaned))
-      ? this.buildChunkSpans(line, cleaned)
-      : this.buildWordSpans(line, cleaned);
+      ? this.buildChunkSpans(line, cleaned, watchTerms)
+      : this.buildWordSpans(line, cleaned, watchTerms?.some(Boolean) ?? false);
 
     const focusWordEl = line.querySelector('.dashreader-focus-word') as HTMLElement | null;
 
@@ -242,11 +272,12 @@ export class WordDisplay {
   /**
    * Builds spans for the word into `lineEl` and returns the ORP span.
    */
-  private buildWordSpans(lineEl: HTMLElement, displayWord: string): HTMLElement | null {
+  private buildWordSpans(lineEl: HTMLElement, displayWord: string, isWatchTerm: boolean = false): HTMLElement | null {
     lineEl.empty();
     if (!displayWord || displayWord === '\n') return null;
 
     const focusWordEl = lineEl.createSpan({ cls: 'dashreader-focus-word' });
+    if (isWatchTerm) focusWordEl.addClass('dashreader-watch-term');
 
     const orpIndex = this.getORPIndex(displayWord);
     for (let i = 0; i < displayWord.length; i++) {
@@ -261,7 +292,7 @@ export class WordDisplay {
     return focusWordEl.querySelector('.dashreader-orp') as HTMLElement | null;
   }
 
-  private buildChunkSpans(lineEl: HTMLElement, chunkText: string): HTMLElement | null {
+  private buildChunkSpans(lineEl: HTMLElement, chunkText: string, watchTerms?: boolean[]): HTMLElement | null {
     lineEl.empty();
     if (!chunkText || chunkText === '\n') return null;
 
@@ -272,6 +303,7 @@ export class WordDisplay {
     const sequel = parts.slice(1).join(' ');
 
     const focusWordEl = lineEl.createSpan({ cls: 'dashreader-focus-word' });
+    if (watchTerms?.[0]) focusWordEl.addClass('dashreader-watch-term');
 
     const orpIndex = this.getORPIndex(main);
     for (let i = 0; i < main.length; i++) {
@@ -286,7 +318,16 @@ export class WordDisplay {
     if (sequel.length) {
       // Hard space that won’t collapse / disappear inside an inline-flex row
       lineEl.appendChild(document.createTextNode('\u00A0'));
-      lineEl.createSpan({ text: sequel, cls: 'dashreader-inline-context' });
+      const sequelEl = lineEl.createSpan({ cls: 'dashreader-inline-context' });
+      if (watchTerms?.slice(1).some(Boolean)) {
+        parts.slice(1).forEach((part, k) => {
+          if (k > 0) sequelEl.appendText(' ');
+          if (watchTerms[k + 1]) sequelEl.createSpan({ text: part, cls: 'dashreader-watch-term' });
+          else sequelEl.appendText(part);
+        });
+      } else {
+        sequelEl.setText(sequel);
+      }
     }
 
     return lineEl.querySelector('.dashreader-orp') as HTMLElement | null;
@@ -428,6 +469,153 @@ export class WordDisplay {
     }
   }
 
+  /**
+   * Font size of passages: smaller than single words so a sentence or line fits
+   */
+  getPassageFontSize(): number {
+    return Math.max(16, Math.round(this.baseFontSizePx * 0.55));
+  }
+
+  /**
+   * Displays a sentence or line and highlights the words being read
+   *
+   * The passage is only rebuilt when `key` changes; otherwise the highlight
+   * moves over the words already on screen.
+   *
+   * @param words - Display text of each token ('' = not shown)
+   * @param activeStart - First highlighted word (offset into words)
+   * @param activeEnd - Last highlighted word (inclusive)
+   * @param key - Identifies the passage (same key = same words)
+   * @param headingLevel - Heading level (1-6) or 0 for normal text/callouts
+   * @param calloutType - Callout type if the passage is a callout
+   */
+  displayPassage(
+    words: string[],
+    activeStart: number,
+    activeEnd: number,
+    key: string,
+    headingLevel: number = 0,
+    calloutType?: string
+  ): void {
+    const current = this.passageWordEls[0];
+    if (key !== this.passageKey || !current?.isConnected) {
+      this.leavePassageMode();
+      this.contentEl.empty();
+      this.wordEl.addClass('dashreader-passage-mode');
+      this.wordEl.setAttribute('data-running', 'false');
+
+      const passageEl = this.contentEl.createDiv({ cls: 'dashreader-passage' });
+      passageEl.style.setProperty('--dashreader-passage-font-size', `${this.getPassageFontSize()}px`);
+      if (headingLevel > 0 || calloutType) passageEl.addClass('dashreader-passage-heading');
+      if (calloutType) {
+        passageEl.createSpan({
+          text: this.calloutIcons[calloutType.toLowerCase()] || '📌',
+          cls: 'dashreader-callout-icon'
+        });
+      }
+
+      let first = true;
+      this.passageWordEls = words.map((word) => {
+        if (word && !first) passageEl.appendText(' ');
+        if (word) first = false;
+        return passageEl.createSpan({ text: word, cls: 'dashreader-passage-word' });
+      });
+      this.passageKey = key;
+    }
+
+    this.passageWordEls.forEach((el, k) => {
+      el.toggleClass('dashreader-passage-read', k < activeStart);
+      el.toggleClass('dashreader-passage-current', k >= activeStart && k <= activeEnd);
+    });
+  }
+
+  /**
+   * Whether a word or passage is on screen (not a welcome/ready message)
+   */
+  isShowingText(): boolean {
+    return this.passageKey !== null || this.pacerKey !== null || this.wordEl.getAttribute('data-running') === 'true';
+  }
+
+  /**
+   * Displays paragraphs of the text with a highlight bar on the words being read
+   *
+   * The paragraphs are only rebuilt when `key` changes. When the highlight
+   * moves to another paragraph, that paragraph is scrolled to the top.
+   *
+   * @param blocks - Paragraphs around the reading position
+   * @param activeStart - Token index of the first highlighted word
+   * @param activeEnd - Token index of the last highlighted word (inclusive)
+   * @param key - Identifies the paragraphs (same key = same blocks)
+   */
+  displayPacer(blocks: PacerBlock[], activeStart: number, activeEnd: number, key: string): void {
+    const rebuild = key !== this.pacerKey || !this.pacerEl?.isConnected;
+    if (rebuild) this.buildPacer(blocks, key);
+
+    this.pacerActiveEls.forEach((el) => el.removeClass('dashreader-pacer-current'));
+    this.pacerActiveEls = [];
+    for (let i = activeStart; i <= activeEnd; i++) {
+      const el = this.pacerWordEls.get(i);
+      if (!el) continue;
+      el.addClass('dashreader-pacer-current');
+      this.pacerActiveEls.push(el);
+    }
+
+    const block = this.pacerBlockEls.find((b) => activeStart >= b.start && activeStart <= b.end);
+    if (block && this.pacerEl && block.start !== this.pacerBlockStart) {
+      this.pacerBlockStart = block.start;
+      this.pacerBlockEls.forEach((b) => b.el.toggleClass('dashreader-pacer-paragraph-active', b === block));
+      this.pacerEl.scrollTo({ top: block.el.offsetTop, behavior: rebuild ? 'auto' : 'smooth' });
+    }
+  }
+
+  private buildPacer(blocks: PacerBlock[], key: string): void {
+    this.leavePassageMode();
+    this.contentEl.empty();
+    this.wordEl.addClass('dashreader-pacer-mode');
+    this.wordEl.setAttribute('data-running', 'false');
+
+    const pacerEl = this.contentEl.createDiv({ cls: 'dashreader-pacer' });
+    pacerEl.style.setProperty('--dashreader-passage-font-size', `${this.getPassageFontSize()}px`);
+
+    this.pacerWordEls = new Map();
+    this.pacerBlockEls = blocks.map((block) => {
+      const el = pacerEl.createDiv({ cls: 'dashreader-pacer-paragraph' });
+      if (block.headingLevel > 0) el.addClass('dashreader-pacer-heading', `dashreader-pacer-h${block.headingLevel}`);
+      if (block.calloutType) {
+        el.addClass('dashreader-pacer-callout');
+        el.createSpan({
+          text: this.calloutIcons[block.calloutType.toLowerCase()] || '📌',
+          cls: 'dashreader-callout-icon'
+        });
+      }
+
+      let first = true;
+      block.words.forEach((word, k) => {
+        if (!word) return;
+        if (!first) el.appendText(' ');
+        first = false;
+        this.pacerWordEls.set(block.start + k, el.createSpan({ text: word, cls: 'dashreader-pacer-word' }));
+      });
+      return { start: block.start, end: block.start + block.words.length - 1, el };
+    });
+
+    this.pacerEl = pacerEl;
+    this.pacerKey = key;
+    this.pacerActiveEls = [];
+    this.pacerBlockStart = null;
+  }
+
+  private leavePassageMode(): void {
+    this.wordEl.removeClass('dashreader-passage-mode', 'dashreader-pacer-mode');
+    this.passageKey = null;
+    this.passageWordEls = [];
+    this.pacerKey = null;
+    this.pacerEl = null;
+    this.pacerWordEls.clear();
+    this.pacerBlockEls = [];
+    this.pacerActiveEls = [];
+  }
+
   /**
    * Displays a welcome message (no text loaded)
    * Uses DOM API to build the message instead of innerHTML
@@ -437,6 +625,7 @@ export class WordDisplay {
    * @param subText - Instruction text
    */
   displayWelcomeMessage(icon: string, mainText: string, subText: string): void {
+    this.leavePassageMode();
     this.contentEl.empty();
     this.wordEl.setAttribute('data-running', 'false');
 
@@ -463,6 +652,7 @@ export class WordDisplay {
    * @param durationText - Formatted estimated duration
    * @param fileName - Optional source file name
    * @param lineNumber - Optional source line number
+   * @param resume - Optional saved-position offer (percent + jump callback)
    */
   displayReadyMessage(
     wordsToRead: number,
@@ -470,8 +660,10 @@ export class WordDisplay {
     startIndex: number | undefined,
     durationText: string,
     fileName?: string,
-    lineNumber?: number
+    lineNumber?: number,
+    resume?: { percent: number; onResume: () => void }
   ): void {
+    this.leavePassageMode();
     this.contentEl.empty();
     this.wordEl.setAttribute('data-running', 'false');
     const readyDiv = this.contentEl.createDiv({ cls: 'dashreader-ready-message' });
@@ -512,12 +704,27 @@ export class WordDisplay {
       text: 'Press Space to start',
       cls: 'dashreader-ready-duration'
     });
+
+    // Offer to continue from the position saved in a previous session
+    if (resume) {
+      const resumeDiv = readyDiv.createDiv({ cls: 'dashreader-ready-resume' });
+      const resumeBtn = resumeDiv.createEl('button', {
+        text: `Resume from ${resume.percent}%`,
+        cls: 'dashreader-ready-action'
+      });
+      resumeBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        resume.onResume();
+      });
+      resumeDiv.createSpan({ text: ' or press R', cls: 'dashreader-ready-duration' });
+    }
   }
 
   /**
    * Clears the word display
    */
   clear(): void {
+    this.leavePassageMode();
     this.contentEl.empty();
     this.wordEl.setAttribute('data-running', 'false');
   }
@@ -0,0 +1,69 @@
+/**
+ * BookmarkManager: note bookmarks after the note is edited
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BookmarkManager } from '../src/bookmark-manager';
+import { RSVPEngine } from '../src/rsvp-engine';
+import { FakeClock } from '../src/services/clock';
+import { TimeoutManager } from '../src/services/timeout-manager';
+import { DashReaderSettings, DEFAULT_SETTINGS } from '../src/types';
+
+const NOTE = [
+  'Sleep matters for memory.',
+  'During deep sleep the hippocampus replays the day and the cortex stores it.',
+  'Without it, recall drops sharply the next morning.',
+].join('\n');
+
+function createManager() {
+  const settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS)) as DashReaderSettings;
+  const timeoutManager = new TimeoutManager(new FakeClock(0));
+  const engine = new RSVPEngine(settings, () => {}, timeoutManager);
+  let changes = 0;
+  const bookmarks = new BookmarkManager(engine, timeoutManager, settings, { onChange: () => changes++ });
+  return { engine, bookmarks, settings, changes: () => changes };
+}
+
+function load(engine: RSVPEngine, bookmarks: BookmarkManager, text: string): string[] {
+  engine.setText(text);
+  bookmarks.setSource('Notes/Sleep.md', null, true);
+  return engine.getTokenRange(0, engine.getTotalWords() - 1);
+}
+
+describe('setSource', () => {
+  it('moves a bookmark to its word after text is added before it', () => {
+    const { engine, bookmarks, settings } = createManager();
+    const words = load(engine, bookmarks, NOTE);
+    bookmarks.toggle(words.indexOf('cortex'));
+
+    const edited = load(engine, bookmarks, `# Sleep\nA short introduction to a long topic.\n${NOTE}`);
+    const [bookmark] = bookmarks.getBookmarks();
+
+    expect(edited[bookmark.wordIndex]).toBe('cortex');
+    expect(edited[bookmark.wordIndex + 1]).toBe('stores');
+    expect(settings.bookmarks['Notes/Sleep.md'][0].wordIndex).toBe(bookmark.wordIndex);
+  });
+
+  it('leaves bookmarks alone while the note is unchanged', () => {
+    const { engine, bookmarks, changes } = createManager();
+    const words = load(engine, bookmarks, NOTE);
+    bookmarks.toggle(words.indexOf('cortex'));
+    const saved = changes();
+
+    load(engine, bookmarks, NOTE);
+
+    expect(bookmarks.getBookmarks()[0].wordIndex).toBe(words.indexOf('cortex'));
+    expect(changes()).toBe(saved);
+  });
+
+  it('keeps the index of a bookmark whose word is gone', () => {
+    const { engine, bookmarks } = createManager();
+    const words = load(engine, bookmarks, NOTE);
+    const cortex = words.indexOf('cortex');
+    bookmarks.toggle(cortex);
+
+    load(engine, bookmarks, NOTE.replace('the cortex stores it', 'memories settle'));
+
+    expect(bookmarks.getBookmarks()[0].wordIndex).toBe(cortex);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * MarkdownParser on tricky notes
+ *
+ * Each tests/fixtures/markdown/<name>.md is parsed and tokenized like the
+ * reader does it; the tokens must equal <name>.tokens.txt (one token per
+ * line, `\n` for a line break token).
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { MarkdownParser } from '../src/markdown-parser';
+import { tokenizeForEngine } from '../src/rsvp-engine';
+
+const FIXTURES = join(__dirname, 'fixtures', 'markdown');
+
+const fixtures = readdirSync(FIXTURES)
+  .filter((file) => file.endsWith('.md'))
+  .map((file) => file.replace(/\.md$/, ''));
+
+function readExpectedTokens(name: string): string[] {
+  return readFileSync(join(FIXTURES, `${name}.tokens.txt`), 'utf8')
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => (line === '\\n' ? '\n' : line));
+}
+
+describe('fixtures', () => {
+  it.each(fixtures)('%s', (name) => {
+    const markdown = readFileSync(join(FIXTURES, `${name}.md`), 'utf8');
+
+    const tokens = tokenizeForEngine(MarkdownParser.parseToPlainText(markdown));
+
+    expect(tokens).toEqual(readExpectedTokens(name));
+  });
+
+  it('maps every token back into its note', () => {
+    for (const name of fixtures) {
+      const markdown = readFileSync(join(FIXTURES, `${name}.md`), 'utf8');
+      const { sourceMap } = MarkdownParser.parseWithSourceMap(markdown);
+
+      for (let i = 0; i < sourceMap.getTokenCount(); i++) {
+        const offset = sourceMap.tokenToSourceOffset(i);
+        expect(offset).toBeGreaterThanOrEqual(0);
+        expect(offset).toBeLessThanOrEqual(markdown.length);
+      }
+    }
+  });
+});
+
+describe('block policies', () => {
+  const markdown = readFileSync(join(FIXTURES, 'math.md'), 'utf8') + '\n' + readFileSync(join(FIXTURES, 'tables.md'), 'utf8');
+
+  it('replaces blocks by one placeholder token each', () => {
+    const { text, placeholders } = MarkdownParser.parseWithSourceMap(markdown, {
+      code: 'placeholder',
+      table: 'placeholder',
+      math: 'placeholder',
+    });
+
+    const tokens = tokenizeForEngine(text);
+    expect(tokens.filter((t) => t.startsWith('[BLOCK:'))).toEqual(['[BLOCK:math:0]', '[BLOCK:table:1]']);
+    expect(placeholders.map((p) => [p.kind, p.lines])).toEqual([
+      ['math', 1],
+      ['table', 3],
+    ]);
+    // Inline math is part of the sentence, not a block
+    expect(tokens.slice(0, 5)).toEqual(['Energy', 'is', 'E', '=', 'mc^2']);
+  });
+
+  it('leaves skipped blocks out', () => {
+    const tokens = tokenizeForEngine(
+      MarkdownParser.parseToPlainText(markdown, { code: 'skip', table: 'skip', math: 'skip' })
+    );
+
+    expect(tokens.join(' ')).not.toMatch(/\\int|Score|Robert/);
+    expect(tokens).toContain('Pipes');
+  });
+});
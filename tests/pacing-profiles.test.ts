@@ -0,0 +1,68 @@
+/**
+ * PacingProfileManager: applying profiles vs. folder/tag default layers
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PacingProfileManager } from '../src/services/pacing-profiles';
+import { DashReaderSettings, DEFAULT_SETTINGS } from '../src/types';
+
+function createSettings(): DashReaderSettings {
+  const settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS)) as DashReaderSettings;
+  settings.pacingProfileRules = [
+    { kind: 'folder', value: 'Papers', profileId: 'study' },
+    { kind: 'tag', value: '#fiction', profileId: 'skim' },
+  ];
+  return settings;
+}
+
+describe('findDefaultProfile', () => {
+  it('matches folders with their subfolders and tags with nested tags', () => {
+    const profiles = new PacingProfileManager(createSettings());
+
+    expect(profiles.findDefaultProfile('Papers/2024/Attention.md', [])?.id).toBe('study');
+    expect(profiles.findDefaultProfile('Books/Dune.md', ['#Fiction/scifi'])?.id).toBe('skim');
+    expect(profiles.findDefaultProfile('PapersAndMore/Note.md', [])).toBeNull();
+  });
+
+  it('takes the first matching rule', () => {
+    const profiles = new PacingProfileManager(createSettings());
+
+    expect(profiles.findDefaultProfile('Papers/Story.md', ['#fiction'])?.id).toBe('study');
+  });
+});
+
+describe('getValues', () => {
+  it('leaves the settings unchanged', () => {
+    const settings = createSettings();
+    const before = JSON.stringify(settings);
+    const profiles = new PacingProfileManager(settings);
+
+    const values = profiles.getValues('skim');
+
+    expect(values?.wpm).toBe(800);
+    expect(JSON.stringify(settings)).toBe(before);
+  });
+
+  it('returns a copy', () => {
+    const settings = createSettings();
+    const profiles = new PacingProfileManager(settings);
+
+    const values = profiles.getValues('skim');
+    if (values) values.wpm = 1_000;
+
+    expect(profiles.getProfile('skim')?.values.wpm).toBe(800);
+  });
+});
+
+describe('apply', () => {
+  it('copies the values into the settings and makes the profile active', () => {
+    const settings = createSettings();
+    const profiles = new PacingProfileManager(settings);
+
+    expect(profiles.apply('skim')).toBe(true);
+
+    expect(settings.wpm).toBe(800);
+    expect(settings.activePacingProfile).toBe('skim');
+    expect(profiles.apply('missing')).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * ReadingPositionStore: saved Markdown positions after the note is edited
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ReadingPositionStore } from '../src/services/reading-position-store';
+import { DashReaderSettings, DEFAULT_SETTINGS, TextSource } from '../src/types';
+import { tokenizeForEngine } from '../src/rsvp-engine';
+
+const NOTE = [
+  'Sleep matters for memory.',
+  'During deep sleep the hippocampus replays the day and the cortex stores it.',
+  'Without it, recall drops sharply the next morning.',
+  'Naps help too, but less than a full night of rest.',
+].join('\n');
+
+function createStore() {
+  const settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS)) as DashReaderSettings;
+  return { store: new ReadingPositionStore(settings), settings };
+}
+
+function source(mtime: number, size: number): TextSource {
+  return { fileName: 'Sleep.md', filePath: 'Notes/Sleep.md', fileMtime: mtime, fileSize: size };
+}
+
+describe('resolve', () => {
+  const words = tokenizeForEngine(NOTE);
+  const cortex = words.indexOf('cortex');
+
+  it('reuses the saved index while the file is unchanged', () => {
+    const { store } = createStore();
+    store.save(source(1, 100), cortex, words);
+
+    expect(store.resolve(source(1, 100), words)).toBe(cortex);
+  });
+
+  it('finds the word again after text is added before it', () => {
+    const { store } = createStore();
+    store.save(source(1, 100), cortex, words);
+
+    const edited = tokenizeForEngine(`# Sleep\nA short introduction to a long topic.\n${NOTE}`);
+    const index = store.resolve(source(2, 150), edited);
+
+    expect(index).not.toBeNull();
+    expect(edited[index ?? 0]).toBe('cortex');
+    expect(edited[(index ?? 0) + 1]).toBe('stores');
+  });
+
+  it('finds the word again when the sentence around it was reworded', () => {
+    const { store } = createStore();
+    store.save(source(1, 100), cortex, words);
+
+    const edited = tokenizeForEngine(
+      NOTE.replace('the hippocampus replays the day and the cortex stores it', 'the hippocampus replays the whole day and the cortex then stores it')
+    );
+    const index = store.resolve(source(2, 110), edited);
+
+    expect(edited[index ?? 0]).toBe('cortex');
+  });
+
+  it('picks the occurrence whose context matches', () => {
+    const { store } = createStore();
+    const secondThe = words.indexOf('the', words.indexOf('replays'));
+    store.save(source(1, 100), secondThe, words);
+
+    const edited = tokenizeForEngine(`The day was long and the night was short.\n${NOTE}`);
+    const index = store.resolve(source(2, 140), edited) ?? 0;
+
+    expect(edited.slice(index, index + 2)).toEqual(['the', 'day']);
+    expect(edited[index - 1]).toBe('replays');
+  });
+
+  it('falls back to the source offset when the word is gone', () => {
+    const { store } = createStore();
+    store.save(source(1, 100), cortex, words, 120);
+
+    const edited = tokenizeForEngine(NOTE.replace('the cortex stores it', 'memories settle'));
+
+    expect(store.resolve(source(2, 90), edited, (offset) => (offset === 120 ? 17 : null))).toBe(17);
+    expect(store.resolve(source(2, 90), edited)).toBeNull();
+  });
+
+  it('saves the word with its context and source offset', () => {
+    const { store, settings } = createStore();
+    store.save(source(1, 100), cortex, words, 120);
+
+    expect(settings.readingPositions['Notes/Sleep.md'].textAnchor).toEqual({
+      key: 'cortex',
+      before: ['the', 'and', 'day', 'the', 'replays', 'hippocampus'],
+      after: ['stores', 'it', 'without', 'it', 'recall', 'drops'],
+      sourceOffset: 120,
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * RSVPEngine playback timing, driven by a FakeClock
+ *
+ * Time only moves when the tests move it, so word timing, time-based
+ * rewind/forward and drift correction are checked to the millisecond.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { RSVPEngine } from '../src/rsvp-engine';
+import { FakeClock } from '../src/services/clock';
+import { TimeoutManager } from '../src/services/timeout-manager';
+import { DashReaderSettings, DEFAULT_SETTINGS, WordChunk } from '../src/types';
+
+/** 600 wpm, no slow start, no micropauses: every word lasts 100 ms */
+function createEngine(text: string, overrides: Partial<DashReaderSettings> = {}) {
+  const settings: DashReaderSettings = {
+    ...(JSON.parse(JSON.stringify(DEFAULT_SETTINGS)) as DashReaderSettings),
+    wpm: 600,
+    enableSlowStart: false,
+    enableMicropause: false,
+    ...overrides,
+  };
+  const clock = new FakeClock(1_000);
+  const shown: Array<{ text: string; index: number; atMs: number }> = [];
+  const engine = new RSVPEngine(
+    settings,
+    (chunk: WordChunk) => shown.push({ text: chunk.text, index: chunk.index, atMs: clock.now() - 1_000 }),
+    new TimeoutManager(clock)
+  );
+  engine.setText(text);
+  return { engine, clock, shown, settings };
+}
+
+const words = (n: number, prefix = 'w') => Array.from({ length: n }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('word timing', () => {
+  it('shows one word per 60000/wpm ms', () => {
+    const { engine, clock, shown } = createEngine('one two three four five');
+
+    engine.play();
+    while (clock.advanceToNext());
+
+    expect(shown.map((s) => s.text)).toEqual(['one', 'two', 'three', 'four', 'five']);
+    expect(shown.map((s) => s.atMs)).toEqual([0, 100, 200, 300, 400]);
+    expect(engine.getIsPlaying()).toBe(false);
+  });
+
+  it('shows nothing between two due times', () => {
+    const { engine, clock, shown } = createEngine('one two three');
+
+    engine.play();
+    clock.advance(99);
+    expect(shown).toHaveLength(1);
+    clock.advance(1);
+    expect(shown).toHaveLength(2);
+  });
+
+  it('stretches punctuated words by their micropause', () => {
+    const { engine, clock, shown } = createEngine('Stop. Go on', { enableMicropause: true, micropausePunctuation: 2.5 });
+
+    engine.play();
+    while (clock.advanceToNext());
+
+    expect(shown.map((s) => s.atMs)).toEqual([0, 250, 350]);
+  });
+
+  it('gives the first words twice their time with slow start', () => {
+    const { engine, clock, shown } = createEngine(words(7), { enableSlowStart: true });
+
+    engine.play();
+    while (clock.advanceToNext());
+
+    // multipliers 2, 1.8, 1.6, 1.4, 1.2, then 1
+    expect(shown.map((s) => s.atMs)).toEqual([0, 200, 380, 540, 680, 800, 900]);
+  });
+
+  it('does not count paused time', () => {
+    const { engine, clock, shown } = createEngine('one two three');
+
+    engine.play();
+    clock.advance(50);
+    engine.pause();
+    clock.advance(5_000);
+    expect(shown).toHaveLength(1);
+
+    engine.play();
+    expect(shown.map((s) => s.text)).toEqual(['one', 'two']);
+    clock.advance(100);
+    expect(shown.map((s) => s.text)).toEqual(['one', 'two', 'three']);
+  });
+
+  it('catches up after a short stall without skipping words', () => {
+    const { engine, clock, shown } = createEngine(words(6));
+
+    engine.play();
+    clock.advance(100);
+    clock.stall(200); // timer for w2 is now 100 ms late
+    clock.advanceToNext();
+    clock.advanceToNext();
+
+    // w2 late, w3 back on the original schedule
+    expect(shown.map((s) => s.atMs)).toEqual([0, 100, 300, 300]);
+  });
+
+  it('resyncs after a long stall instead of bursting', () => {
+    const { engine, clock, shown } = createEngine(words(6));
+
+    engine.play();
+    clock.advance(100);
+    clock.stall(1_000); // far beyond the 250 ms catch-up window
+    clock.advanceToNext();
+    clock.advanceToNext();
+
+    expect(shown.map((s) => s.atMs)).toEqual([0, 100, 1_100, 1_200]);
+  });
+});
+
+describe('virtual timeline', () => {
+  it('counts the watch-term pause like playback does', () => {
+    // 20 words, 2 hits: 20 × 100 ms + 2 × 500 ms extra
+    const { engine, clock } = createEngine(`BRCA1 ${words(9)} BRCA1 ${words(9, 'v')}`, { watchTermPause: 6 });
+    engine.setWatchTerms(['BRCA1']);
+
+    engine.play();
+    while (clock.advanceToNext());
+
+    expect(clock.now() - 1_000).toBe(3_000);
+    expect(engine.getVirtualTotalSeconds()).toBe(3);
+  });
+
+  it('seeks over watch-term pauses by their real time', () => {
+    const { engine } = createEngine(`w0 BRCA1 ${words(20, 'v')}`, { watchTermPause: 6 });
+    engine.setWatchTerms(['BRCA1']);
+
+    engine.jumpToIndex(1);
+    engine.forwardSeconds(1);
+
+    // BRCA1 takes 600 ms, then v0..v3 100 ms each: 1 s later is v4
+    expect(engine.getCurrentIndex()).toBe(6);
+  });
+});
+
+describe('rewindSeconds', () => {
+  it('goes back by reading time through the playback history', () => {
+    const { engine, clock, shown } = createEngine(words(40));
+
+    engine.play();
+    clock.advance(2_950); // w0..w29 shown
+    engine.pause();
+    expect(shown[shown.length - 1].text).toBe('w29');
+
+    const passage = engine.rewindSeconds(1);
+    expect(passage).toEqual({ fromIndex: 29, toIndex: 19 });
+    expect(shown[shown.length - 1].text).toBe('w19');
+  });
+
+  it('snaps to the start of the sentence', () => {
+    const text = `${words(10, 'a')}. ${words(10, 'b')}. ${words(10, 'c')}`;
+    const { engine, clock, shown } = createEngine(text);
+
+    engine.play();
+    clock.advance(2_550); // into the third sentence (c5)
+    engine.pause();
+    expect(shown[shown.length - 1].text).toBe('c5');
+
+    // 1 s back is b5, in the middle of the second sentence
+    const passage = engine.rewindSeconds(1, true);
+    expect(passage?.toIndex).toBe(10);
+    expect(shown[shown.length - 1].text).toBe('b0');
+  });
+
+  it('uses the virtual timeline right after a jump', () => {
+    const { engine, shown } = createEngine(words(40));
+
+    engine.jumpToIndex(30);
+    const passage = engine.rewindSeconds(1);
+
+    expect(passage).toEqual({ fromIndex: 30, toIndex: 20 });
+    expect(shown[shown.length - 1].text).toBe('w20');
+  });
+
+  it('keeps playing from the rewound word', () => {
+    const { engine, clock, shown } = createEngine(words(40));
+
+    engine.play();
+    clock.advance(2_050);
+    engine.rewindSeconds(1);
+    expect(engine.getIsPlaying()).toBe(true);
+
+    const rewoundAt = shown.length;
+    clock.advance(100);
+    expect(shown.slice(rewoundAt - 1).map((s) => s.text)).toEqual(['w10', 'w11']);
+  });
+});
+
+describe('forwardSeconds', () => {
+  it('moves forward by reading time on the virtual timeline', () => {
+    const { engine, shown } = createEngine(words(40));
+
+    engine.jumpToIndex(5);
+    engine.forwardSeconds(1);
+
+    expect(engine.getCurrentIndex()).toBe(15);
+    expect(shown[shown.length - 1].text).toBe('w15');
+  });
+
+  it('redoes a rewind through the recorded history', () => {
+    const { engine, clock, shown } = createEngine(words(40));
+
+    engine.play();
+    clock.advance(2_950);
+    engine.pause();
+    engine.rewindSeconds(2);
+    expect(shown[shown.length - 1].text).toBe('w9');
+
+    engine.forwardSeconds(1);
+    expect(shown[shown.length - 1].text).toBe('w19');
+  });
+
+  it('stops at the last word', () => {
+    const { engine } = createEngine(words(10));
+
+    engine.forwardSeconds(60);
+
+    expect(engine.getCurrentIndex()).toBe(9);
+  });
+});
+
+describe('summary preview', () => {
+  // Paragraphs of two sentences; skim mode shows only the first of each
+  const text = 'Alpha one two. Beta three four.\nGamma five six. Delta seven eight.\nEpsilon nine ten.';
+
+  it('plays the ranges, then resumes where reading was', () => {
+    const { engine, clock, shown } = createEngine(text);
+
+    engine.jumpToIndex(11);
+    shown.length = 0;
+    engine.startPreview([{ start: 3, end: 5 }, { start: 10, end: 12 }]);
+    engine.play();
+    for (let i = 0; i < 7; i++) clock.advanceToNext();
+
+    expect(shown.map((s) => s.text)).toEqual(['Beta', 'three', 'four.', 'Delta', 'seven', 'eight.', 'seven', 'eight.']);
+    expect(engine.getPreviewProgress()).toBeNull();
+  });
+
+  it('skips ranges skim mode passes over', () => {
+    const { engine, clock, shown } = createEngine(text, { skimMode: true });
+
+    shown.length = 0;
+    // "Beta three four." and "Delta seven eight." are skimmed over
+    engine.startPreview([{ start: 3, end: 5 }, { start: 7, end: 9 }, { start: 10, end: 12 }]);
+    expect(engine.getPreviewProgress()).toEqual({ current: 1, total: 1 });
+
+    engine.play();
+    for (let i = 0; i < 6; i++) clock.advanceToNext();
+
+    expect(shown.map((s) => s.text)).toEqual(['Gamma', 'five', 'six.', 'Alpha', 'one', 'two.', 'Gamma']);
+  });
+
+  it('does not start when every range is passed over', () => {
+    const { engine } = createEngine(text, { skimMode: true });
+
+    engine.startPreview([{ start: 3, end: 5 }]);
+
+    expect(engine.getPreviewProgress()).toBeNull();
+    expect(engine.getCurrentIndex()).toBe(0);
+  });
+
+  it('moves on at the end of a range that becomes hidden', () => {
+    const { engine, clock, shown, settings } = createEngine(text);
+
+    engine.startPreview([{ start: 3, end: 5 }, { start: 7, end: 9 }]);
+    engine.updateSettings({ ...settings, skimMode: true });
+    engine.play();
+    for (let i = 0; i < 4; i++) clock.advanceToNext();
+
+    expect(shown.map((s) => s.text).slice(-5)).toEqual(['Gamma', 'five', 'six.', 'Alpha', 'one']);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * searchText: phrase hits across line breaks and excluded tokens
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex, searchText } from '../src/services/text-search';
+import { tokenizeForEngine } from '../src/rsvp-engine';
+
+const words = tokenizeForEngine('We found dark\nmatter in the halo.\n[H2]Dark matter\nMore dark matter here.');
+const index = createSearchIndex(words);
+
+describe('searchText', () => {
+  it('matches a phrase across line breaks and headings', () => {
+    const hits = searchText(index, 'dark mat');
+
+    expect(hits.map((h) => [words[h.start], words[h.end]])).toEqual([
+      ['dark', 'matter'],
+      ['[H2]Dark', 'matter'],
+      ['dark', 'matter'],
+    ]);
+  });
+
+  it('skips hits with any excluded word, not only the first', () => {
+    const secondLine = words.indexOf('matter');
+
+    const hits = searchText(index, 'dark matter', (i) => i === secondLine);
+
+    expect(hits).toHaveLength(2);
+    expect(hits.every((h) => h.start > secondLine)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Word difficulty: everyday words get no extra time, rare ones do
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getWordDifficulty, getWordRank } from '../src/services/word-difficulty';
+
+describe('getWordDifficulty', () => {
+  it.each([
+    ['the', 0],
+    ['The,', 0],
+    ['ylem', 0.7],
+    ['understanding', 0.33],
+    // listed (via differ), only its three syllables count
+    ['different', 0.1],
+    ['42', 0],
+    ['[H2]the', 0],
+    ['жизнь', 0],
+  ])('%s → %s', (word, expected) => {
+    expect(getWordDifficulty(word)).toBeCloseTo(expected, 2);
+  });
+
+  it.each([
+    "don't", "can't", "won't", "isn't", "didn't",
+    "I'm", "you're", "we've", "I'll", "he'd", 'it’s',
+  ])('%s is an everyday word', (word) => {
+    expect(getWordDifficulty(word)).toBe(0);
+  });
+});
+
+describe('getWordRank', () => {
+  it('looks contractions up by their base word', () => {
+    expect(getWordRank("won't")).toBe(getWordRank('will'));
+    expect(getWordRank("we've")).toBe(getWordRank('we'));
+  });
+
+  it('is -1 for unlisted words', () => {
+    expect(getWordRank('ylem')).toBe(-1);
+  });
+});